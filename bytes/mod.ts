@@ -84,6 +84,20 @@ export function equals(a: Uint8Array, b: Uint8Array): boolean {
   return true;
 }
 
+/** Check whether binary arrays are equal to each other, in a time which only
+ * depends on their length, e.g. to compare a signature with the expected one.
+ * @param a first array to check equality
+ * @param b second array to check equality
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
 /** Check whether binary array starts with prefix.
  * @param source source array
  * @param prefix prefix array to check in source
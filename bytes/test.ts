@@ -10,6 +10,7 @@ import {
   lastIndexOf,
   repeat,
   startsWith,
+  timingSafeEqual,
 } from "./mod.ts";
 import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
 
@@ -100,6 +101,24 @@ Deno.test("[bytes] equals", () => {
   assert(!v3);
 });
 
+Deno.test("[bytes] timingSafeEqual", () => {
+  const v = timingSafeEqual(
+    new Uint8Array([0, 1, 2, 3]),
+    new Uint8Array([0, 1, 2, 3]),
+  );
+  const v2 = timingSafeEqual(
+    new Uint8Array([0, 1, 2, 2]),
+    new Uint8Array([0, 1, 2, 3]),
+  );
+  const v3 = timingSafeEqual(
+    new Uint8Array([0, 1, 2, 3]),
+    new Uint8Array([0, 1, 2]),
+  );
+  assert(v);
+  assert(!v2);
+  assert(!v3);
+});
+
 Deno.test("[bytes] startsWith", () => {
   const v = startsWith(new Uint8Array([0, 1, 2]), new Uint8Array([0, 1]));
   const v2 = startsWith(new Uint8Array([0, 1, 2]), new Uint8Array([0, 2]));
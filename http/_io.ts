@@ -1,9 +1,11 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
-import { BufReader, BufWriter } from "../io/bufio.ts";
+import { BufReader, BufWriter, ReadLineResult } from "../io/bufio.ts";
 import { TextProtoReader } from "../textproto/mod.ts";
 import { assert } from "../_util/assert.ts";
+import { concat } from "../bytes/mod.ts";
 import { Response, ServerRequest } from "./server.ts";
-import { STATUS_TEXT } from "./http_status.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+import { HttpError } from "./errors.ts";
 import { copy, iter } from "../io/util.ts";
 
 const encoder = new TextEncoder();
@@ -16,11 +18,42 @@ export function emptyReader(): Deno.Reader {
   };
 }
 
-export function bodyReader(contentLength: number, r: BufReader): Deno.Reader {
+export function bodyTooLarge(maxBodySize: number): HttpError {
+  return new HttpError(
+    Status.RequestEntityTooLarge,
+    `Request body exceeds the limit of ${maxBodySize} bytes.`,
+  );
+}
+
+/** Wraps a body reader to throw a 413 `HttpError` once more than `limit`
+ * bytes were read. */
+export function limitedReader(r: Deno.Reader, limit: number): Deno.Reader {
+  let totalRead = 0;
+  async function read(buf: Uint8Array): Promise<number | null> {
+    const result = await r.read(buf);
+    if (result !== null) {
+      totalRead += result;
+      if (totalRead > limit) {
+        throw bodyTooLarge(limit);
+      }
+    }
+    return result;
+  }
+  return { read };
+}
+
+export function bodyReader(
+  contentLength: number,
+  r: BufReader,
+  maxBodySize?: number,
+): Deno.Reader {
   let totalRead = 0;
   let finished = false;
   async function read(buf: Uint8Array): Promise<number | null> {
     if (finished) return null;
+    if (maxBodySize !== undefined && contentLength > maxBodySize) {
+      throw bodyTooLarge(maxBodySize);
+    }
     let result: number | null;
     const remaining = contentLength - totalRead;
     if (remaining >= buf.byteLength) {
@@ -38,10 +71,15 @@ export function bodyReader(contentLength: number, r: BufReader): Deno.Reader {
   return { read };
 }
 
-export function chunkedBodyReader(h: Headers, r: BufReader): Deno.Reader {
+export function chunkedBodyReader(
+  h: Headers,
+  r: BufReader,
+  maxBodySize?: number,
+): Deno.Reader {
   // Based on https://tools.ietf.org/html/rfc2616#section-19.4.6
   const tp = new TextProtoReader(r);
   let finished = false;
+  let totalSize = 0;
   const chunks: Array<{
     offset: number;
     data: Uint8Array;
@@ -73,6 +111,10 @@ export function chunkedBodyReader(h: Headers, r: BufReader): Deno.Reader {
     if (Number.isNaN(chunkSize) || chunkSize < 0) {
       throw new Deno.errors.InvalidData("Invalid chunk size");
     }
+    totalSize += chunkSize;
+    if (maxBodySize !== undefined && totalSize > maxBodySize) {
+      throw bodyTooLarge(maxBodySize);
+    }
     if (chunkSize > 0) {
       if (chunkSize > buf.byteLength) {
         let eof = await r.readFull(buf);
@@ -336,11 +378,69 @@ export function parseHTTPVersion(vers: string): [number, number] {
   throw new Error(`malformed HTTP version ${vers}`);
 }
 
+/** Limits applied by `readRequest()`. */
+export interface ReadRequestOptions {
+  /** Maximum number of bytes of the request line and the headers. */
+  maxHeaderBytes?: number;
+  /** Maximum number of header lines. */
+  maxHeaderCount?: number;
+  /** Maximum number of bytes of the request body. */
+  maxBodySize?: number;
+}
+
+/** A TextProtoReader which fails with `431 Request Header Fields Too Large`
+ * as soon as the lines it reads exceed the given limits. */
+class LimitedTextProtoReader extends TextProtoReader {
+  #bytes = 0;
+  #lines = 0;
+
+  constructor(
+    r: BufReader,
+    private maxBytes = Infinity,
+    private maxLines = Infinity,
+  ) {
+    super(r);
+  }
+
+  async readLineSlice(): Promise<Uint8Array | null> {
+    let line = new Uint8Array(0);
+    let r: ReadLineResult | null = null;
+
+    do {
+      r = await this.r.readLine();
+      if (r !== null) {
+        // Count the line terminator as well.
+        this.#bytes += r.line.byteLength + (r.more ? 0 : 2);
+        if (this.#bytes > this.maxBytes) {
+          throw new HttpError(Status.RequestHeaderFieldsTooLarge);
+        }
+        if (this.skipSpace(r.line) !== 0) {
+          line = concat(line, r.line);
+        }
+      }
+    } while (r !== null && r.more);
+
+    // The request line is not a header line.
+    if (line.byteLength > 0 && ++this.#lines > this.maxLines + 1) {
+      throw new HttpError(Status.RequestHeaderFieldsTooLarge);
+    }
+    return r === null ? null : line;
+  }
+}
+
 export async function readRequest(
   conn: Deno.Conn,
   bufr: BufReader,
+  options: ReadRequestOptions = {},
 ): Promise<ServerRequest | null> {
-  const tp = new TextProtoReader(bufr);
+  const tp = options.maxHeaderBytes !== undefined ||
+      options.maxHeaderCount !== undefined
+    ? new LimitedTextProtoReader(
+      bufr,
+      options.maxHeaderBytes,
+      options.maxHeaderCount,
+    )
+    : new TextProtoReader(bufr);
   const firstLine = await tp.readLine(); // e.g. GET /index.html HTTP/1.0
   if (firstLine === null) return null;
   const headers = await tp.readMIMEHeader();
@@ -352,7 +452,14 @@ export async function readRequest(
   [req.method, req.url, req.proto] = firstLine.split(" ", 3);
   [req.protoMajor, req.protoMinor] = parseHTTPVersion(req.proto);
   req.headers = headers;
+  req.maxBodySize = options.maxBodySize;
   fixLength(req);
+  if (
+    options.maxBodySize !== undefined && req.contentLength !== null &&
+    req.contentLength > options.maxBodySize
+  ) {
+    throw bodyTooLarge(options.maxBodySize);
+  }
   return req;
 }
 
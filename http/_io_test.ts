@@ -20,6 +20,7 @@ import { StringReader } from "../io/readers.ts";
 import { mockConn } from "./_mock_conn.ts";
 import { Buffer } from "../io/buffer.ts";
 import { readAll } from "../io/util.ts";
+import { HttpError } from "./errors.ts";
 
 Deno.test("bodyReader", async () => {
   const text = "Hello, Deno";
@@ -30,6 +31,21 @@ Deno.test("bodyReader", async () => {
   assertEquals(new TextDecoder().decode(await readAll(r)), text);
 });
 
+Deno.test("bodyReader with maxBodySize", async () => {
+  const text = "Hello, Deno";
+  const r = bodyReader(
+    text.length,
+    new BufReader(new Buffer(new TextEncoder().encode(text))),
+    5,
+  );
+  const err = await assertThrowsAsync(
+    () => readAll(r),
+    HttpError,
+    "exceeds the limit of 5 bytes",
+  );
+  assertEquals((err as HttpError).status, 413);
+});
+
 function chunkify(n: number, char: string): string {
   const v = Array.from({ length: n })
     .map(() => `${char}`)
@@ -62,6 +78,33 @@ Deno.test("chunkedBodyReader", async () => {
   assertEquals(new TextDecoder().decode(dest.bytes()), exp);
 });
 
+Deno.test("chunkedBodyReader with maxBodySize", async () => {
+  const body = [
+    chunkify(3, "a"),
+    chunkify(5, "b"),
+    chunkify(0, ""),
+  ].join("");
+  const encoded = new TextEncoder().encode(body);
+  const r = chunkedBodyReader(
+    new Headers(),
+    new BufReader(new Buffer(encoded)),
+    8,
+  );
+  assertEquals(new TextDecoder().decode(await readAll(r)), "aaabbbbb");
+
+  const tooLarge = chunkedBodyReader(
+    new Headers(),
+    new BufReader(new Buffer(encoded)),
+    7,
+  );
+  const err = await assertThrowsAsync(
+    () => readAll(tooLarge),
+    HttpError,
+    "exceeds the limit of 7 bytes",
+  );
+  assertEquals((err as HttpError).status, 413);
+});
+
 Deno.test("chunkedBodyReader with trailers", async () => {
   const body = [
     chunkify(3, "a"),
@@ -501,3 +544,63 @@ Deno.test("testReadRequestError", async function () {
     }
   }
 });
+
+Deno.test("readRequest with header limits", async function () {
+  const input = "GET / HTTP/1.1\r\nHost: deno.land\r\nAccept: */*\r\n\r\n";
+  {
+    const reader = new BufReader(new StringReader(input));
+    const req = await readRequest(mockConn(), reader, {
+      maxHeaderBytes: input.length,
+      maxHeaderCount: 2,
+    });
+    assert(req instanceof ServerRequest);
+    assertEquals(req.headers.get("host"), "deno.land");
+  }
+  {
+    const reader = new BufReader(new StringReader(input));
+    const err = await assertThrowsAsync(
+      () => readRequest(mockConn(), reader, { maxHeaderBytes: 30 }),
+      HttpError,
+    );
+    assertEquals((err as HttpError).status, 431);
+  }
+  {
+    const reader = new BufReader(new StringReader(input));
+    const err = await assertThrowsAsync(
+      () => readRequest(mockConn(), reader, { maxHeaderCount: 1 }),
+      HttpError,
+    );
+    assertEquals((err as HttpError).status, 431);
+  }
+  {
+    // A single line larger than the buffer of the reader.
+    const long = `GET /${"a".repeat(10000)} HTTP/1.1\r\n\r\n`;
+    const reader = new BufReader(new StringReader(long));
+    await assertThrowsAsync(
+      () => readRequest(mockConn(), reader, { maxHeaderBytes: 8192 }),
+      HttpError,
+    );
+  }
+});
+
+Deno.test("readRequest with maxBodySize", async function () {
+  const input = "POST / HTTP/1.1\r\nContent-Length: 10\r\n\r\n0123456789";
+  {
+    const reader = new BufReader(new StringReader(input));
+    const req = await readRequest(mockConn(), reader, { maxBodySize: 10 });
+    assert(req instanceof ServerRequest);
+    assertEquals(req.maxBodySize, 10);
+    assertEquals(
+      new TextDecoder().decode(await readAll(req.body)),
+      "0123456789",
+    );
+  }
+  {
+    const reader = new BufReader(new StringReader(input));
+    const err = await assertThrowsAsync(
+      () => readRequest(mockConn(), reader, { maxBodySize: 9 }),
+      HttpError,
+    );
+    assertEquals((err as HttpError).status, 413);
+  }
+});
@@ -0,0 +1,218 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { getLogger, Logger } from "../log/mod.ts";
+import type { LevelName } from "../log/mod.ts";
+import { Response, ServerRequest } from "./server.ts";
+
+const encoder = new TextEncoder();
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** A request handled by a handler wrapped with `accessLog()`. */
+export interface AccessLogEntry {
+  /** The time at which the request was received. */
+  date: Date;
+  /** The address of the client, `"-"` if unknown. */
+  remoteAddr: string;
+  /** The user name of `Basic` authentication, if any. */
+  user?: string;
+  method: string;
+  url: string;
+  proto: string;
+  status: number;
+  /** The number of bytes of the response body. */
+  bytes: number;
+  /** Number of milliseconds from the call of the handler until the response
+   * was written. */
+  duration: number;
+  referer?: string;
+  userAgent?: string;
+}
+
+/**
+ * The format of the access log:
+ *
+ * - `"common"`: the Common Log Format, as written by Apache and nginx.
+ * - `"combined"`: the Common Log Format followed by the `Referer` and
+ *   `User-Agent` headers.
+ * - `"json"`: the entry as a JSON object.
+ */
+export type AccessLogFormat = "common" | "combined" | "json";
+
+export interface AccessLogOptions {
+  /** The logger to write to, or its name. Defaults to the default logger. */
+  logger?: Logger | string;
+  /** Defaults to `"INFO"`. */
+  level?: Exclude<LevelName, "NOTSET">;
+  /** A format name, or a function formatting an entry. Defaults to
+   * `"common"`. */
+  format?: AccessLogFormat | ((entry: AccessLogEntry) => string);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** Format a date as `10/Oct/2000:13:55:36 +0000`. */
+function formatCommonDate(date: Date): string {
+  return `${pad(date.getUTCDate())}/${
+    MONTHS[date.getUTCMonth()]
+  }/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${
+    pad(date.getUTCMinutes())
+  }:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/** Quote a request line or a header for the Common Log Format. */
+function quote(value: string | undefined): string {
+  if (value === undefined) {
+    return '"-"';
+  }
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/** Format an entry in one of the `AccessLogFormat` formats. */
+export function formatAccessLog(
+  entry: AccessLogEntry,
+  format: AccessLogFormat = "common",
+): string {
+  if (format === "json") {
+    return JSON.stringify(entry);
+  }
+  let line = `${entry.remoteAddr} - ${entry.user ?? "-"} [${
+    formatCommonDate(entry.date)
+  }] ${quote(`${entry.method} ${entry.url} ${entry.proto}`)} ${entry.status} ${
+    entry.bytes > 0 ? entry.bytes : "-"
+  }`;
+  if (format === "combined") {
+    line += ` ${quote(entry.referer)} ${quote(entry.userAgent)}`;
+  }
+  return line;
+}
+
+function remoteAddr(req: ServerRequest): string {
+  const addr = req.conn?.remoteAddr;
+  if (addr?.transport === "tcp" || addr?.transport === "udp") {
+    return addr.hostname;
+  }
+  return "-";
+}
+
+function basicAuthUser(req: ServerRequest): string | undefined {
+  const authorization = req.headers.get("authorization");
+  const match = authorization?.match(/^Basic\s+(\S+)$/i);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    const credentials = atob(match[1]);
+    const index = credentials.indexOf(":");
+    return index === -1 ? undefined : credentials.slice(0, index);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Returns a copy of the response whose body counts the bytes read from it. */
+function countBody(r: Response): { response: Response; bytes: () => number } {
+  const body = typeof r.body === "string" ? encoder.encode(r.body) : r.body;
+  if (body === undefined || body instanceof Uint8Array) {
+    const length = body?.byteLength ?? 0;
+    return { response: { ...r, body }, bytes: () => length };
+  }
+  let count = 0;
+  const reader: Deno.Reader = {
+    async read(p: Uint8Array): Promise<number | null> {
+      const n = await body.read(p);
+      if (n !== null) {
+        count += n;
+      }
+      return n;
+    },
+  };
+  return { response: { ...r, body: reader }, bytes: () => count };
+}
+
+/**
+ * Wrap a request handler to log every response once it has been written,
+ * through a logger of `log/mod.ts`:
+ *
+ *     import { listenAndServe } from "https://deno.land/std/http/server.ts";
+ *     import { accessLog } from "https://deno.land/std/http/access_log.ts";
+ *     listenAndServe(
+ *       ":8000",
+ *       accessLog((req) => req.respond({ body: "hi" }), { format: "combined" }),
+ *     );
+ *     // 127.0.0.1 - - [10/Oct/2021:13:55:36 +0000] "GET / HTTP/1.1" 200 2 "-" "curl/7.64.1"
+ *
+ * The handler may be the result of `applyMiddleware()`, or any function which
+ * calls `req.respond()`. Responses which fail to be written are logged too.
+ */
+export function accessLog(
+  handler: (req: ServerRequest) => unknown,
+  options: AccessLogOptions = {},
+): (req: ServerRequest) => Promise<void> {
+  const { level = "INFO", format = "common" } = options;
+  const method = ({
+    DEBUG: "debug",
+    INFO: "info",
+    WARNING: "warning",
+    ERROR: "error",
+    CRITICAL: "critical",
+  } as const)[level];
+
+  return async (req: ServerRequest): Promise<void> => {
+    const date = new Date();
+    const start = performance.now();
+    req.onRespond(async (r, next) => {
+      const { response, bytes } = countBody(r);
+      try {
+        await next(response);
+      } finally {
+        const entry: AccessLogEntry = {
+          date,
+          remoteAddr: remoteAddr(req),
+          method: req.method,
+          url: req.url,
+          proto: req.proto,
+          status: r.status || 200,
+          bytes: bytes(),
+          duration: performance.now() - start,
+        };
+        const user = basicAuthUser(req);
+        if (user !== undefined) {
+          entry.user = user;
+        }
+        const referer = req.headers.get("referer");
+        if (referer !== null) {
+          entry.referer = referer;
+        }
+        const userAgent = req.headers.get("user-agent");
+        if (userAgent !== null) {
+          entry.userAgent = userAgent;
+        }
+        const logger = typeof options.logger === "string" ||
+            options.logger === undefined
+          ? getLogger(options.logger)
+          : options.logger;
+        logger[method](() =>
+          typeof format === "function"
+            ? format(entry)
+            : formatAccessLog(entry, format)
+        );
+      }
+    });
+    await handler(req);
+  };
+}
@@ -0,0 +1,138 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertMatch } from "../testing/asserts.ts";
+import { BufWriter } from "../io/bufio.ts";
+import { Buffer } from "../io/buffer.ts";
+import { StringReader } from "../io/readers.ts";
+import { Logger } from "../log/mod.ts";
+import { BaseHandler } from "../log/handlers.ts";
+import { accessLog, AccessLogEntry, formatAccessLog } from "./access_log.ts";
+import { applyMiddleware } from "./middleware.ts";
+import { mockConn } from "./_mock_conn.ts";
+import { ServerRequest } from "./server.ts";
+
+class TestHandler extends BaseHandler {
+  messages: string[] = [];
+
+  log(msg: string): void {
+    this.messages.push(msg);
+  }
+}
+
+function createLogger(): { logger: Logger; handler: TestHandler } {
+  const handler = new TestHandler("DEBUG", { formatter: "{levelName} {msg}" });
+  return {
+    logger: new Logger("access", "DEBUG", { handlers: [handler] }),
+    handler,
+  };
+}
+
+function createRequest(
+  url: string,
+  headers: Record<string, string> = {},
+): { req: ServerRequest; buf: Buffer } {
+  const buf = new Buffer();
+  const req = new ServerRequest();
+  req.method = "GET";
+  req.url = url;
+  req.proto = "HTTP/1.1";
+  req.headers = new Headers(headers);
+  req.conn = mockConn({
+    remoteAddr: { transport: "tcp", hostname: "10.0.0.1", port: 4000 },
+  });
+  req.w = new BufWriter(buf);
+  return { req, buf };
+}
+
+const entry: AccessLogEntry = {
+  date: new Date("2000-10-10T13:55:36Z"),
+  remoteAddr: "127.0.0.1",
+  user: "frank",
+  method: "GET",
+  url: '/a"b',
+  proto: "HTTP/1.0",
+  status: 200,
+  bytes: 2326,
+  duration: 1.5,
+  referer: "http://example.com/",
+};
+
+Deno.test("[http/access_log] formats", function () {
+  assertEquals(
+    formatAccessLog(entry),
+    '127.0.0.1 - frank [10/Oct/2000:13:55:36 +0000] "GET /a\\"b HTTP/1.0" 200 2326',
+  );
+  assertEquals(
+    formatAccessLog({ ...entry, user: undefined, bytes: 0 }, "combined"),
+    '127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /a\\"b HTTP/1.0" 200 - ' +
+      '"http://example.com/" "-"',
+  );
+  assertEquals(JSON.parse(formatAccessLog(entry, "json")), {
+    ...entry,
+    date: "2000-10-10T13:55:36.000Z",
+  });
+});
+
+Deno.test("[http/access_log] logs responses", async function () {
+  const { logger, handler } = createLogger();
+  const log = accessLog(
+    (req) => req.respond({ status: 201, body: "created" }),
+    {
+      logger,
+      format: "combined",
+    },
+  );
+  const { req, buf } = createRequest("/items", {
+    authorization: `Basic ${btoa("deno:secret")}`,
+    "user-agent": "test",
+  });
+  await log(req);
+  assertMatch(new TextDecoder().decode(buf.bytes()), /^HTTP\/1\.1 201 Created/);
+  assertEquals(handler.messages.length, 1);
+  assertMatch(
+    handler.messages[0],
+    /^INFO 10\.0\.0\.1 - deno \[\d\d\/\w{3}\/\d{4}:\d\d:\d\d:\d\d \+0000\] "GET \/items HTTP\/1\.1" 201 7 "-" "test"$/,
+  );
+});
+
+Deno.test("[http/access_log] counts streamed bodies", async function () {
+  const { logger, handler } = createLogger();
+  const entries: AccessLogEntry[] = [];
+  const log = accessLog(
+    applyMiddleware(() => ({ body: new StringReader("streamed") }), []),
+    {
+      logger,
+      level: "DEBUG",
+      format: (entry) => {
+        entries.push(entry);
+        return "custom";
+      },
+    },
+  );
+  const { req } = createRequest("/stream");
+  await log(req);
+  assertEquals(handler.messages, ["DEBUG custom"]);
+  assertEquals(entries[0].status, 200);
+  assertEquals(entries[0].bytes, 8);
+  assert(entries[0].duration >= 0);
+});
+
+Deno.test("[http/access_log] logs failed responses", async function () {
+  const { logger, handler } = createLogger();
+  const log = accessLog((req) => req.respond({ body: "lost" }), {
+    logger,
+    format: "json",
+  });
+  const { req } = createRequest("/");
+  req.w = new BufWriter({
+    write: () => Promise.reject(new Deno.errors.BrokenPipe()),
+  });
+  let error;
+  try {
+    await log(req);
+  } catch (e) {
+    error = e;
+  }
+  assert(error instanceof Deno.errors.BrokenPipe);
+  assertEquals(handler.messages.length, 1);
+  assertEquals(JSON.parse(handler.messages[0].slice(5)).url, "/");
+});
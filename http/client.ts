@@ -0,0 +1,554 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { BufReader, BufWriter } from "../io/bufio.ts";
+import { TextProtoReader } from "../textproto/mod.ts";
+import { copy, readAll } from "../io/util.ts";
+import {
+  bodyReader,
+  chunkedBodyReader,
+  emptyReader,
+  parseHTTPVersion,
+  writeChunkedBody,
+} from "./_io.ts";
+import { Status } from "./http_status.ts";
+import { CookieJar } from "./cookie_jar.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * What the client does when it receives a redirect.
+ *
+ * - `"follow"`: send the request again to the new location.
+ * - `"manual"`: return the redirect response.
+ * - `"error"`: throw an error.
+ */
+export type RedirectPolicy = "follow" | "manual" | "error";
+
+export interface HttpClientOptions {
+  /** Keep connections open after a response has been read, to reuse them for
+   * the next requests to the same origin. Defaults to `true`. */
+  keepAlive?: boolean;
+  /** Maximum number of idle connections kept per origin. Defaults to `8`. */
+  maxIdleConnections?: number;
+  /** Number of milliseconds after which an idle connection is closed.
+   * Defaults to `30000`. */
+  idleTimeout?: number;
+  /** Default timeout of the requests, see `RequestOptions.timeout`. */
+  timeout?: number;
+  /** Options passed to `Deno.connectTls()` for `https:` URLs. */
+  tls?: Omit<Deno.ConnectTlsOptions, "hostname" | "port">;
+  /** Store the cookies set by responses, including redirects, and send them
+   * with the next requests. */
+  cookieJar?: CookieJar;
+}
+
+export interface RequestOptions {
+  /** Defaults to `"GET"`. */
+  method?: string;
+  headers?: HeadersInit;
+  /** A `Deno.Reader` body is sent with `transfer-encoding: chunked`, unless a
+   * `content-length` header is given. */
+  body?: string | Uint8Array | Deno.Reader;
+  /** Defaults to `"follow"`. A `307` or `308` redirect of a request with a
+   * `Deno.Reader` body is never followed, as the body cannot be sent again. */
+  redirect?: RedirectPolicy;
+  /** Maximum number of redirects to follow. Defaults to `20`. */
+  maxRedirects?: number;
+  /** Number of milliseconds allowed to connect, send the request and receive
+   * the headers of the response, after which the request fails with
+   * `Deno.errors.TimedOut`. */
+  timeout?: number;
+}
+
+export interface ClientResponse {
+  /** The URL of the response, after redirects. */
+  url: string;
+  /** Whether the response is the result of following redirects. */
+  redirected: boolean;
+  proto: string;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  /** The body of the response. Once it has been read to the end, the
+   * connection returns to the pool of the client. */
+  body: Deno.Reader;
+  /** Trailer headers of the response. They are available once the body has
+   * been read to the end. */
+  trailers: Headers;
+  /** The connection of the response. After a `101 Switching Protocols`
+   * response, it belongs to the caller. */
+  conn: Deno.Conn;
+  r: BufReader;
+  w: BufWriter;
+  /** Read the whole body as text. */
+  text(): Promise<string>;
+  /** Close the connection if the body has not been read to the end. */
+  close(): void;
+}
+
+interface Connection {
+  key: string;
+  conn: Deno.Conn;
+  r: BufReader;
+  w: BufWriter;
+  reused: boolean;
+  idleTimer?: number;
+}
+
+interface Exchange {
+  connection?: Connection;
+  timedOut: boolean;
+}
+
+const REDIRECT_STATUSES = new Set<number>([
+  Status.MovedPermanently,
+  Status.Found,
+  Status.SeeOther,
+  Status.TemporaryRedirect,
+  Status.PermanentRedirect,
+]);
+
+/** Methods which can be retried, as sending them twice has the same effect as
+ * sending them once. */
+const IDEMPOTENT_METHODS = new Set<string>([
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "DELETE",
+  "TRACE",
+]);
+
+function isReader(body: RequestOptions["body"]): body is Deno.Reader {
+  return body !== undefined && typeof body !== "string" &&
+    !(body instanceof Uint8Array);
+}
+
+function closeConn(conn: Deno.Conn): void {
+  try {
+    conn.close();
+  } catch {
+    // Already closed.
+  }
+}
+
+async function writeRequest(
+  w: BufWriter,
+  url: URL,
+  method: string,
+  headers: Headers,
+  body: RequestOptions["body"],
+): Promise<void> {
+  let out = `${method} ${url.pathname}${url.search} HTTP/1.1\r\n`;
+  if (!headers.has("host")) {
+    out += `host: ${url.host}\r\n`;
+  }
+  const bytes = typeof body === "string" ? encoder.encode(body) : body;
+  const chunked = isReader(bytes) && !headers.has("content-length");
+  if (bytes instanceof Uint8Array && !headers.has("content-length")) {
+    out += `content-length: ${bytes.byteLength}\r\n`;
+  } else if (
+    bytes === undefined && ["POST", "PUT", "PATCH"].includes(method) &&
+    !headers.has("content-length")
+  ) {
+    out += "content-length: 0\r\n";
+  } else if (chunked && !headers.has("transfer-encoding")) {
+    out += "transfer-encoding: chunked\r\n";
+  }
+  for (const [key, value] of headers) {
+    out += `${key}: ${value}\r\n`;
+  }
+  out += "\r\n";
+  await w.write(encoder.encode(out));
+  if (bytes instanceof Uint8Array) {
+    await w.write(bytes);
+  } else if (bytes !== undefined) {
+    if (chunked) {
+      await writeChunkedBody(w, bytes);
+    } else {
+      await copy(bytes, w);
+    }
+  }
+  await w.flush();
+}
+
+/** Read the status line and the headers of the final response, skipping
+ * informational responses other than `101 Switching Protocols`. Returns
+ * `null` if the connection was closed before any response. */
+async function readResponseHead(
+  r: BufReader,
+): Promise<
+  { proto: string; status: number; statusText: string; headers: Headers } | null
+> {
+  const tp = new TextProtoReader(r);
+  while (true) {
+    const line = await tp.readLine();
+    if (line === null) return null;
+    const [proto, code, ...text] = line.split(" ");
+    parseHTTPVersion(proto);
+    if (!/^\d{3}$/.test(code ?? "")) {
+      throw new Deno.errors.InvalidData(`Malformed status line: "${line}".`);
+    }
+    const status = Number(code);
+    const headers = await tp.readMIMEHeader();
+    if (headers === null) throw new Deno.errors.UnexpectedEof();
+    if (status >= 100 && status < 200 && status !== Status.SwitchingProtocols) {
+      continue;
+    }
+    return { proto, status, statusText: text.join(" "), headers };
+  }
+}
+
+/** Returns whether the connection of a response can be reused. */
+function keepsAlive(proto: string, headers: Headers): boolean {
+  const connection = (headers.get("connection") ?? "").toLowerCase();
+  if (connection.includes("close")) return false;
+  return proto === "HTTP/1.1" || connection.includes("keep-alive");
+}
+
+/**
+ * An HTTP/1.1 client which keeps a pool of connections per origin.
+ *
+ *     import { HttpClient } from "https://deno.land/std/http/client.ts";
+ *     const client = new HttpClient();
+ *     const res = await client.request("http://localhost:8000/users", {
+ *       method: "POST",
+ *       headers: { "content-type": "application/json" },
+ *       body: JSON.stringify({ name: "deno" }),
+ *     });
+ *     console.log(res.status, await res.text());
+ *     client.close();
+ *
+ * The body of every response must be read to the end, or the response must
+ * be closed, so that its connection is released.
+ */
+export class HttpClient {
+  #idle = new Map<string, Connection[]>();
+  #keepAlive: boolean;
+  #maxIdleConnections: number;
+  #idleTimeout: number;
+  #timeout?: number;
+  #tls: HttpClientOptions["tls"];
+  #cookieJar?: CookieJar;
+  #closed = false;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.#keepAlive = options.keepAlive ?? true;
+    this.#maxIdleConnections = options.maxIdleConnections ?? 8;
+    this.#idleTimeout = options.idleTimeout ?? 30000;
+    this.#timeout = options.timeout;
+    this.#tls = options.tls;
+    this.#cookieJar = options.cookieJar;
+  }
+
+  /** Send a request and resolve with the response once its headers have
+   * been received. */
+  async request(
+    input: string | URL,
+    options: RequestOptions = {},
+  ): Promise<ClientResponse> {
+    if (this.#closed) {
+      throw new Deno.errors.BadResource("The client is closed.");
+    }
+    let url = new URL(String(input));
+    let method = (options.method ?? "GET").toUpperCase();
+    const headers = new Headers(options.headers);
+    if (!this.#keepAlive && !headers.has("connection")) {
+      headers.set("connection", "close");
+    }
+    let body = options.body;
+    const redirect = options.redirect ?? "follow";
+    const maxRedirects = options.maxRedirects ?? 20;
+    const timeout = options.timeout ?? this.#timeout;
+
+    for (let redirects = 0;; redirects++) {
+      const res = await this.#send(
+        url,
+        method,
+        this.#withCookies(url, headers),
+        body,
+        timeout,
+      );
+      this.#cookieJar?.setCookies(url, res.headers);
+      res.redirected = redirects > 0;
+      const location = res.headers.get("location");
+      if (
+        !REDIRECT_STATUSES.has(res.status) || location === null ||
+        redirect === "manual"
+      ) {
+        return res;
+      }
+      if (redirect === "error") {
+        res.close();
+        throw new Error(`Unexpected redirect to "${location}".`);
+      }
+      if (redirects >= maxRedirects) {
+        res.close();
+        throw new Error(`Too many redirects (more than ${maxRedirects}).`);
+      }
+      const keepsMethod = res.status === Status.TemporaryRedirect ||
+        res.status === Status.PermanentRedirect;
+      if (keepsMethod && isReader(body)) {
+        return res;
+      }
+      await readAll(res.body);
+
+      const next = new URL(location, url);
+      if (next.origin !== url.origin) {
+        for (const name of ["authorization", "cookie", "host"]) {
+          headers.delete(name);
+        }
+      }
+      if (
+        (res.status === Status.SeeOther && method !== "HEAD") ||
+        (!keepsMethod && method === "POST")
+      ) {
+        method = "GET";
+        body = undefined;
+        for (const name of ["content-length", "content-type"]) {
+          headers.delete(name);
+        }
+      }
+      url = next;
+    }
+  }
+
+  /** Close the idle connections. Connections in use are closed once their
+   * response has been read. */
+  close(): void {
+    this.#closed = true;
+    for (const connections of this.#idle.values()) {
+      for (const connection of connections) {
+        clearTimeout(connection.idleTimer);
+        closeConn(connection.conn);
+      }
+    }
+    this.#idle.clear();
+  }
+
+  /** Add the cookies of the cookie jar to the `cookie` header, if any. */
+  #withCookies(url: URL, headers: Headers): Headers {
+    const cookies = this.#cookieJar?.getCookieHeader(url) ?? null;
+    if (cookies === null) {
+      return headers;
+    }
+    const result = new Headers(headers);
+    const cookie = headers.get("cookie");
+    result.set("cookie", cookie === null ? cookies : `${cookie}; ${cookies}`);
+    return result;
+  }
+
+  async #send(
+    url: URL,
+    method: string,
+    headers: Headers,
+    body: RequestOptions["body"],
+    timeout?: number,
+  ): Promise<ClientResponse> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new TypeError(`Unsupported protocol "${url.protocol}".`);
+    }
+    const exchange: Exchange = { timedOut: false };
+    const response = this.#exchange(exchange, url, method, headers, body);
+    if (timeout === undefined) {
+      return response;
+    }
+    let timer: number | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        exchange.timedOut = true;
+        if (exchange.connection) {
+          closeConn(exchange.connection.conn);
+        }
+        reject(
+          new Deno.errors.TimedOut(`Request timed out after ${timeout}ms.`),
+        );
+      }, timeout);
+    });
+    // The exchange fails once its connection is closed by the deadline.
+    response.catch(() => {});
+    try {
+      return await Promise.race([response, deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async #exchange(
+    exchange: Exchange,
+    url: URL,
+    method: string,
+    headers: Headers,
+    body: RequestOptions["body"],
+  ): Promise<ClientResponse> {
+    const connection = await this.#acquire(url);
+    exchange.connection = connection;
+    if (exchange.timedOut) {
+      closeConn(connection.conn);
+      throw new Deno.errors.TimedOut();
+    }
+    // The server may close an idle connection at any time. An idempotent
+    // request is retried once on a new connection if its body can be sent
+    // again, while others may already have been processed by the server.
+    const retryable = connection.reused && IDEMPOTENT_METHODS.has(method) &&
+      !isReader(body);
+    let head;
+    try {
+      await writeRequest(connection.w, url, method, headers, body);
+      head = await readResponseHead(connection.r);
+    } catch (e) {
+      closeConn(connection.conn);
+      if (!retryable || exchange.timedOut) {
+        throw e;
+      }
+    }
+    if (!head) {
+      closeConn(connection.conn);
+      if (retryable && !exchange.timedOut) {
+        return this.#exchange(exchange, url, method, headers, body);
+      }
+      throw new Deno.errors.UnexpectedEof();
+    }
+    return this.#createResponse(url, method, connection, head);
+  }
+
+  #createResponse(
+    url: URL,
+    method: string,
+    connection: Connection,
+    head: {
+      proto: string;
+      status: number;
+      statusText: string;
+      headers: Headers;
+    },
+  ): ClientResponse {
+    const { proto, status, headers } = head;
+    const trailers = new Headers();
+    const trailer = headers.get("trailer");
+    if (trailer !== null) {
+      trailers.set("trailer", trailer);
+    }
+
+    let reusable = this.#keepAlive && keepsAlive(proto, headers);
+    let source: Deno.Reader | undefined;
+    const contentLength = headers.get("content-length");
+    const transferEncoding = (headers.get("transfer-encoding") ?? "")
+      .toLowerCase();
+    if (status === Status.SwitchingProtocols) {
+      // The connection now speaks another protocol.
+      reusable = false;
+    } else if (
+      method === "HEAD" || status === Status.NoContent ||
+      status === Status.NotModified
+    ) {
+      // No body.
+    } else if (transferEncoding.includes("chunked")) {
+      source = chunkedBodyReader(trailers, connection.r);
+    } else if (contentLength !== null) {
+      const length = parseInt(contentLength);
+      if (Number.isNaN(length) || length < 0) {
+        closeConn(connection.conn);
+        throw new Deno.errors.InvalidData(
+          `Invalid content-length: "${contentLength}".`,
+        );
+      }
+      if (length > 0) {
+        source = bodyReader(length, connection.r);
+      }
+    } else {
+      // The body ends when the server closes the connection.
+      source = connection.r;
+      reusable = false;
+    }
+
+    let ended = false;
+    const end = (reuse: boolean): void => {
+      if (ended) return;
+      ended = true;
+      if (reuse) {
+        this.#release(connection);
+      } else {
+        closeConn(connection.conn);
+      }
+    };
+    if (source === undefined && status !== Status.SwitchingProtocols) {
+      end(reusable);
+    }
+
+    const body: Deno.Reader = source === undefined ? emptyReader() : {
+      async read(p: Uint8Array): Promise<number | null> {
+        if (ended) return null;
+        let n: number | null;
+        try {
+          n = await source!.read(p);
+        } catch (e) {
+          end(false);
+          throw e;
+        }
+        if (n === null) {
+          end(reusable);
+        }
+        return n;
+      },
+    };
+
+    return {
+      url: url.href,
+      redirected: false,
+      proto,
+      status,
+      statusText: head.statusText,
+      headers,
+      body,
+      trailers,
+      conn: connection.conn,
+      r: connection.r,
+      w: connection.w,
+      async text(): Promise<string> {
+        return decoder.decode(await readAll(body));
+      },
+      close(): void {
+        end(false);
+      },
+    };
+  }
+
+  async #acquire(url: URL): Promise<Connection> {
+    const key = url.origin;
+    const pooled = this.#idle.get(key)?.pop();
+    if (pooled) {
+      clearTimeout(pooled.idleTimer);
+      return { ...pooled, reused: true, idleTimer: undefined };
+    }
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+    const conn = url.protocol === "https:"
+      ? await Deno.connectTls({ ...this.#tls, hostname, port })
+      : await Deno.connect({ hostname, port });
+    return {
+      key,
+      conn,
+      r: new BufReader(conn),
+      w: new BufWriter(conn),
+      reused: false,
+    };
+  }
+
+  #release(connection: Connection): void {
+    const idle = this.#idle.get(connection.key) ?? [];
+    if (this.#closed || idle.length >= this.#maxIdleConnections) {
+      closeConn(connection.conn);
+      return;
+    }
+    connection.idleTimer = setTimeout(() => {
+      const index = idle.indexOf(connection);
+      if (index !== -1) {
+        idle.splice(index, 1);
+      }
+      closeConn(connection.conn);
+    }, this.#idleTimeout);
+    idle.push(connection);
+    this.#idle.set(connection.key, idle);
+  }
+}
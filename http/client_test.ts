@@ -0,0 +1,280 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { readAll } from "../io/util.ts";
+import { StringReader } from "../io/readers.ts";
+import { HttpClient } from "./client.ts";
+import { CookieJar } from "./cookie_jar.ts";
+import { serve, ServerRequest } from "./server.ts";
+
+const port = 8127;
+const origin = `http://127.0.0.1:${port}`;
+
+async function withServer(
+  handler: (req: ServerRequest) => Promise<void>,
+  fn: (client: HttpClient) => Promise<void>,
+): Promise<void> {
+  const server = serve({ hostname: "127.0.0.1", port });
+  const client = new HttpClient();
+  const loop = (async () => {
+    for await (const req of server) {
+      await handler(req);
+    }
+  })();
+  try {
+    await fn(client);
+  } finally {
+    client.close();
+    server.close();
+    await loop;
+  }
+}
+
+Deno.test("[http/client] reuses connections", async function () {
+  const ports = new Set<number>();
+  await withServer(async (req) => {
+    ports.add((req.conn.remoteAddr as Deno.NetAddr).port);
+    await req.respond({ body: `${req.method} ${req.url}` });
+  }, async (client) => {
+    for (let i = 0; i < 3; i++) {
+      const res = await client.request(`${origin}/hello?i=${i}`);
+      assertEquals(res.status, 200);
+      assertEquals(res.statusText, "OK");
+      assertEquals(await res.text(), `GET /hello?i=${i}`);
+    }
+    assertEquals(ports.size, 1);
+  });
+});
+
+Deno.test("[http/client] without keep-alive", async function () {
+  const ports = new Set<number>();
+  await withServer(async (req) => {
+    ports.add((req.conn.remoteAddr as Deno.NetAddr).port);
+    await req.respond({ body: req.headers.get("connection") ?? "" });
+  }, async () => {
+    const client = new HttpClient({ keepAlive: false });
+    for (let i = 0; i < 2; i++) {
+      const res = await client.request(`${origin}/`);
+      assertEquals(await res.text(), "close");
+    }
+    client.close();
+    assertEquals(ports.size, 2);
+  });
+});
+
+Deno.test("[http/client] sends bodies", async function () {
+  await withServer(async (req) => {
+    const body = new TextDecoder().decode(await readAll(req.body));
+    await req.respond({
+      body: `${req.headers.get("transfer-encoding")} ${
+        req.headers.get("content-length")
+      } ${body}`,
+    });
+  }, async (client) => {
+    let res = await client.request(`${origin}/`, {
+      method: "POST",
+      body: "hello",
+    });
+    assertEquals(await res.text(), "null 5 hello");
+
+    res = await client.request(`${origin}/`, {
+      method: "PUT",
+      body: new StringReader("streamed body"),
+    });
+    assertEquals(await res.text(), "chunked null streamed body");
+
+    res = await client.request(`${origin}/`, { method: "POST" });
+    assertEquals(await res.text(), "null 0 ");
+  });
+});
+
+Deno.test("[http/client] reads chunked bodies and trailers", async function () {
+  await withServer(async (req) => {
+    await req.respond({
+      headers: new Headers({
+        "transfer-encoding": "chunked",
+        trailer: "x-checksum",
+      }),
+      body: new StringReader("chunked response"),
+      trailers: () => new Headers({ "x-checksum": "abc" }),
+    });
+  }, async (client) => {
+    const res = await client.request(`${origin}/`);
+    assertEquals(res.headers.get("transfer-encoding"), "chunked");
+    assertEquals(res.trailers.has("x-checksum"), false);
+    assertEquals(await res.text(), "chunked response");
+    assertEquals(res.trailers.get("x-checksum"), "abc");
+    assertEquals(res.trailers.has("trailer"), false);
+  });
+});
+
+Deno.test("[http/client] responses without body", async function () {
+  await withServer(async (req) => {
+    await req.respond({
+      status: req.url === "/empty" ? 204 : 200,
+      body: "content",
+    });
+  }, async (client) => {
+    let res = await client.request(`${origin}/`, { method: "HEAD" });
+    assertEquals(res.headers.get("content-length"), "7");
+    assertEquals(await res.text(), "");
+    res = await client.request(`${origin}/empty`);
+    assertEquals(res.status, 204);
+    assertEquals(await res.text(), "");
+    res = await client.request(`${origin}/`);
+    assertEquals(await res.text(), "content");
+  });
+});
+
+Deno.test("[http/client] follows redirects", async function () {
+  await withServer(async (req) => {
+    await readAll(req.body);
+    switch (req.url) {
+      case "/old":
+        await req.respond({
+          status: 301,
+          headers: new Headers({ location: "/new" }),
+        });
+        break;
+      case "/form":
+        await req.respond({
+          status: 303,
+          headers: new Headers({ location: "/new" }),
+        });
+        break;
+      case "/loop":
+        await req.respond({
+          status: 302,
+          headers: new Headers({ location: "/loop" }),
+        });
+        break;
+      default:
+        await req.respond({ body: `${req.method} ${req.url}` });
+    }
+  }, async (client) => {
+    let res = await client.request(`${origin}/old`);
+    assertEquals(await res.text(), "GET /new");
+    assertEquals(res.url, `${origin}/new`);
+    assertEquals(res.redirected, true);
+
+    res = await client.request(`${origin}/form`, {
+      method: "POST",
+      body: "a=1",
+    });
+    assertEquals(await res.text(), "GET /new");
+
+    res = await client.request(`${origin}/old`, { redirect: "manual" });
+    assertEquals(res.status, 301);
+    assertEquals(res.headers.get("location"), "/new");
+    await res.text();
+
+    await assertThrowsAsync(
+      () => client.request(`${origin}/old`, { redirect: "error" }),
+      Error,
+      'Unexpected redirect to "/new".',
+    );
+    await assertThrowsAsync(
+      () => client.request(`${origin}/loop`, { maxRedirects: 3 }),
+      Error,
+      "Too many redirects",
+    );
+  });
+});
+
+Deno.test("[http/client] times out", async function () {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port });
+  const accepted = listener.accept();
+  const client = new HttpClient({ timeout: 100 });
+  try {
+    await assertThrowsAsync(
+      () => client.request(`${origin}/`),
+      Deno.errors.TimedOut,
+      "Request timed out after 100ms.",
+    );
+  } finally {
+    client.close();
+    (await accepted).close();
+    listener.close();
+  }
+});
+
+Deno.test("[http/client] retries a request on a closed idle connection", async function () {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port });
+  const client = new HttpClient();
+  const response = new TextEncoder().encode(
+    "HTTP/1.1 200 OK\r\ncontent-length: 2\r\n\r\nok",
+  );
+  const serveTwice = (async () => {
+    for (let i = 0; i < 2; i++) {
+      const conn = await listener.accept();
+      await conn.read(new Uint8Array(1024));
+      await conn.write(response);
+      // Close the connection after the response, as if it was idle for too
+      // long.
+      conn.close();
+    }
+  })();
+  try {
+    assertEquals(await (await client.request(`${origin}/`)).text(), "ok");
+    const res = await client.request(`${origin}/`);
+    assertEquals(await res.text(), "ok");
+  } finally {
+    await serveTwice;
+    client.close();
+    listener.close();
+  }
+});
+
+Deno.test("[http/client] does not retry a POST on a closed idle connection", async function () {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port });
+  const client = new HttpClient();
+  const response = new TextEncoder().encode(
+    "HTTP/1.1 200 OK\r\ncontent-length: 2\r\n\r\nok",
+  );
+  let accepted = 0;
+  const serving = (async () => {
+    for await (const conn of listener) {
+      accepted++;
+      await conn.read(new Uint8Array(1024));
+      await conn.write(response);
+      conn.close();
+    }
+  })();
+  try {
+    assertEquals(await (await client.request(`${origin}/`)).text(), "ok");
+    await assertThrowsAsync(() =>
+      client.request(`${origin}/`, { method: "POST", body: "data" })
+    );
+    assertEquals(accepted, 1);
+  } finally {
+    client.close();
+    listener.close();
+    await serving;
+  }
+});
+
+Deno.test("[http/client] stores and sends cookies", async function () {
+  await withServer(async (req) => {
+    const headers = new Headers();
+    if (req.url === "/login") {
+      headers.append("set-cookie", "session=abc; Path=/");
+      headers.append("location", "/home");
+      await req.respond({ status: 302, headers });
+    } else {
+      await req.respond({ body: req.headers.get("cookie") ?? "" });
+    }
+  }, async () => {
+    const cookieJar = new CookieJar();
+    const client = new HttpClient({ cookieJar });
+    try {
+      let res = await client.request(`${origin}/login`);
+      assertEquals(await res.text(), "session=abc");
+      res = await client.request(`${origin}/`, {
+        headers: { cookie: "extra=1" },
+      });
+      assertEquals(await res.text(), "extra=1; session=abc");
+      assertEquals(cookieJar.getCookieHeader(origin), "session=abc");
+    } finally {
+      client.close();
+    }
+  });
+});
@@ -0,0 +1,127 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Evaluation of conditional requests as defined in RFC 7232.
+// https://tools.ietf.org/html/rfc7232
+import { Status } from "./http_status.ts";
+
+/** Validators of the selected representation of a resource. */
+export interface Validators {
+  /** The entity-tag, including its quotes and the `W/` prefix if weak. */
+  etag?: string;
+  /** The last modification date. */
+  lastModified?: Date;
+}
+
+/** Parse a list of entity-tags, such as the value of `If-None-Match`. The
+ * wildcard `*` is returned as is. */
+export function parseETagList(value: string): string[] {
+  return value.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+function isWeak(etag: string): boolean {
+  return etag.startsWith("W/");
+}
+
+function opaqueTag(etag: string): string {
+  return isWeak(etag) ? etag.slice(2) : etag;
+}
+
+/** Strong comparison (RFC 7232, section 2.3.2): both entity-tags must be
+ * strong and identical. */
+export function strongCompare(a: string, b: string): boolean {
+  return !isWeak(a) && !isWeak(b) && a === b;
+}
+
+/** Weak comparison (RFC 7232, section 2.3.2): the opaque tags must be
+ * identical, whether or not either of them is weak. */
+export function weakCompare(a: string, b: string): boolean {
+  return opaqueTag(a) === opaqueTag(b);
+}
+
+function matchesAny(
+  list: string,
+  etag: string | undefined,
+  compare: (a: string, b: string) => boolean,
+): boolean {
+  return parseETagList(list).some((tag) =>
+    tag === "*" || (etag !== undefined && compare(tag, etag))
+  );
+}
+
+function parseHTTPDate(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** HTTP dates have a resolution of one second. */
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Evaluate the preconditions of a request against the validators of an
+ * existing resource, in the order given by RFC 7232, section 6. Returns the
+ * status the request must be answered with, `304 Not Modified` or
+ * `412 Precondition Failed`, or `undefined` if the request should be
+ * processed normally.
+ *
+ *     const status = evaluatePreconditions(req, { etag, lastModified });
+ *     if (status !== undefined) {
+ *       return req.respond({ status, headers });
+ *     }
+ */
+export function evaluatePreconditions(
+  req: { method: string; headers: Headers },
+  validators: Validators,
+): Status.NotModified | Status.PreconditionFailed | undefined {
+  const { etag, lastModified } = validators;
+  const isGetOrHead = req.method === "GET" || req.method === "HEAD";
+
+  const ifMatch = req.headers.get("if-match");
+  if (ifMatch !== null) {
+    if (!matchesAny(ifMatch, etag, strongCompare)) {
+      return Status.PreconditionFailed;
+    }
+  } else if (lastModified) {
+    const since = parseHTTPDate(req.headers.get("if-unmodified-since"));
+    if (since !== undefined && toSeconds(lastModified) > since) {
+      return Status.PreconditionFailed;
+    }
+  }
+
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    if (matchesAny(ifNoneMatch, etag, weakCompare)) {
+      return isGetOrHead ? Status.NotModified : Status.PreconditionFailed;
+    }
+  } else if (isGetOrHead && lastModified) {
+    const since = parseHTTPDate(req.headers.get("if-modified-since"));
+    if (since !== undefined && toSeconds(lastModified) <= since) {
+      return Status.NotModified;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns whether the `Range` header of a request should be honored given its
+ * `If-Range` header (RFC 7233, section 3.2). An entity-tag must match with
+ * the strong comparison, and a date must be exactly the last modification
+ * date.
+ */
+export function ifRangeMatches(
+  headers: Headers,
+  validators: Validators,
+): boolean {
+  const ifRange = headers.get("if-range");
+  if (ifRange === null) return true;
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return validators.etag !== undefined &&
+      strongCompare(value, validators.etag);
+  }
+  const date = parseHTTPDate(value);
+  return date !== undefined && validators.lastModified !== undefined &&
+    toSeconds(validators.lastModified) === date;
+}
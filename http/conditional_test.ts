@@ -0,0 +1,115 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals } from "../testing/asserts.ts";
+import {
+  evaluatePreconditions,
+  ifRangeMatches,
+  parseETagList,
+  strongCompare,
+  weakCompare,
+} from "./conditional.ts";
+import { Status } from "./http_status.ts";
+
+const etag = '"abc"';
+const lastModified = new Date("2021-01-01T00:00:00.500Z");
+const before = new Date("2020-12-31T00:00:00Z").toUTCString();
+const after = new Date("2021-01-02T00:00:00Z").toUTCString();
+
+function evaluate(
+  headers: Record<string, string>,
+  method = "GET",
+): Status | undefined {
+  return evaluatePreconditions(
+    { method, headers: new Headers(headers) },
+    { etag, lastModified },
+  );
+}
+
+Deno.test("[http/conditional] parseETagList", function () {
+  assertEquals(parseETagList('"a", W/"b",  "c,d"'), ['"a"', 'W/"b"', '"c,d"']);
+  assertEquals(parseETagList("*"), ["*"]);
+  assertEquals(parseETagList("unquoted"), []);
+});
+
+Deno.test("[http/conditional] compare entity-tags", function () {
+  assertEquals(strongCompare('"a"', '"a"'), true);
+  assertEquals(strongCompare('W/"a"', '"a"'), false);
+  assertEquals(strongCompare('W/"a"', 'W/"a"'), false);
+  assertEquals(weakCompare('W/"a"', '"a"'), true);
+  assertEquals(weakCompare('W/"a"', 'W/"a"'), true);
+  assertEquals(weakCompare('"a"', '"b"'), false);
+});
+
+Deno.test("[http/conditional] if-match", function () {
+  assertEquals(evaluate({ "if-match": etag }), undefined);
+  assertEquals(evaluate({ "if-match": `"x", ${etag}` }), undefined);
+  assertEquals(evaluate({ "if-match": "*" }), undefined);
+  assertEquals(evaluate({ "if-match": '"x"' }), Status.PreconditionFailed);
+  assertEquals(
+    evaluate({ "if-match": `W/${etag}` }),
+    Status.PreconditionFailed,
+  );
+  // "if-unmodified-since" is ignored when "if-match" is present.
+  assertEquals(
+    evaluate({ "if-match": etag, "if-unmodified-since": before }),
+    undefined,
+  );
+});
+
+Deno.test("[http/conditional] if-unmodified-since", function () {
+  assertEquals(evaluate({ "if-unmodified-since": after }), undefined);
+  assertEquals(
+    evaluate({ "if-unmodified-since": lastModified.toUTCString() }),
+    undefined,
+  );
+  assertEquals(
+    evaluate({ "if-unmodified-since": before }),
+    Status.PreconditionFailed,
+  );
+  assertEquals(evaluate({ "if-unmodified-since": "invalid" }), undefined);
+});
+
+Deno.test("[http/conditional] if-none-match", function () {
+  assertEquals(evaluate({ "if-none-match": etag }), Status.NotModified);
+  assertEquals(evaluate({ "if-none-match": `W/${etag}` }), Status.NotModified);
+  assertEquals(evaluate({ "if-none-match": "*" }), Status.NotModified);
+  assertEquals(evaluate({ "if-none-match": '"x", "y"' }), undefined);
+  assertEquals(
+    evaluate({ "if-none-match": etag }, "HEAD"),
+    Status.NotModified,
+  );
+  assertEquals(
+    evaluate({ "if-none-match": etag }, "PUT"),
+    Status.PreconditionFailed,
+  );
+  // "if-modified-since" is ignored when "if-none-match" is present.
+  assertEquals(
+    evaluate({ "if-none-match": '"x"', "if-modified-since": after }),
+    undefined,
+  );
+});
+
+Deno.test("[http/conditional] if-modified-since", function () {
+  assertEquals(evaluate({ "if-modified-since": after }), Status.NotModified);
+  assertEquals(
+    evaluate({ "if-modified-since": lastModified.toUTCString() }),
+    Status.NotModified,
+  );
+  assertEquals(evaluate({ "if-modified-since": before }), undefined);
+  assertEquals(evaluate({ "if-modified-since": after }, "POST"), undefined);
+});
+
+Deno.test("[http/conditional] ifRangeMatches", function () {
+  const validators = { etag, lastModified };
+  const matches = (ifRange?: string) =>
+    ifRangeMatches(
+      new Headers(ifRange === undefined ? {} : { "if-range": ifRange }),
+      validators,
+    );
+  assertEquals(matches(), true);
+  assertEquals(matches(etag), true);
+  assertEquals(matches(`W/${etag}`), false);
+  assertEquals(matches('"x"'), false);
+  assertEquals(matches(lastModified.toUTCString()), true);
+  assertEquals(matches(after), false);
+  assertEquals(matches("invalid"), false);
+});
@@ -3,6 +3,9 @@
 // https://github.com/golang/go/blob/master/src/net/http/cookie.go
 import { assert } from "../_util/assert.ts";
 import { toIMF } from "../datetime/mod.ts";
+import { HmacSha256, Message } from "../hash/sha256.ts";
+import * as base64url from "../encoding/base64url.ts";
+import { timingSafeEqual } from "../bytes/mod.ts";
 
 export interface Cookie {
   /** Name of the cookie. */
@@ -180,6 +183,95 @@ export function getCookies(req: { headers: Headers }): Record<string, string> {
   return {};
 }
 
+/**
+ * Parse the value of a `Set-Cookie` header, as specified by RFC 6265, section
+ * 5.2. Returns `undefined` if the header has no cookie name.
+ *
+ *     parseSetCookie("id=a3fWa; Max-Age=2592000; HttpOnly");
+ *     // { name: "id", value: "a3fWa", maxAge: 2592000, httpOnly: true }
+ */
+export function parseSetCookie(value: string): Cookie | undefined {
+  const [pair, ...attributes] = value.split(";");
+  const index = pair.indexOf("=");
+  if (index === -1) {
+    return undefined;
+  }
+  const name = pair.slice(0, index).trim();
+  if (name === "") {
+    return undefined;
+  }
+  const cookie: Cookie = { name, value: pair.slice(index + 1).trim() };
+  for (const attribute of attributes) {
+    const separator = attribute.indexOf("=");
+    const key = (separator === -1 ? attribute : attribute.slice(0, separator))
+      .trim();
+    const val = separator === -1 ? "" : attribute.slice(separator + 1).trim();
+    switch (key.toLowerCase()) {
+      case "expires": {
+        const date = new Date(val);
+        if (!Number.isNaN(date.getTime())) {
+          cookie.expires = date;
+        }
+        break;
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(val)) {
+          // A zero or negative Max-Age expires the cookie immediately.
+          cookie.maxAge = Math.max(0, parseInt(val));
+        }
+        break;
+      case "domain":
+        if (val !== "") {
+          cookie.domain = val.replace(/^\./, "").toLowerCase();
+        }
+        break;
+      case "path":
+        if (val.startsWith("/")) {
+          cookie.path = val;
+        }
+        break;
+      case "secure":
+        cookie.secure = true;
+        break;
+      case "httponly":
+        cookie.httpOnly = true;
+        break;
+      case "samesite": {
+        const sameSite = ({
+          strict: "Strict",
+          lax: "Lax",
+          none: "None",
+        } as const)[val.toLowerCase()];
+        if (sameSite !== undefined) {
+          cookie.sameSite = sameSite;
+        }
+        break;
+      }
+      default:
+        if (key !== "") {
+          cookie.unparsed = [...(cookie.unparsed ?? []), attribute.trim()];
+        }
+    }
+  }
+  return cookie;
+}
+
+/**
+ * Parse the `Set-Cookie` headers of a response, such as the response of an
+ * `HttpClient`.
+ * @param res An object which has a `headers` property
+ */
+export function getSetCookies(res: { headers: Headers }): Cookie[] {
+  const value = res.headers.get("set-cookie");
+  if (value === null) {
+    return [];
+  }
+  // Several headers are combined with commas, which also appear in dates.
+  return value.split(/,(?=\s*[^;,=\s]+=)/)
+    .map(parseSetCookie)
+    .filter((cookie): cookie is Cookie => cookie !== undefined);
+}
+
 /**
  * Set the cookie header properly in the Response
  * @param res An object which has a headers property
@@ -227,3 +319,93 @@ export function deleteCookie(
     ...attributes,
   });
 }
+
+function hmac(key: Message, ...parts: Array<string | Uint8Array>): Uint8Array {
+  const h = new HmacSha256(key);
+  for (const part of parts) {
+    h.update(typeof part === "string" ? part : part.slice().buffer);
+  }
+  return new Uint8Array(h.arrayBuffer());
+}
+
+function decodeBase64url(value: string): Uint8Array | undefined {
+  try {
+    return base64url.decode(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The secret keys used to sign cookies with HMAC-SHA256. The first key signs
+ * new values, and every key is tried to verify them. Keys are rotated by
+ * adding a new key at the start of the list and removing the oldest one once
+ * the cookies it protects have expired.
+ *
+ *     const keys = new CookieKeys([Deno.env.get("COOKIE_KEY")!, oldKey]);
+ */
+export class CookieKeys {
+  #keys: Message[];
+
+  constructor(keys: Message[]) {
+    if (keys.length === 0) {
+      throw new TypeError("At least one key is required.");
+    }
+    this.#keys = [...keys];
+  }
+
+  /** Sign `data` with the first key, returning a base64url signature. */
+  sign(data: string): string {
+    return base64url.encode(hmac(this.#keys[0], data));
+  }
+
+  /** Returns the index of the key which signed `data`, or `-1` if the
+   * signature is invalid. */
+  indexOf(data: string, signature: string): number {
+    const bytes = decodeBase64url(signature);
+    if (bytes === undefined) {
+      return -1;
+    }
+    return this.#keys.findIndex((key) =>
+      timingSafeEqual(hmac(key, data), bytes)
+    );
+  }
+
+  /** Returns whether `signature` was created by one of the keys. */
+  verify(data: string, signature: string): boolean {
+    return this.indexOf(data, signature) !== -1;
+  }
+}
+
+/**
+ * Set a cookie whose value is followed by its signature, so that it can be
+ * read but not modified by the client.
+ *
+ *     setSignedCookie(res, { name: "user", value: "42" }, keys);
+ */
+export function setSignedCookie(
+  res: { headers?: Headers },
+  cookie: Cookie,
+  keys: CookieKeys,
+): void {
+  const signature = keys.sign(`${cookie.name}=${cookie.value}`);
+  setCookie(res, { ...cookie, value: `${cookie.value}.${signature}` });
+}
+
+/** Returns the value of a cookie set with `setSignedCookie()`, or `undefined`
+ * if the cookie is missing or its signature is invalid. */
+export function getSignedCookie(
+  req: { headers: Headers },
+  name: string,
+  keys: CookieKeys,
+): string | undefined {
+  const signed = getCookies(req)[name];
+  const index = signed?.lastIndexOf(".") ?? -1;
+  if (index === -1) {
+    return undefined;
+  }
+  const value = signed.slice(0, index);
+  return keys.verify(`${name}=${value}`, signed.slice(index + 1))
+    ? value
+    : undefined;
+}
@@ -0,0 +1,186 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Cookie, getSetCookies } from "./cookie.ts";
+
+interface StoredCookie {
+  cookie: Cookie;
+  domain: string;
+  path: string;
+  hostOnly: boolean;
+  /** Expiry time in milliseconds, if the cookie is persistent. */
+  expiresAt?: number;
+  createdAt: number;
+}
+
+function isIPAddress(host: string): boolean {
+  return /^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith("[");
+}
+
+/** Domain matching, as specified by RFC 6265, section 5.1.3. */
+function domainMatch(host: string, domain: string): boolean {
+  return host === domain ||
+    (host.endsWith(`.${domain}`) && !isIPAddress(host));
+}
+
+/** Path matching, as specified by RFC 6265, section 5.1.4. */
+function pathMatch(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) &&
+      (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/"));
+}
+
+/** The default path of a cookie, as specified by RFC 6265, section 5.1.4. */
+function defaultPath(url: URL): string {
+  const index = url.pathname.lastIndexOf("/");
+  return index <= 0 ? "/" : url.pathname.slice(0, index);
+}
+
+/**
+ * Stores the cookies set by servers and returns those to send with a
+ * request, following the domain, path, expiry and `Secure` rules of RFC 6265.
+ * The `SameSite` attribute is ignored, and the domains of the public suffix
+ * list are not rejected.
+ *
+ *     import { HttpClient } from "https://deno.land/std/http/client.ts";
+ *     import { CookieJar } from "https://deno.land/std/http/cookie_jar.ts";
+ *     const cookieJar = new CookieJar();
+ *     const client = new HttpClient({ cookieJar });
+ *     await client.request("https://example.com/login", { method: "POST" });
+ *     console.log(cookieJar.getCookies("https://example.com/"));
+ */
+export class CookieJar {
+  #cookies = new Map<string, StoredCookie>();
+
+  /** Store the cookies of the `Set-Cookie` headers of a response to a
+   * request to `url`. */
+  setCookies(url: string | URL, headers: Headers): void {
+    for (const cookie of getSetCookies({ headers })) {
+      this.setCookie(url, cookie);
+    }
+  }
+
+  /** Store a cookie set by a response to a request to `url`. Returns `false`
+   * if the cookie was rejected. A cookie which has expired removes the stored
+   * cookie with the same name, domain and path. */
+  setCookie(url: string | URL, cookie: Cookie): boolean {
+    const requestURL = new URL(String(url));
+    const host = requestURL.hostname;
+    const secureOrigin = requestURL.protocol === "https:";
+    let domain = host;
+    let hostOnly = true;
+    if (cookie.domain) {
+      const cookieDomain = cookie.domain.replace(/^\./, "").toLowerCase();
+      if (!domainMatch(host, cookieDomain)) {
+        return false;
+      }
+      domain = cookieDomain;
+      hostOnly = false;
+    }
+    const path = cookie.path?.startsWith("/")
+      ? cookie.path
+      : defaultPath(requestURL);
+    if (cookie.secure && !secureOrigin) {
+      return false;
+    }
+    if (
+      (cookie.name.startsWith("__Secure-") && !cookie.secure) ||
+      (cookie.name.startsWith("__Host-") &&
+        (!cookie.secure || !hostOnly || path !== "/"))
+    ) {
+      return false;
+    }
+
+    const now = Date.now();
+    let expiresAt: number | undefined;
+    if (cookie.maxAge !== undefined) {
+      expiresAt = now + cookie.maxAge * 1000;
+    } else if (cookie.expires !== undefined) {
+      expiresAt = cookie.expires.getTime();
+    }
+    const key = `${domain};${path};${cookie.name}`;
+    const existing = this.#cookies.get(key);
+    if (expiresAt !== undefined && expiresAt <= now) {
+      this.#cookies.delete(key);
+      return true;
+    }
+    const stored: Cookie = {
+      name: cookie.name,
+      value: cookie.value,
+      domain,
+      path,
+    };
+    if (expiresAt !== undefined) {
+      stored.expires = new Date(expiresAt);
+    }
+    if (cookie.secure) {
+      stored.secure = true;
+    }
+    if (cookie.httpOnly) {
+      stored.httpOnly = true;
+    }
+    if (cookie.sameSite) {
+      stored.sameSite = cookie.sameSite;
+    }
+    this.#cookies.set(key, {
+      cookie: stored,
+      domain,
+      path,
+      hostOnly,
+      expiresAt,
+      createdAt: existing?.createdAt ?? now,
+    });
+    return true;
+  }
+
+  /** Returns the cookies to send with a request to `url`, the cookies with
+   * the longest paths first. */
+  getCookies(url: string | URL): Cookie[] {
+    const requestURL = new URL(String(url));
+    const host = requestURL.hostname;
+    const now = Date.now();
+    const matches: StoredCookie[] = [];
+    for (const [key, stored] of this.#cookies) {
+      if (stored.expiresAt !== undefined && stored.expiresAt <= now) {
+        this.#cookies.delete(key);
+        continue;
+      }
+      const hostMatch = stored.hostOnly
+        ? host === stored.domain
+        : domainMatch(host, stored.domain);
+      if (
+        hostMatch && pathMatch(requestURL.pathname, stored.path) &&
+        (!stored.cookie.secure || requestURL.protocol === "https:")
+      ) {
+        matches.push(stored);
+      }
+    }
+    return matches
+      .sort((a, b) =>
+        b.path.length - a.path.length || a.createdAt - b.createdAt
+      )
+      .map(({ cookie }) => ({ ...cookie }));
+  }
+
+  /** Returns the value of the `Cookie` header of a request to `url`, or
+   * `null` if there is no cookie to send. */
+  getCookieHeader(url: string | URL): string | null {
+    const cookies = this.getCookies(url);
+    if (cookies.length === 0) {
+      return null;
+    }
+    return cookies.map(({ name, value }) => `${name}=${value}`).join("; ");
+  }
+
+  /** Remove every cookie, or only the session cookies, which have no
+   * expiry date. */
+  clear(options: { sessionOnly?: boolean } = {}): void {
+    if (!options.sessionOnly) {
+      this.#cookies.clear();
+      return;
+    }
+    for (const [key, stored] of this.#cookies) {
+      if (stored.expiresAt === undefined) {
+        this.#cookies.delete(key);
+      }
+    }
+  }
+}
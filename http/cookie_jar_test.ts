@@ -0,0 +1,141 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals } from "../testing/asserts.ts";
+import { CookieJar } from "./cookie_jar.ts";
+
+Deno.test("[http/cookie_jar] domain matching", function () {
+  const jar = new CookieJar();
+  assert(
+    jar.setCookie("http://www.example.com/", { name: "host", value: "1" }),
+  );
+  assert(
+    jar.setCookie("http://www.example.com/", {
+      name: "domain",
+      value: "2",
+      domain: ".Example.com",
+    }),
+  );
+  assert(
+    !jar.setCookie("http://www.example.com/", {
+      name: "other",
+      value: "3",
+      domain: "example.org",
+    }),
+  );
+  assert(
+    !jar.setCookie("http://www.example.com/", {
+      name: "sub",
+      value: "4",
+      domain: "api.example.com",
+    }),
+  );
+  assertEquals(
+    jar.getCookieHeader("http://www.example.com/"),
+    "host=1; domain=2",
+  );
+  assertEquals(jar.getCookieHeader("http://api.example.com/"), "domain=2");
+  assertEquals(jar.getCookieHeader("http://example.com/"), "domain=2");
+  assertEquals(jar.getCookieHeader("http://notexample.com/"), null);
+});
+
+Deno.test("[http/cookie_jar] path matching", function () {
+  const jar = new CookieJar();
+  jar.setCookie("http://example.com/docs/page", {
+    name: "default",
+    value: "1",
+  });
+  jar.setCookie("http://example.com/", {
+    name: "nested",
+    value: "2",
+    path: "/docs/api",
+  });
+  jar.setCookie("http://example.com/", { name: "root", value: "3", path: "/" });
+  assertEquals(
+    jar.getCookieHeader("http://example.com/docs/api/x"),
+    "nested=2; default=1; root=3",
+  );
+  assertEquals(
+    jar.getCookieHeader("http://example.com/docs"),
+    "default=1; root=3",
+  );
+  assertEquals(jar.getCookieHeader("http://example.com/docsx"), "root=3");
+});
+
+Deno.test("[http/cookie_jar] expiry and replacement", function () {
+  const jar = new CookieJar();
+  jar.setCookie("http://example.com/", { name: "a", value: "1", maxAge: 60 });
+  jar.setCookie("http://example.com/", {
+    name: "b",
+    value: "2",
+    expires: new Date(Date.now() - 1000),
+  });
+  jar.setCookie("http://example.com/", { name: "c", value: "3" });
+  const [a] = jar.getCookies("http://example.com/");
+  assertEquals(a.name, "a");
+  assert(a.expires!.getTime() > Date.now());
+  assertEquals(jar.getCookieHeader("http://example.com/"), "a=1; c=3");
+
+  jar.setCookie("http://example.com/", { name: "a", value: "updated" });
+  jar.setCookie("http://example.com/", { name: "c", value: "", maxAge: 0 });
+  assertEquals(jar.getCookieHeader("http://example.com/"), "a=updated");
+
+  jar.setCookie("http://example.com/", { name: "d", value: "4", maxAge: 60 });
+  jar.clear({ sessionOnly: true });
+  assertEquals(jar.getCookieHeader("http://example.com/"), "d=4");
+  jar.clear();
+  assertEquals(jar.getCookieHeader("http://example.com/"), null);
+});
+
+Deno.test("[http/cookie_jar] secure cookies and prefixes", function () {
+  const jar = new CookieJar();
+  assert(
+    !jar.setCookie("http://example.com/", {
+      name: "s",
+      value: "1",
+      secure: true,
+    }),
+  );
+  assert(
+    jar.setCookie("https://example.com/", {
+      name: "s",
+      value: "1",
+      secure: true,
+    }),
+  );
+  assert(
+    !jar.setCookie("https://example.com/", {
+      name: "__Host-id",
+      value: "1",
+      secure: true,
+      domain: "example.com",
+    }),
+  );
+  assert(
+    jar.setCookie("https://example.com/a/b", {
+      name: "__Host-id",
+      value: "2",
+      secure: true,
+      path: "/",
+    }),
+  );
+  assert(
+    !jar.setCookie("https://example.com/", { name: "__Secure-x", value: "3" }),
+  );
+  assertEquals(jar.getCookieHeader("http://example.com/"), null);
+  assertEquals(jar.getCookieHeader("https://example.com/"), "s=1; __Host-id=2");
+});
+
+Deno.test("[http/cookie_jar] Set-Cookie headers", function () {
+  const jar = new CookieJar();
+  const headers = new Headers();
+  headers.append("set-cookie", "a=1; Path=/; HttpOnly");
+  headers.append("set-cookie", "b=2; Domain=example.com; Max-Age=10");
+  jar.setCookies("http://www.example.com/login", headers);
+  assertEquals(jar.getCookies("http://www.example.com/")[0], {
+    name: "a",
+    value: "1",
+    domain: "www.example.com",
+    path: "/",
+    httpOnly: true,
+  });
+  assertEquals(jar.getCookieHeader("http://example.com/"), "b=2");
+});
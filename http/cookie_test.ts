@@ -1,6 +1,15 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 import { Response, ServerRequest } from "./server.ts";
-import { deleteCookie, getCookies, setCookie } from "./cookie.ts";
+import {
+  CookieKeys,
+  deleteCookie,
+  getCookies,
+  getSetCookies,
+  getSignedCookie,
+  parseSetCookie,
+  setCookie,
+  setSignedCookie,
+} from "./cookie.ts";
 import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
 
 Deno.test({
@@ -364,3 +373,74 @@ Deno.test({
     assertEquals(res.headers.get("Set-Cookie"), null);
   },
 });
+
+Deno.test({
+  name: "Set-Cookie parser",
+  fn(): void {
+    assertEquals(
+      parseSetCookie(
+        "id=a3fWa; Expires=Wed, 21 Oct 2015 07:28:00 GMT; Max-Age=-1; " +
+          "Domain=.Deno.land; Path=/docs; Secure; HttpOnly; SameSite=lax; " +
+          "Priority=High",
+      ),
+      {
+        name: "id",
+        value: "a3fWa",
+        expires: new Date("2015-10-21T07:28:00Z"),
+        maxAge: 0,
+        domain: "deno.land",
+        path: "/docs",
+        secure: true,
+        httpOnly: true,
+        sameSite: "Lax",
+        unparsed: ["Priority=High"],
+      },
+    );
+    assertEquals(parseSetCookie(" a = b=c ; Path=relative"), {
+      name: "a",
+      value: "b=c",
+    });
+    assertEquals(parseSetCookie("noequal"), undefined);
+    assertEquals(parseSetCookie("=value"), undefined);
+
+    const headers = new Headers();
+    headers.append("set-cookie", "a=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT");
+    headers.append("set-cookie", "b=2");
+    assertEquals(
+      getSetCookies({ headers }).map(({ name, value }) => `${name}=${value}`),
+      ["a=1", "b=2"],
+    );
+  },
+});
+
+Deno.test({
+  name: "Signed cookies",
+  fn(): void {
+    const res: Response = {};
+    setSignedCookie(
+      res,
+      { name: "user", value: "42" },
+      new CookieKeys(["old"]),
+    );
+    const value = res.headers!.get("set-cookie")!;
+    assert(value.startsWith("user=42."));
+
+    const req = new ServerRequest();
+    req.headers = new Headers({ cookie: value });
+    const keys = new CookieKeys(["new", "old"]);
+    assertEquals(getSignedCookie(req, "user", keys), "42");
+    const [, signature] = value.split(".");
+    assertEquals(keys.indexOf("user=42", signature), 1);
+    assertEquals(
+      getSignedCookie(req, "user", new CookieKeys(["new"])),
+      undefined,
+    );
+
+    req.headers = new Headers({ cookie: value.replace("42", "43") });
+    assertEquals(getSignedCookie(req, "user", keys), undefined);
+    req.headers = new Headers({ cookie: "user=42" });
+    assertEquals(getSignedCookie(req, "user", keys), undefined);
+    assertEquals(getSignedCookie(req, "missing", keys), undefined);
+    assertThrows(() => new CookieKeys([]), TypeError);
+  },
+});
@@ -0,0 +1,10 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Status, STATUS_TEXT } from "./http_status.ts";
+
+/** An error which carries the HTTP status of the response to send. */
+export class HttpError extends Error {
+  constructor(public status: Status, message?: string) {
+    super(message ?? STATUS_TEXT.get(status) ?? `${status}`);
+    this.name = "HttpError";
+  }
+}
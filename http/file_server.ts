@@ -2,11 +2,10 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 
 // This program serves files in the current directory over HTTP.
-// TODO(bartlomieju): Stream responses instead of reading them into memory.
 // TODO(bartlomieju): Add tests like these:
 // https://github.com/indexzero/http-server/blob/master/test/http-server-test.js
 
-import { extname, posix } from "../path/mod.ts";
+import { extname, globToRegExp, posix } from "../path/mod.ts";
 import {
   HTTPSOptions,
   listenAndServe,
@@ -16,7 +15,16 @@ import {
 } from "./server.ts";
 import { parse } from "../flags/mod.ts";
 import { assert } from "../_util/assert.ts";
-import { readRange } from "../io/util.ts";
+import { ByteRange, iter } from "../io/util.ts";
+import { LimitedReader, MultiReader, StringReader } from "../io/readers.ts";
+import {
+  readableStreamFromReader,
+  readerFromStreamReader,
+} from "../io/streams.ts";
+import { createHash, SupportedAlgorithm } from "../hash/mod.ts";
+import { evaluatePreconditions, ifRangeMatches } from "./conditional.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+import { negotiateEncoding, negotiateMediaType } from "./negotiation.ts";
 
 interface EntryInfo {
   mode: string;
@@ -34,6 +42,8 @@ export interface FileServerArgs {
   cors?: boolean;
   // --no-dir-listing
   "dir-listing"?: boolean;
+  // --compress
+  compress?: boolean;
   dotfiles?: boolean;
   // --host
   host?: string;
@@ -50,9 +60,6 @@ export interface FileServerArgs {
 
 const encoder = new TextEncoder();
 
-const serverArgs = parse(Deno.args) as FileServerArgs;
-const target = posix.resolve(serverArgs._[0] ?? "");
-
 const MEDIA_TYPES: Record<string, string> = {
   ".md": "text/markdown",
   ".html": "text/html",
@@ -199,6 +206,43 @@ async function createEtagHash(message: string) {
   return hashHex;
 }
 
+interface ContentEtag {
+  mtime: number;
+  size: number;
+  etag: string;
+}
+
+/** Strong etags of served files, keyed by algorithm and path. An entry is
+ * reused as long as the modification time and the size of the file do not
+ * change. */
+const contentEtags = new Map<string, ContentEtag>();
+
+/** Returns a strong etag computed by hashing the content of a file. */
+async function createContentEtag(
+  filePath: string,
+  fileInfo: Deno.FileInfo,
+  algorithm: SupportedAlgorithm,
+): Promise<string> {
+  const key = `${algorithm}:${filePath}`;
+  const mtime = fileInfo.mtime?.getTime() ?? NaN;
+  const cached = contentEtags.get(key);
+  if (cached && cached.mtime === mtime && cached.size === fileInfo.size) {
+    return cached.etag;
+  }
+  const hash = createHash(algorithm);
+  const file = await Deno.open(filePath);
+  try {
+    for await (const chunk of iter(file)) {
+      hash.update(chunk);
+    }
+  } finally {
+    file.close();
+  }
+  const etag = `"${hash.toString()}"`;
+  contentEtags.set(key, { mtime, size: fileInfo.size, etag });
+  return etag;
+}
+
 function modeToString(isDir: boolean, maybeMode: number | null): string {
   const modeMap = ["---", "--x", "-w-", "-wx", "r--", "r-x", "rw-", "rwx"];
 
@@ -238,24 +282,166 @@ function fileLenToString(len: number): string {
   return `${(len / base).toFixed(2)}${suffix[suffixIndex]}`;
 }
 
+/** More ranges than this in a single `Range` header are ignored. */
+const MAX_RANGES = 32;
+
+/**
+ * Parse the value of a `Range` header as defined in RFC 7233, section 2.1.
+ * Unsatisfiable ranges are dropped and the end of every range is clamped to
+ * the size of the file, so that the result is empty if none of the ranges is
+ * satisfiable. Returns `null` if the header is malformed.
+ */
+function parseRangeHeader(value: string, size: number): ByteRange[] | null {
+  const match = /^bytes=(.+)$/.exec(value.trim());
+  if (!match) return null;
+  const ranges: ByteRange[] = [];
+  for (const spec of match[1].split(",")) {
+    const parsed = /^(\d*)-(\d*)$/.exec(spec.trim());
+    if (!parsed || (parsed[1] === "" && parsed[2] === "")) return null;
+    let start: number;
+    let end: number;
+    if (parsed[1] === "") {
+      // Suffix range: the last `n` bytes.
+      const suffix = Number(parsed[2]);
+      if (suffix === 0) continue;
+      start = Math.max(0, size - suffix);
+      end = size - 1;
+    } else {
+      start = Number(parsed[1]);
+      end = parsed[2] === "" ? Infinity : Number(parsed[2]);
+      if (start > end) return null;
+      end = Math.min(end, size - 1);
+    }
+    if (start >= size) continue;
+    ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+/** Returns a reader of the bytes of `range` in `file`. */
+function rangeReader(file: Deno.File, range: ByteRange): Deno.Reader {
+  const limited = new LimitedReader(file, range.end - range.start + 1);
+  let seeked = false;
+  return {
+    async read(p: Uint8Array): Promise<number | null> {
+      if (!seeked) {
+        await file.seek(range.start, Deno.SeekMode.Start);
+        seeked = true;
+      }
+      return limited.read(p);
+    },
+  };
+}
+
+/** Returns the body of a `multipart/byteranges` response and its length. */
+function multipartByteRanges(
+  file: Deno.File,
+  ranges: ByteRange[],
+  size: number,
+  boundary: string,
+  type: string | undefined,
+): { body: Deno.Reader; length: number } {
+  const readers: Deno.Reader[] = [];
+  let length = 0;
+  ranges.forEach((range, i) => {
+    let head = `${i === 0 ? "" : "\r\n"}--${boundary}\r\n`;
+    if (type) {
+      head += `content-type: ${type}\r\n`;
+    }
+    head += `content-range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`;
+    readers.push(new StringReader(head), rangeReader(file, range));
+    length += encoder.encode(head).byteLength + range.end - range.start + 1;
+  });
+  const tail = `\r\n--${boundary}--\r\n`;
+  readers.push(new StringReader(tail));
+  length += encoder.encode(tail).byteLength;
+  return { body: new MultiReader(...readers), length };
+}
+
+/** Precompressed siblings of a file, in order of preference. */
+const PRECOMPRESSED_EXTENSIONS: [encoding: string, extension: string][] = [
+  ["br", ".br"],
+  ["gzip", ".gz"],
+];
+
+/** Files smaller than this are not worth compressing on the fly. */
+const MIN_COMPRESS_SIZE = 1024;
+
+const COMPRESSIBLE_TYPE =
+  /^(text\/|image\/svg\+xml|application\/(json|javascript|ecmascript|xml|rss\+xml|manifest\+json|wasm))/;
+
+/** Returns the precompressed siblings of a file, such as `index.html.gz`. */
+async function findPrecompressed(
+  filePath: string,
+): Promise<{ encoding: string; path: string; info: Deno.FileInfo }[]> {
+  const found = [];
+  for (const [encoding, extension] of PRECOMPRESSED_EXTENSIONS) {
+    const path = `${filePath}${extension}`;
+    try {
+      const info = await Deno.stat(path);
+      if (info.isFile) {
+        found.push({ encoding, path, info });
+      }
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) {
+        throw e;
+      }
+    }
+  }
+  return found;
+}
+
+/** Whether the runtime can compress on the fly. `CompressionStream` is not
+ * available before Deno 1.14. */
+function canCompress(): boolean {
+  return "CompressionStream" in globalThis;
+}
+
+/** Returns a reader of the gzip-compressed content of `file`. */
+function gzipReader(file: Deno.File): Deno.Reader {
+  const stream = readableStreamFromReader(file, { autoClose: false })
+    .pipeThrough(new CompressionStream("gzip"));
+  return readerFromStreamReader(stream.getReader());
+}
+
+export interface ServeFileOptions {
+  /** The hash algorithm used to compute a strong etag from the content of
+   * the file. By default, a weak etag is derived from the modification time
+   * and the size of the file, which avoids reading the whole file. */
+  etagAlgorithm?: SupportedAlgorithm;
+  /** Serve the `.br` or `.gz` sibling of the file, if there is one and the
+   * client accepts its encoding. Defaults to `false`. */
+  precompressed?: boolean;
+  /** Compress text responses with gzip on the fly if the client accepts it
+   * and no precompressed sibling is served. Range requests are always
+   * answered from the uncompressed file. Ignored if the runtime has no
+   * `CompressionStream`. Defaults to `false`. */
+  compress?: boolean;
+}
+
 /**
- * Returns an HTTP Response with the requested file as the body
+ * Returns an HTTP Response with the requested file as the body. The file is
+ * streamed, and `Range` requests are answered with the selected byte range,
+ * or with a `multipart/byteranges` body if several ranges are requested.
+ * The preconditions of the request (`If-Match`, `If-None-Match`,
+ * `If-Modified-Since` and `If-Unmodified-Since`) are evaluated as specified
+ * by RFC 7232, which may result in a `304 Not Modified` or a
+ * `412 Precondition Failed` response.
  * @param req The server request context used to cleanup the file handle
  * @param filePath Path of the file to serve
+ * @param options Options of the response, such as the kind of etag
  */
 export async function serveFile(
   req: ServerRequest,
   filePath: string,
+  options: ServeFileOptions = {},
 ): Promise<Response> {
-  const [file, fileInfo] = await Promise.all([
-    Deno.open(filePath),
-    Deno.stat(filePath),
-  ]);
+  let fileInfo = await Deno.stat(filePath);
 
   const headers = setBaseHeaders();
 
   // Base response
-  const response = {
+  const response: Response = {
     status: 200,
     statusText: "OK",
     body: new Uint8Array(),
@@ -268,6 +454,45 @@ export async function serveFile(
     headers.set("content-type", contentTypeValue);
   }
 
+  // Select the encoding of the response using the "accept-encoding" header.
+  // The response varies with this header as soon as an encoded
+  // representation of the file is available.
+  const acceptEncoding = req.headers.get("accept-encoding");
+  let varies = false;
+  let contentEncoding: string | undefined;
+  let compress = false;
+  if (options.precompressed) {
+    const siblings = await findPrecompressed(filePath);
+    varies = siblings.length > 0;
+    contentEncoding = negotiateEncoding(
+      acceptEncoding,
+      siblings.map((sibling) => sibling.encoding),
+    );
+    const sibling = siblings.find((s) => s.encoding === contentEncoding);
+    if (sibling) {
+      filePath = sibling.path;
+      fileInfo = sibling.info;
+    }
+  }
+  if (
+    !contentEncoding && options.compress && canCompress() &&
+    contentTypeValue &&
+    COMPRESSIBLE_TYPE.test(contentTypeValue) &&
+    fileInfo.size >= MIN_COMPRESS_SIZE
+  ) {
+    varies = true;
+    if (!req.headers.has("range")) {
+      contentEncoding = negotiateEncoding(acceptEncoding, ["gzip"]);
+      compress = contentEncoding !== undefined;
+    }
+  }
+  if (varies) {
+    headers.set("vary", "accept-encoding");
+  }
+  if (contentEncoding) {
+    headers.set("content-encoding", contentEncoding);
+  }
+
   // Set date header if access timestamp is available
   if (fileInfo.atime instanceof Date) {
     const date = new Date(fileInfo.atime);
@@ -275,82 +500,113 @@ export async function serveFile(
   }
 
   // Set last modified header if access timestamp is available
+  let lastModified: Date | undefined;
   if (fileInfo.mtime instanceof Date) {
-    const lastModified = new Date(fileInfo.mtime);
+    lastModified = new Date(fileInfo.mtime);
     headers.set("last-modified", lastModified.toUTCString());
+  }
 
-    // Create a simple etag that is an md5 of the last modified date and filesize concatenated
-    const simpleEtag = await createEtagHash(
+  let etag: string | undefined;
+  if (options.etagAlgorithm) {
+    etag = await createContentEtag(filePath, fileInfo, options.etagAlgorithm);
+  } else if (lastModified) {
+    // Create a weak etag that is a SHA-1 of the last modified date and
+    // filesize concatenated
+    etag = `W/"${await createEtagHash(
       `${lastModified.toJSON()}${fileInfo.size}`,
-    );
-    headers.set("etag", simpleEtag);
-
-    // If a `if-node-match` header is present and the value matches the tag return 304
-    const ifNoneMatch = req.headers.get("if-none-match");
-    if (ifNoneMatch && ifNoneMatch === simpleEtag) {
-      response.status = 304;
-      response.statusText = "Not Modified";
-      return response;
-    }
+    )}"`;
   }
-
-  // Get and parse the "range" header
-  const range = req.headers.get("range") as string;
-  const rangeRe = /bytes=(\d+)-(\d+)?/;
-  const parsed = rangeRe.exec(range);
-
-  // Use the parsed value if available, fallback to the start and end of the entire file
-  const start = parsed && parsed[1] ? +parsed[1] : 0;
-  const end = parsed && parsed[2] ? +parsed[2] : Math.max(0, fileInfo.size - 1);
-
-  // If there is a range, set the status to 206, and set the "Content-range" header.
-  if (range && parsed) {
-    response.status = 206;
-    response.statusText = "Partial Content";
-    headers.set("content-range", `bytes ${start}-${end}/${fileInfo.size}`);
+  if (etag && compress) {
+    // The output of the compression is not guaranteed to be byte-for-byte
+    // identical between runs, so the etag of the representation is weak.
+    etag = `W/"${etag.replace(/^(W\/)?"|"$/g, "")}-gzip"`;
+  }
+  if (etag) {
+    headers.set("etag", etag);
   }
 
-  // Return 416 if `start` isn't less than or equal to `end`, or `start` or `end` are greater than the file's size
-  const maxRange =
-    (typeof fileInfo.size === "number" ? Math.max(0, fileInfo.size - 1) : 0);
-
-  if (
-    range && !parsed ||
-    (typeof start !== "number" || start > end || start > maxRange ||
-      end > maxRange)
-  ) {
-    response.status = 416;
-    response.statusText = "Range Not Satisfiable";
-    response.body = encoder.encode("Range Not Satisfiable");
+  // Return 304 or 412 if a precondition of the request is not met
+  const preconditionStatus = evaluatePreconditions(req, {
+    etag,
+    lastModified,
+  });
+  if (preconditionStatus !== undefined) {
+    response.status = preconditionStatus;
+    response.statusText = STATUS_TEXT.get(preconditionStatus);
+    if (preconditionStatus === Status.PreconditionFailed) {
+      response.body = encoder.encode(response.statusText);
+    }
     return response;
   }
 
-  try {
-    // Read the selected range of the file
-    const bytes = await readRange(file, { start, end });
-
-    // Set content length and response body
-    headers.set("content-length", bytes.length.toString());
-    response.body = bytes;
-  } catch (e) {
-    // Fallback on URIError (400 Bad Request) if unable to read range
-    throw URIError(e);
+  // Get and parse the "range" header. It is ignored if the representation
+  // has changed since the client obtained the validator sent in "if-range".
+  let range = req.headers.get("range");
+  if (range && !ifRangeMatches(req.headers, { etag, lastModified })) {
+    range = null;
+  }
+  let ranges: ByteRange[] | null = null;
+  if (range) {
+    // A malformed header is ignored, as required by RFC 7233, section 3.1
+    ranges = parseRangeHeader(range, fileInfo.size);
+    // Return 416 if no range is satisfiable
+    if (ranges?.length === 0) {
+      response.status = 416;
+      response.statusText = "Range Not Satisfiable";
+      headers.set("content-range", `bytes */${fileInfo.size}`);
+      response.body = encoder.encode("Range Not Satisfiable");
+      return response;
+    }
+    if (ranges && ranges.length > MAX_RANGES) {
+      ranges = null;
+    }
   }
 
+  const file = await Deno.open(filePath);
   req.done.then(() => {
     file.close();
   });
 
+  if (compress) {
+    // The length of the compressed body is unknown, so it is sent chunked.
+    response.body = gzipReader(file);
+  } else if (ranges === null) {
+    headers.set("content-length", fileInfo.size.toString());
+    response.body = file;
+  } else if (ranges.length === 1) {
+    // If there is a single range, set the status to 206, and set the "Content-range" header.
+    const [{ start, end }] = ranges;
+    response.status = 206;
+    response.statusText = "Partial Content";
+    headers.set("content-range", `bytes ${start}-${end}/${fileInfo.size}`);
+    headers.set("content-length", `${end - start + 1}`);
+    response.body = rangeReader(file, ranges[0]);
+  } else {
+    const boundary = crypto.randomUUID().replaceAll("-", "");
+    const { body, length } = multipartByteRanges(
+      file,
+      ranges,
+      fileInfo.size,
+      boundary,
+      contentTypeValue,
+    );
+    response.status = 206;
+    response.statusText = "Partial Content";
+    headers.set("content-type", `multipart/byteranges; boundary=${boundary}`);
+    headers.set("content-length", `${length}`);
+    response.body = body;
+  }
+
   return response;
 }
 
 // TODO(bartlomieju): simplify this after deno.stat and deno.readDir are fixed
 async function serveDir(
-  req: ServerRequest,
   dirPath: string,
+  root: string,
+  showDotfiles: boolean,
 ): Promise<Response> {
-  const showDotfiles = serverArgs.dotfiles ?? true;
-  const dirUrl = `/${posix.relative(target, dirPath)}`;
+  const dirUrl = `/${posix.relative(root, dirPath)}`;
   const listEntry: EntryInfo[] = [];
 
   // if ".." makes sense
@@ -371,10 +627,6 @@ async function serveDir(
     }
     const filePath = posix.join(dirPath, entry.name);
     const fileUrl = posix.join(dirUrl, entry.name);
-    if (entry.name === "index.html" && entry.isFile) {
-      // in case index.html as dir...
-      return serveFile(req, filePath);
-    }
     const fileInfo = await Deno.stat(filePath);
     listEntry.push({
       mode: modeToString(entry.isDirectory, fileInfo.mode),
@@ -400,22 +652,42 @@ async function serveDir(
   return res;
 }
 
-function serveFallback(_req: ServerRequest, e: Error): Promise<Response> {
+async function serveFallback(
+  _req: ServerRequest,
+  e: Error,
+  notFoundPage?: string,
+): Promise<Response> {
   if (e instanceof URIError) {
-    return Promise.resolve({
+    return {
       status: 400,
       body: encoder.encode("Bad Request"),
-    });
+    };
   } else if (e instanceof Deno.errors.NotFound) {
-    return Promise.resolve({
+    if (notFoundPage) {
+      const headers = setBaseHeaders();
+      const contentTypeValue = contentType(notFoundPage);
+      if (contentTypeValue) {
+        headers.set("content-type", contentTypeValue);
+      }
+      try {
+        return {
+          status: 404,
+          body: await Deno.readFile(notFoundPage),
+          headers,
+        };
+      } catch {
+        // Fall back to the plain response.
+      }
+    }
+    return {
       status: 404,
       body: encoder.encode("Not Found"),
-    });
+    };
   } else {
-    return Promise.resolve({
+    return {
       status: 500,
       body: encoder.encode("Internal server error"),
-    });
+    };
   }
 }
 
@@ -587,15 +859,203 @@ function normalizeURL(url: string): string {
     : normalizedUrl;
 }
 
+/** Returns whether a path relative to the root has a segment starting with a
+ * dot, such as `.git/config`. */
+function isDotPath(path: string): boolean {
+  return path.split("/").some((segment) => segment.startsWith("."));
+}
+
+/** Returns whether the request is a navigation of a browser. */
+function acceptsHtml(req: ServerRequest): boolean {
+  return (req.method === "GET" || req.method === "HEAD") &&
+    negotiateMediaType(req.headers.get("accept"), ["text/html"]) !== undefined;
+}
+
+/**
+ * How files and directories whose name starts with a dot are treated.
+ *
+ * - `"allow"`: they are listed and served.
+ * - `"hide"`: they are served but not listed.
+ * - `"ignore"`: they are neither listed nor served, as if they did not exist.
+ * - `"deny"`: they are not listed, and requests for them are answered with
+ *   `403 Forbidden`.
+ */
+export type DotfilesPolicy = "allow" | "hide" | "ignore" | "deny";
+
+export interface FileServerOptions extends ServeFileOptions {
+  /** The directory to serve. Defaults to the current working directory. */
+  root?: string;
+  /** Names of the files served for a request of a directory, in order of
+   * preference. Defaults to `["index.html"]`. */
+  index?: string[];
+  /** List the content of directories without an index file. Defaults to
+   * `true`. */
+  dirListing?: boolean;
+  /** Defaults to `"allow"`. */
+  dotfiles?: DotfilesPolicy;
+  /** Answer `GET` and `HEAD` requests which accept `text/html` and match no
+   * file with the index file of the root, so that the routes of a single
+   * page application are handled on the client. Defaults to `false`. */
+  spaFallback?: boolean;
+  /** `Cache-Control` header values by glob pattern. The patterns are matched
+   * against the request path relative to the root, such as
+   * `assets/app.js`, and the first matching pattern applies. */
+  cacheControl?: Record<string, string>;
+  /** Path of a file sent as the body of `404 Not Found` responses. */
+  notFoundPage?: string;
+  /** Enable CORS via the `Access-Control-Allow-Origin` header. Defaults to
+   * `false`. */
+  cors?: boolean;
+  /** Log requests and errors to the console. Defaults to `false`. */
+  log?: boolean;
+}
+
+/**
+ * Create a request handler which serves the files of a directory.
+ *
+ *     import { listenAndServe } from "https://deno.land/std/http/server.ts";
+ *     import { createFileServerHandler } from "https://deno.land/std/http/file_server.ts";
+ *     const handler = createFileServerHandler({
+ *       root: "./public",
+ *       spaFallback: true,
+ *       cacheControl: { "assets/**": "max-age=31536000, immutable" },
+ *     });
+ *     listenAndServe(":8000", handler);
+ */
+export function createFileServerHandler(
+  options: FileServerOptions = {},
+): (req: ServerRequest) => Promise<void> {
+  const root = posix.resolve(options.root ?? "");
+  const index = options.index ?? ["index.html"];
+  const dirListing = options.dirListing ?? true;
+  const dotfiles = options.dotfiles ?? "allow";
+  const cacheControl = Object.entries(options.cacheControl ?? {}).map((
+    [glob, value],
+  ) => ({ regexp: globToRegExp(glob, { os: "linux" }), value }));
+  const fileOptions: ServeFileOptions = {
+    etagAlgorithm: options.etagAlgorithm,
+    precompressed: options.precompressed,
+    compress: options.compress,
+  };
+
+  /** Serve the index file of a directory, returning the response and the
+   * path of the file. */
+  async function serveIndex(
+    req: ServerRequest,
+    dirPath: string,
+  ): Promise<{ response: Response; filePath: string } | undefined> {
+    for (const name of index) {
+      const filePath = posix.join(dirPath, name);
+      try {
+        if ((await Deno.stat(filePath)).isFile) {
+          return {
+            response: await serveFile(req, filePath, fileOptions),
+            filePath,
+          };
+        }
+      } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+          throw e;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  async function servePath(
+    req: ServerRequest,
+    fsPath: string,
+  ): Promise<Response> {
+    const fileInfo = await Deno.stat(fsPath);
+    if (!fileInfo.isDirectory) {
+      return serveFile(req, fsPath, fileOptions);
+    }
+    const served = await serveIndex(req, fsPath);
+    if (served) {
+      return served.response;
+    }
+    if (dirListing) {
+      return serveDir(fsPath, root, dotfiles === "allow");
+    }
+    throw new Deno.errors.NotFound();
+  }
+
+  async function serve(req: ServerRequest): Promise<Response> {
+    const normalizedUrl = normalizeURL(req.url);
+    let fsPath = posix.join(root, normalizedUrl);
+    if (fsPath.indexOf(root) !== 0) {
+      fsPath = root;
+    }
+    const relativePath = posix.relative(root, fsPath);
+    if (isDotPath(relativePath)) {
+      if (dotfiles === "deny") {
+        return { status: 403, body: encoder.encode("Forbidden") };
+      } else if (dotfiles === "ignore") {
+        throw new Deno.errors.NotFound();
+      }
+    }
+
+    let response: Response;
+    // The path the cache-control rules apply to.
+    let cachePath = relativePath;
+    try {
+      response = await servePath(req, fsPath);
+    } catch (e) {
+      const fallback = e instanceof Deno.errors.NotFound &&
+          options.spaFallback && acceptsHtml(req)
+        ? await serveIndex(req, root)
+        : undefined;
+      if (!fallback) {
+        throw e;
+      }
+      response = fallback.response;
+      cachePath = posix.relative(root, fallback.filePath);
+    }
+
+    const rule = cacheControl.find(({ regexp }) => regexp.test(cachePath));
+    if (rule) {
+      response.headers ??= new Headers();
+      response.headers.set("cache-control", rule.value);
+    }
+    return response;
+  }
+
+  return async (req: ServerRequest): Promise<void> => {
+    let response: Response | undefined;
+    try {
+      response = await serve(req);
+    } catch (e) {
+      if (options.log) {
+        console.error(e.message);
+      }
+      response = await serveFallback(req, e, options.notFoundPage);
+    } finally {
+      if (options.cors) {
+        assert(response);
+        setCORS(response);
+      }
+      if (options.log) {
+        serverLog(req, response!);
+      }
+      try {
+        await req.respond(response!);
+      } catch (e) {
+        if (options.log) {
+          console.error(e.message);
+        }
+      }
+    }
+  };
+}
+
 function main(): void {
-  const CORSEnabled = serverArgs.cors ? true : false;
+  const serverArgs = parse(Deno.args) as FileServerArgs;
   const port = serverArgs.port ?? serverArgs.p ?? 4507;
   const host = serverArgs.host ?? "0.0.0.0";
   const addr = `${host}:${port}`;
   const tlsOpts = {} as HTTPSOptions;
   tlsOpts.certFile = serverArgs.cert ?? serverArgs.c ?? "";
   tlsOpts.keyFile = serverArgs.key ?? serverArgs.k ?? "";
-  const dirListingEnabled = serverArgs["dir-listing"] ?? true;
 
   if (tlsOpts.keyFile || tlsOpts.certFile) {
     if (tlsOpts.keyFile === "" || tlsOpts.certFile === "") {
@@ -623,45 +1083,21 @@ function main(): void {
     -k, --key  <FILE>   TLS key file (enables TLS)
     --no-dir-listing    Disable directory listing
     --no-dotfiles       Do not show dotfiles
+    --compress          Compress text files with gzip on the fly (Deno 1.14+)
 
     All TLS options are required when one is provided.`);
     Deno.exit();
   }
 
-  const handler = async (req: ServerRequest) => {
-    let response: Response | undefined;
-    try {
-      const normalizedUrl = normalizeURL(req.url);
-      let fsPath = posix.join(target, normalizedUrl);
-      if (fsPath.indexOf(target) !== 0) {
-        fsPath = target;
-      }
-      const fileInfo = await Deno.stat(fsPath);
-      if (fileInfo.isDirectory) {
-        if (dirListingEnabled) {
-          response = await serveDir(req, fsPath);
-        } else {
-          throw new Deno.errors.NotFound();
-        }
-      } else {
-        response = await serveFile(req, fsPath);
-      }
-    } catch (e) {
-      console.error(e.message);
-      response = await serveFallback(req, e);
-    } finally {
-      if (CORSEnabled) {
-        assert(response);
-        setCORS(response);
-      }
-      serverLog(req, response!);
-      try {
-        await req.respond(response!);
-      } catch (e) {
-        console.error(e.message);
-      }
-    }
-  };
+  const handler = createFileServerHandler({
+    root: `${serverArgs._[0] ?? ""}`,
+    dirListing: serverArgs["dir-listing"] ?? true,
+    dotfiles: (serverArgs.dotfiles ?? true) ? "allow" : "hide",
+    cors: serverArgs.cors,
+    precompressed: true,
+    compress: serverArgs.compress,
+    log: true,
+  });
 
   let proto = "http";
   if (tlsOpts.keyFile || tlsOpts.certFile) {
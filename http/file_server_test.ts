@@ -4,12 +4,26 @@ import {
   assertEquals,
   assertStringIncludes,
 } from "../testing/asserts.ts";
-import { BufReader } from "../io/bufio.ts";
+import { BufReader, BufWriter } from "../io/bufio.ts";
+import { Buffer } from "../io/buffer.ts";
 import { TextProtoReader } from "../textproto/mod.ts";
-import { Response } from "./server.ts";
-import { FileServerArgs } from "./file_server.ts";
+import { Response, ServerRequest } from "./server.ts";
+import {
+  createFileServerHandler,
+  FileServerArgs,
+  FileServerOptions,
+  serveFile,
+  ServeFileOptions,
+} from "./file_server.ts";
+import { chunkedBodyReader } from "./_io.ts";
+import { createHash } from "../hash/mod.ts";
+import { mockConn } from "./_mock_conn.ts";
 import { dirname, fromFileUrl, join, resolve } from "../path/mod.ts";
 import { iter, readAll, writeAll } from "../io/util.ts";
+import {
+  readableStreamFromReader,
+  readerFromStreamReader,
+} from "../io/streams.ts";
 
 let fileServer: Deno.Process<Deno.RunOptions & { stdout: "piped" }>;
 
@@ -280,9 +294,10 @@ Deno.test("checkURIEncodedPathTraversal", async function () {
 Deno.test("serveWithUnorthodoxFilename", async function () {
   await startFileServer();
   try {
-    const malformedRes = await fetch("http://localhost:4507/testdata/%");
-    assertEquals(malformedRes.status, 400);
-    await malformedRes.text(); // Consuming the body so that the test doesn't leak resources
+    // The file is empty, which used to fail reading its first byte.
+    const res = await fetch("http://localhost:4507/testdata/%");
+    assertEquals(res.status, 200);
+    assertEquals(await res.text(), "");
   } finally {
     await killFileServer();
   }
@@ -570,12 +585,17 @@ const getTestFileEtag = async () => {
     const simpleEtag = await createEtagHash(
       `${lastModified.toJSON()}${fileInfo.size}`,
     );
-    return simpleEtag;
+    return `W/"${simpleEtag}"`;
   } else {
     return "";
   }
 };
 
+const getTestFileLastModified = async () => {
+  const fileInfo = await getTestFileStat();
+  return fileInfo.mtime?.toUTCString() ?? "";
+};
+
 const createEtagHash = async (message: string) => {
   // see: https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/digest
   const hashType = "SHA-1"; // Faster, and this isn't a security senitive cryptographic use case
@@ -639,7 +659,7 @@ Deno.test(
 );
 
 Deno.test(
-  "file_server should return 416 due to a bad range request (500-200)",
+  "file_server should ignore a malformed range request (500-200)",
   async () => {
     await startFileServer();
     try {
@@ -650,9 +670,12 @@ Deno.test(
         "http://localhost:4507/testdata/test%20file.txt",
         { headers },
       );
-      await res.text();
-      assertEquals(res.status, 416);
-      assertEquals(res.statusText, "Range Not Satisfiable");
+      const text = await res.text();
+      const localFile = new TextDecoder().decode(
+        await Deno.readFile(join(testdataDir, "test file.txt")),
+      );
+      assertEquals(res.status, 200);
+      assertEquals(text, localFile);
     } finally {
       await killFileServer();
     }
@@ -660,7 +683,7 @@ Deno.test(
 );
 
 Deno.test(
-  "file_server should return 416 due to a bad range request (-200)",
+  "file_server should download the last 200 bytes for a suffix range (-200)",
   async () => {
     await startFileServer();
     try {
@@ -671,9 +694,113 @@ Deno.test(
         "http://localhost:4507/testdata/test%20file.txt",
         { headers },
       );
+      const text = await res.text();
+      const localFile = new TextDecoder().decode(
+        await Deno.readFile(join(testdataDir, "test file.txt")),
+      );
+      const contentLength = await getTestFileSize();
+      assertEquals(res.status, 206);
+      assertEquals(
+        res.headers.get("content-range"),
+        `bytes ${contentLength - 200}-${contentLength - 1}/${contentLength}`,
+      );
+      assertEquals(text, localFile.substring(contentLength - 200));
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server clamps the end of a range to the file size",
+  async () => {
+    await startFileServer();
+    try {
+      const contentLength = await getTestFileSize();
+      const headers = {
+        "range": `bytes=${contentLength - 10}-${contentLength + 100}`,
+      };
+      const res = await fetch(
+        "http://localhost:4507/testdata/test%20file.txt",
+        { headers },
+      );
+      const text = await res.text();
+      assertEquals(res.status, 206);
+      assertEquals(text.length, 10);
+      assertEquals(
+        res.headers.get("content-range"),
+        `bytes ${contentLength - 10}-${contentLength - 1}/${contentLength}`,
+      );
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server should return 416 due to an unsatisfiable range request",
+  async () => {
+    await startFileServer();
+    try {
+      const contentLength = await getTestFileSize();
+      const headers = {
+        "range": `bytes=${contentLength}-`,
+      };
+      const res = await fetch(
+        "http://localhost:4507/testdata/test%20file.txt",
+        { headers },
+      );
       await res.text();
       assertEquals(res.status, 416);
-      assertEquals(res.statusText, "Range Not Satisfiable");
+      assertEquals(
+        res.headers.get("content-range"),
+        `bytes */${contentLength}`,
+      );
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server returns multipart/byteranges for multiple ranges",
+  async () => {
+    await startFileServer();
+    try {
+      const headers = {
+        "range": "bytes=0-4, 10-14",
+      };
+      const res = await fetch(
+        "http://localhost:4507/testdata/test%20file.txt",
+        { headers },
+      );
+      const text = await res.text();
+      const localFile = new TextDecoder().decode(
+        await Deno.readFile(join(testdataDir, "test file.txt")),
+      );
+      const contentLength = await getTestFileSize();
+      assertEquals(res.status, 206);
+      const contentType = res.headers.get("content-type");
+      assert(contentType !== null);
+      const match = /^multipart\/byteranges; boundary=(\w+)$/.exec(contentType);
+      assert(match !== null);
+      const boundary = match[1];
+      assertEquals(
+        text,
+        `--${boundary}\r\n` +
+          "content-type: text/plain\r\n" +
+          `content-range: bytes 0-4/${contentLength}\r\n\r\n` +
+          localFile.substring(0, 5) +
+          `\r\n--${boundary}\r\n` +
+          "content-type: text/plain\r\n" +
+          `content-range: bytes 10-14/${contentLength}\r\n\r\n` +
+          localFile.substring(10, 15) +
+          `\r\n--${boundary}--\r\n`,
+      );
+      assertEquals(
+        res.headers.get("content-length"),
+        `${new TextEncoder().encode(text).byteLength}`,
+      );
     } finally {
       await killFileServer();
     }
@@ -681,7 +808,51 @@ Deno.test(
 );
 
 Deno.test(
-  "file_server should return 416 due to a bad range request (100)",
+  "file_server ignores the range if if-range does not match",
+  async () => {
+    await startFileServer();
+    try {
+      const lastModified = await getTestFileLastModified();
+      {
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          { headers: { "range": "bytes=0-0", "if-range": lastModified } },
+        );
+        assertEquals(await res.text(), "L");
+        assertEquals(res.status, 206);
+      }
+      {
+        // A weak etag never matches "if-range".
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          {
+            headers: {
+              "range": "bytes=0-0",
+              "if-range": await getTestFileEtag(),
+            },
+          },
+        );
+        const text = await res.text();
+        assertEquals(res.status, 200);
+        assertEquals(text.length, await getTestFileSize());
+      }
+      {
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          { headers: { "range": "bytes=0-0", "if-range": "outdated" } },
+        );
+        const text = await res.text();
+        assertEquals(res.status, 200);
+        assertEquals(text.length, await getTestFileSize());
+      }
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server should ignore a malformed range request (100)",
   async () => {
     await startFileServer();
     try {
@@ -692,9 +863,12 @@ Deno.test(
         "http://localhost:4507/testdata/test%20file.txt",
         { headers },
       );
-      await res.text();
-      assertEquals(res.status, 416);
-      assertEquals(res.statusText, "Range Not Satisfiable");
+      const text = await res.text();
+      const localFile = new TextDecoder().decode(
+        await Deno.readFile(join(testdataDir, "test file.txt")),
+      );
+      assertEquals(res.status, 200);
+      assertEquals(text, localFile);
     } finally {
       await killFileServer();
     }
@@ -702,7 +876,7 @@ Deno.test(
 );
 
 Deno.test(
-  "file_server should return 416 due to a bad range request (a-b)",
+  "file_server should ignore a malformed range request (a-b)",
   async () => {
     await startFileServer();
     try {
@@ -713,9 +887,12 @@ Deno.test(
         "http://localhost:4507/testdata/test%20file.txt",
         { headers },
       );
-      await res.text();
-      assertEquals(res.status, 416);
-      assertEquals(res.statusText, "Range Not Satisfiable");
+      const text = await res.text();
+      const localFile = new TextDecoder().decode(
+        await Deno.readFile(join(testdataDir, "test file.txt")),
+      );
+      assertEquals(res.status, 200);
+      assertEquals(text, localFile);
     } finally {
       await killFileServer();
     }
@@ -883,3 +1060,488 @@ Deno.test(
     }
   },
 );
+
+Deno.test(
+  "file_server returns 304 if if-none-match contains a matching etag",
+  async () => {
+    await startFileServer();
+    try {
+      const etag = await getTestFileEtag();
+      const res = await fetch(
+        "http://localhost:4507/testdata/test%20file.txt",
+        { headers: { "if-none-match": `"other", ${etag.slice(2)}` } },
+      );
+      assertEquals(res.status, 304);
+      assertEquals(res.headers.get("etag"), etag);
+      await res.text(); // Consuming the body so that the test doesn't leak resources
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server returns 304 for requests with if-modified-since",
+  async () => {
+    await startFileServer();
+    try {
+      const lastModified = await getTestFileLastModified();
+      {
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          { headers: { "if-modified-since": lastModified } },
+        );
+        assertEquals(res.status, 304);
+        await res.text(); // Consuming the body so that the test doesn't leak resources
+      }
+      {
+        // "if-none-match" takes precedence over "if-modified-since".
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          {
+            headers: {
+              "if-modified-since": lastModified,
+              "if-none-match": '"outdated"',
+            },
+          },
+        );
+        assertEquals(res.status, 200);
+        await res.text(); // Consuming the body so that the test doesn't leak resources
+      }
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+Deno.test(
+  "file_server returns 412 if a precondition fails",
+  async () => {
+    await startFileServer();
+    try {
+      {
+        // A weak etag never matches "if-match".
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          { headers: { "if-match": await getTestFileEtag() } },
+        );
+        assertEquals(res.status, 412);
+        assertEquals(await res.text(), "Precondition Failed");
+      }
+      {
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          { headers: { "if-match": "*" } },
+        );
+        assertEquals(res.status, 200);
+        await res.text(); // Consuming the body so that the test doesn't leak resources
+      }
+      {
+        const res = await fetch(
+          "http://localhost:4507/testdata/test%20file.txt",
+          {
+            headers: {
+              "if-unmodified-since": new Date(0).toUTCString(),
+            },
+          },
+        );
+        assertEquals(res.status, 412);
+        await res.text(); // Consuming the body so that the test doesn't leak resources
+      }
+    } finally {
+      await killFileServer();
+    }
+  },
+);
+
+function createTestRequest(
+  url: string,
+  headers: HeadersInit,
+): { req: ServerRequest; buf: Buffer } {
+  const buf = new Buffer();
+  const req = new ServerRequest();
+  req.method = "GET";
+  req.url = url;
+  req.headers = new Headers(headers);
+  req.conn = mockConn();
+  req.w = new BufWriter(buf);
+  return { req, buf };
+}
+
+/** Parse the response written to `buf`. */
+async function readTestResponse(
+  buf: Buffer,
+): Promise<{ status: number; headers: Headers; body: Uint8Array }> {
+  const r = new BufReader(buf);
+  const tp = new TextProtoReader(r);
+  const statusLine = await tp.readLine();
+  assert(statusLine !== null);
+  const headers = await tp.readMIMEHeader();
+  assert(headers !== null);
+  const body = headers.get("transfer-encoding") === "chunked"
+    ? await readAll(chunkedBodyReader(headers, r))
+    : await readAll(r);
+  return { status: Number(statusLine.split(" ")[1]), headers, body };
+}
+
+/** Calls `serveFile()` directly and returns the response and the body that
+ * was written to the connection. */
+async function serveTestFile(
+  headers: HeadersInit,
+  options: ServeFileOptions = {},
+  filePath = join(testdataDir, "test file.txt"),
+): Promise<{ res: Response; body: Uint8Array }> {
+  const { req, buf } = createTestRequest("/", headers);
+  const res = await serveFile(req, filePath, options);
+  await req.respond(res);
+  const { body } = await readTestResponse(buf);
+  return { res, body };
+}
+
+Deno.test(
+  "file_server serveFile computes a strong etag from the content",
+  async () => {
+    const content = await Deno.readFile(join(testdataDir, "test file.txt"));
+    const etag = `"${createHash("sha256").update(content).toString()}"`;
+    {
+      const { res } = await serveTestFile({}, { etagAlgorithm: "sha256" });
+      assertEquals(res.status, 200);
+      assertEquals(res.headers?.get("etag"), etag);
+    }
+    {
+      const { res } = await serveTestFile(
+        { "if-match": etag },
+        { etagAlgorithm: "sha256" },
+      );
+      assertEquals(res.status, 200);
+    }
+    {
+      const { res } = await serveTestFile(
+        { "if-none-match": `W/${etag}` },
+        { etagAlgorithm: "sha256" },
+      );
+      assertEquals(res.status, 304);
+    }
+    {
+      const { res, body } = await serveTestFile(
+        { "range": "bytes=0-0", "if-range": etag },
+        { etagAlgorithm: "sha256" },
+      );
+      assertEquals(res.status, 206);
+      assertEquals(new TextDecoder().decode(body), "L");
+    }
+    {
+      const { res } = await serveTestFile({});
+      assert(res.headers?.get("etag")?.startsWith('W/"'));
+    }
+  },
+);
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = readableStreamFromReader(new Buffer(data))
+    .pipeThrough(new DecompressionStream("gzip"));
+  return await readAll(readerFromStreamReader(stream.getReader()));
+}
+
+Deno.test(
+  "file_server serveFile serves precompressed siblings",
+  async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const filePath = join(dir, "app.js");
+      await Deno.writeTextFile(filePath, "plain");
+      await Deno.writeTextFile(`${filePath}.gz`, "gzip");
+      await Deno.writeTextFile(`${filePath}.br`, "br");
+      const options = { precompressed: true };
+      const decoder = new TextDecoder();
+      {
+        const { res, body } = await serveTestFile(
+          { "accept-encoding": "gzip, deflate, br" },
+          options,
+          filePath,
+        );
+        assertEquals(decoder.decode(body), "br");
+        assertEquals(res.headers?.get("content-encoding"), "br");
+        assertEquals(
+          res.headers?.get("content-type"),
+          "application/javascript",
+        );
+        assertEquals(res.headers?.get("vary"), "accept-encoding");
+      }
+      {
+        const { res, body } = await serveTestFile(
+          { "accept-encoding": "br;q=0.5, gzip" },
+          options,
+          filePath,
+        );
+        assertEquals(decoder.decode(body), "gzip");
+        assertEquals(res.headers?.get("content-encoding"), "gzip");
+      }
+      {
+        const { res, body } = await serveTestFile(
+          { "accept-encoding": "br;q=0, identity" },
+          options,
+          filePath,
+        );
+        assertEquals(decoder.decode(body), "plain");
+        assertEquals(res.headers?.has("content-encoding"), false);
+        assertEquals(res.headers?.get("vary"), "accept-encoding");
+      }
+      {
+        // Precompressed siblings are only served if enabled.
+        const { res, body } = await serveTestFile(
+          { "accept-encoding": "br" },
+          {},
+          filePath,
+        );
+        assertEquals(decoder.decode(body), "plain");
+        assertEquals(res.headers?.has("vary"), false);
+      }
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+);
+
+Deno.test(
+  "file_server serveFile compresses responses on the fly",
+  async () => {
+    const content = await Deno.readFile(join(testdataDir, "test file.txt"));
+    const options = { compress: true };
+    let etag: string | null | undefined;
+    {
+      const { res, body } = await serveTestFile(
+        { "accept-encoding": "gzip" },
+        options,
+      );
+      assertEquals(res.status, 200);
+      assertEquals(res.headers?.get("content-encoding"), "gzip");
+      assertEquals(res.headers?.get("vary"), "accept-encoding");
+      assertEquals(res.headers?.has("content-length"), false);
+      assertEquals(await gunzip(body), content);
+      etag = res.headers?.get("etag");
+      assert(etag?.startsWith('W/"') && etag.endsWith('-gzip"'));
+    }
+    {
+      const { res } = await serveTestFile(
+        { "accept-encoding": "gzip", "if-none-match": etag! },
+        options,
+      );
+      assertEquals(res.status, 304);
+    }
+    {
+      const { res, body } = await serveTestFile({}, options);
+      assertEquals(res.headers?.has("content-encoding"), false);
+      assertEquals(res.headers?.get("vary"), "accept-encoding");
+      assertEquals(body, content);
+    }
+    {
+      // Range requests are answered from the uncompressed file.
+      const { res, body } = await serveTestFile(
+        { "accept-encoding": "gzip", "range": "bytes=0-0" },
+        options,
+      );
+      assertEquals(res.status, 206);
+      assertEquals(res.headers?.has("content-encoding"), false);
+      assertEquals(new TextDecoder().decode(body), "L");
+    }
+    {
+      // Small files are never compressed.
+      const { res } = await serveTestFile(
+        { "accept-encoding": "gzip" },
+        options,
+        join(testdataDir, "hello.html"),
+      );
+      assertEquals(res.headers?.has("content-encoding"), false);
+      assertEquals(res.headers?.has("vary"), false);
+    }
+    {
+      // Files are served uncompressed without CompressionStream.
+      const descriptor = Object.getOwnPropertyDescriptor(
+        globalThis,
+        "CompressionStream",
+      )!;
+      Reflect.deleteProperty(globalThis, "CompressionStream");
+      try {
+        const { res, body } = await serveTestFile(
+          { "accept-encoding": "gzip" },
+          options,
+        );
+        assertEquals(res.headers?.has("content-encoding"), false);
+        assertEquals(body, content);
+      } finally {
+        Object.defineProperty(globalThis, "CompressionStream", descriptor);
+      }
+    }
+  },
+);
+
+/** Create a directory tree to serve and return its path. */
+async function createTestRoot(): Promise<string> {
+  const root = await Deno.makeTempDir();
+  await Deno.mkdir(join(root, "assets"));
+  await Deno.mkdir(join(root, "docs"));
+  await Deno.mkdir(join(root, ".git"));
+  await Deno.writeTextFile(join(root, "index.html"), "<h1>home</h1>");
+  await Deno.writeTextFile(join(root, "404.html"), "<h1>missing</h1>");
+  await Deno.writeTextFile(join(root, "assets", "app.js"), "app()");
+  await Deno.writeTextFile(join(root, "docs", "main.htm"), "docs");
+  await Deno.writeTextFile(join(root, "docs", "notes.txt"), "notes");
+  await Deno.writeTextFile(join(root, ".env"), "SECRET=1");
+  await Deno.writeTextFile(join(root, ".git", "config"), "[core]");
+  return root;
+}
+
+async function fetchFromHandler(
+  options: FileServerOptions,
+  url: string,
+  headers: HeadersInit = {},
+): Promise<{ status: number; headers: Headers; text: string }> {
+  const handler = createFileServerHandler(options);
+  const { req, buf } = createTestRequest(url, headers);
+  await handler(req);
+  const res = await readTestResponse(buf);
+  return { ...res, text: new TextDecoder().decode(res.body) };
+}
+
+Deno.test("file_server createFileServerHandler serves a root", async () => {
+  const root = await createTestRoot();
+  try {
+    let res = await fetchFromHandler({ root }, "/assets/app.js");
+    assertEquals(res.status, 200);
+    assertEquals(res.text, "app()");
+    assertEquals(res.headers.get("content-type"), "application/javascript");
+
+    res = await fetchFromHandler({ root }, "/");
+    assertEquals(res.text, "<h1>home</h1>");
+
+    res = await fetchFromHandler({ root }, "/missing");
+    assertEquals(res.status, 404);
+    assertEquals(res.text, "Not Found");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("file_server createFileServerHandler index files and listings", async () => {
+  const root = await createTestRoot();
+  try {
+    let res = await fetchFromHandler(
+      { root, index: ["index.html", "main.htm"] },
+      "/docs/",
+    );
+    assertEquals(res.text, "docs");
+
+    res = await fetchFromHandler({ root }, "/docs/");
+    assertEquals(res.status, 200);
+    assertStringIncludes(res.text, "notes.txt");
+    assertStringIncludes(res.text, "main.htm");
+
+    res = await fetchFromHandler({ root, dirListing: false }, "/docs/");
+    assertEquals(res.status, 404);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("file_server createFileServerHandler dotfiles policy", async () => {
+  const root = await createTestRoot();
+  try {
+    let res = await fetchFromHandler({ root }, "/.env");
+    assertEquals(res.text, "SECRET=1");
+    res = await fetchFromHandler({ root, index: [] }, "/");
+    assertStringIncludes(res.text, ".env");
+
+    res = await fetchFromHandler({ root, dotfiles: "hide" }, "/.env");
+    assertEquals(res.text, "SECRET=1");
+
+    for (const url of ["/.env", "/.git/config", "/.git/"]) {
+      res = await fetchFromHandler({ root, dotfiles: "ignore" }, url);
+      assertEquals(res.status, 404);
+      res = await fetchFromHandler({ root, dotfiles: "deny" }, url);
+      assertEquals(res.status, 403);
+    }
+
+    res = await fetchFromHandler({ root, index: [], dotfiles: "ignore" }, "/");
+    assertEquals(res.status, 200);
+    assert(!res.text.includes(".env"));
+    assert(!res.text.includes(".git"));
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("file_server createFileServerHandler SPA fallback and 404 page", async () => {
+  const root = await createTestRoot();
+  try {
+    const html = { accept: "text/html,application/xhtml+xml" };
+    let res = await fetchFromHandler(
+      { root, spaFallback: true },
+      "/users/42",
+      html,
+    );
+    assertEquals(res.status, 200);
+    assertEquals(res.text, "<h1>home</h1>");
+
+    res = await fetchFromHandler(
+      { root, spaFallback: true },
+      "/users/42",
+      { accept: "*/*" },
+    );
+    assertEquals(res.text, "<h1>home</h1>");
+
+    // Requests which do not accept HTML are not answered with the index.
+    for (const accept of ["application/json", "text/html;q=0, */*"]) {
+      res = await fetchFromHandler(
+        { root, spaFallback: true },
+        "/assets/missing.js",
+        { accept },
+      );
+      assertEquals(res.status, 404);
+    }
+
+    res = await fetchFromHandler(
+      { root, notFoundPage: join(root, "404.html") },
+      "/users/42",
+      html,
+    );
+    assertEquals(res.status, 404);
+    assertEquals(res.text, "<h1>missing</h1>");
+    assertEquals(res.headers.get("content-type"), "text/html");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("file_server createFileServerHandler cache-control rules", async () => {
+  const root = await createTestRoot();
+  try {
+    const options = {
+      root,
+      cacheControl: {
+        "assets/**": "max-age=31536000, immutable",
+        "**/*.html": "no-cache",
+      },
+    };
+    let res = await fetchFromHandler(options, "/assets/app.js");
+    assertEquals(
+      res.headers.get("cache-control"),
+      "max-age=31536000, immutable",
+    );
+    res = await fetchFromHandler(options, "/index.html");
+    assertEquals(res.headers.get("cache-control"), "no-cache");
+    res = await fetchFromHandler(options, "/docs/notes.txt");
+    assertEquals(res.headers.has("cache-control"), false);
+
+    // The SPA fallback follows the rules of the index file.
+    res = await fetchFromHandler(
+      { ...options, spaFallback: true },
+      "/assets/missing",
+      { accept: "text/html" },
+    );
+    assertEquals(res.text, "<h1>home</h1>");
+    assertEquals(res.headers.get("cache-control"), "no-cache");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
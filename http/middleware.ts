@@ -0,0 +1,135 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Response, ServerRequest } from "./server.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+import { HttpError } from "./errors.ts";
+
+/** Run the rest of the chain and resolve with the response it produced. */
+export type Next = () => Promise<Response>;
+
+/** A function which may inspect or modify the request before calling
+ * `next()`, and the response after it. */
+export type Middleware = (
+  req: ServerRequest,
+  next: Next,
+) => Promise<Response>;
+
+/**
+ * The final handler of a chain. It can either return a `Response` or call
+ * `req.respond()` as a plain request handler would.
+ */
+export type Handler = (
+  req: ServerRequest,
+) => Response | void | Promise<Response | void>;
+
+/** Map an error thrown by the chain to the response sent to the client. */
+export type ErrorHandler = (
+  error: unknown,
+  req: ServerRequest,
+) => Response | Promise<Response>;
+
+export interface MiddlewareOptions {
+  /** Defaults to `errorToResponse()`. */
+  onError?: ErrorHandler;
+}
+
+/**
+ * Convert an error to a response. The status of an `HttpError` is used as is,
+ * any other error yields a `500 Internal Server Error` so that no details of
+ * the failure leak to the client.
+ */
+export function errorToResponse(error: unknown): Response {
+  const status = error instanceof HttpError
+    ? error.status
+    : Status.InternalServerError;
+  const body = error instanceof HttpError
+    ? error.message
+    : STATUS_TEXT.get(status);
+  return {
+    status,
+    headers: new Headers({ "content-type": "text/plain; charset=utf-8" }),
+    body,
+  };
+}
+
+/** Compose middleware into a single middleware, outermost first. */
+export function compose(middleware: Middleware[]): Middleware {
+  return (req, next) => {
+    let index = -1;
+    function dispatch(i: number): Promise<Response> {
+      if (i <= index) {
+        return Promise.reject(new Error("next() called multiple times"));
+      }
+      index = i;
+      if (i === middleware.length) {
+        return next();
+      }
+      try {
+        return middleware[i](req, () => dispatch(i + 1));
+      } catch (e) {
+        return Promise.reject(e);
+      }
+    }
+    return dispatch(0);
+  };
+}
+
+/**
+ * Wrap a handler with a middleware chain. The returned function can be used
+ * wherever a plain request handler is expected:
+ *
+ *     import { listenAndServe } from "https://deno.land/std/http/server.ts";
+ *     import { applyMiddleware } from "https://deno.land/std/http/middleware.ts";
+ *     const timing: Middleware = async (req, next) => {
+ *       const start = Date.now();
+ *       const res = await next();
+ *       res.headers ??= new Headers();
+ *       res.headers.set("x-response-time", `${Date.now() - start}ms`);
+ *       return res;
+ *     };
+ *     listenAndServe(":8000", applyMiddleware(() => ({ body: "hi" }), [timing]));
+ *
+ * While the chain runs, a hook added with `req.onRespond()` records the
+ * response instead of writing it. Errors thrown anywhere in the chain are
+ * converted to a response by `onError`, and the final response is written
+ * exactly once.
+ */
+export function applyMiddleware(
+  handler: Handler,
+  middleware: Middleware[],
+  options: MiddlewareOptions = {},
+): (req: ServerRequest) => Promise<void> {
+  const onError = options.onError ?? errorToResponse;
+  const chain = compose(middleware);
+
+  return async (req: ServerRequest): Promise<void> => {
+    let recorded: Response | undefined;
+    const removeHook = req.onRespond((r: Response): Promise<void> => {
+      if (recorded) {
+        return Promise.reject(new Error("Response has already been sent"));
+      }
+      recorded = r;
+      return Promise.resolve();
+    });
+
+    let response: Response;
+    try {
+      response = await chain(req, async () => {
+        const result = await handler(req);
+        const res = result ?? recorded;
+        if (!res) {
+          throw new Error("Handler did not respond");
+        }
+        return res;
+      });
+    } catch (e) {
+      try {
+        response = await onError(e, req);
+      } catch (e) {
+        response = errorToResponse(e);
+      }
+    } finally {
+      removeHook();
+    }
+    await req.respond(response);
+  };
+}
@@ -0,0 +1,196 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { BufWriter } from "../io/bufio.ts";
+import { Buffer } from "../io/buffer.ts";
+import { Response, ServerRequest } from "./server.ts";
+import { Status } from "./http_status.ts";
+import {
+  applyMiddleware,
+  compose,
+  errorToResponse,
+  Middleware,
+} from "./middleware.ts";
+import { HttpError } from "./errors.ts";
+import { mockConn } from "./_mock_conn.ts";
+
+function createRequest(): { req: ServerRequest; output: () => string } {
+  const buf = new Buffer();
+  const req = new ServerRequest();
+  req.method = "GET";
+  req.url = "/";
+  req.headers = new Headers();
+  req.conn = mockConn();
+  req.w = new BufWriter(buf);
+  return { req, output: () => new TextDecoder().decode(buf.bytes()) };
+}
+
+function setHeader(name: string, value: string): Middleware {
+  return async (_req, next) => {
+    const res = await next();
+    res.headers ??= new Headers();
+    res.headers.set(name, value);
+    return res;
+  };
+}
+
+Deno.test("[http/middleware] runs the chain in order", async function () {
+  const calls: string[] = [];
+  const trace = (name: string): Middleware => async (_req, next) => {
+    calls.push(`before ${name}`);
+    const res = await next();
+    calls.push(`after ${name}`);
+    return res;
+  };
+  const chain = compose([trace("a"), trace("b")]);
+  const { req } = createRequest();
+  const res = await chain(req, () => {
+    calls.push("handler");
+    return Promise.resolve({ body: "ok" });
+  });
+  assertEquals(res.body, "ok");
+  assertEquals(calls, [
+    "before a",
+    "before b",
+    "handler",
+    "after b",
+    "after a",
+  ]);
+});
+
+Deno.test("[http/middleware] next() can only be called once", async function () {
+  const chain = compose([async (_req, next) => {
+    await next();
+    return next();
+  }]);
+  const { req } = createRequest();
+  await assertThrowsAsync(
+    () => chain(req, () => Promise.resolve({})),
+    Error,
+    "next() called multiple times",
+  );
+});
+
+Deno.test("[http/middleware] wraps a handler returning a response", async function () {
+  const handler = applyMiddleware(
+    () => ({ body: "hello" }),
+    [setHeader("x-request-id", "1")],
+  );
+  const { req, output } = createRequest();
+  await handler(req);
+  assertEquals(
+    output(),
+    "HTTP/1.1 200 OK\r\ncontent-length: 5\r\nx-request-id: 1\r\n\r\nhello",
+  );
+});
+
+Deno.test("[http/middleware] captures req.respond() of the handler", async function () {
+  const handler = applyMiddleware(
+    (req) => req.respond({ status: 201, body: "created" }),
+    [setHeader("x-a", "b")],
+  );
+  const { req, output } = createRequest();
+  await handler(req);
+  assertEquals(
+    output(),
+    "HTTP/1.1 201 Created\r\ncontent-length: 7\r\nx-a: b\r\n\r\ncreated",
+  );
+  // The original respond() is restored after the chain.
+  assertEquals(req.respond, ServerRequest.prototype.respond);
+});
+
+Deno.test("[http/middleware] short-circuits without calling next", async function () {
+  let called = false;
+  const auth: Middleware = (req, next) => {
+    if (!req.headers.has("authorization")) {
+      return Promise.resolve({ status: Status.Unauthorized });
+    }
+    return next();
+  };
+  const handler = applyMiddleware(() => {
+    called = true;
+  }, [auth]);
+  const { req, output } = createRequest();
+  await handler(req);
+  assertEquals(called, false);
+  assertEquals(
+    output(),
+    "HTTP/1.1 401 Unauthorized\r\ncontent-length: 0\r\n\r\n",
+  );
+});
+
+Deno.test("[http/middleware] errors become responses", async function () {
+  {
+    const handler = applyMiddleware(() => {
+      throw new Error("secret details");
+    }, []);
+    const { req, output } = createRequest();
+    await handler(req);
+    assertEquals(
+      output(),
+      "HTTP/1.1 500 Internal Server Error\r\ncontent-length: 21\r\n" +
+        "content-type: text/plain; charset=utf-8\r\n\r\n" +
+        "Internal Server Error",
+    );
+  }
+  {
+    const handler = applyMiddleware(() => {
+      throw new HttpError(Status.Forbidden);
+    }, [setHeader("x-a", "b")]);
+    const { req, output } = createRequest();
+    await handler(req);
+    assertEquals(
+      output(),
+      "HTTP/1.1 403 Forbidden\r\ncontent-length: 9\r\n" +
+        "content-type: text/plain; charset=utf-8\r\n\r\nForbidden",
+    );
+  }
+  {
+    // A handler that never responds is an error too.
+    const handler = applyMiddleware(() => {}, []);
+    const { req, output } = createRequest();
+    await handler(req);
+    assertEquals(
+      output().split("\r\n")[0],
+      "HTTP/1.1 500 Internal Server Error",
+    );
+  }
+});
+
+Deno.test("[http/middleware] custom error handler", async function () {
+  const errors: unknown[] = [];
+  const handler = applyMiddleware(
+    () => {
+      throw new TypeError("bad");
+    },
+    [],
+    {
+      onError(error): Response {
+        errors.push(error);
+        return { status: Status.BadRequest, body: "bad" };
+      },
+    },
+  );
+  const { req, output } = createRequest();
+  await handler(req);
+  assertEquals(errors.length, 1);
+  assertEquals(
+    output(),
+    "HTTP/1.1 400 Bad Request\r\ncontent-length: 3\r\n\r\nbad",
+  );
+});
+
+Deno.test("[http/middleware] respond() is called exactly once", async function () {
+  const handler = applyMiddleware(async (req) => {
+    await req.respond({ body: "one" });
+    await req.respond({ body: "two" });
+  }, []);
+  const { req, output } = createRequest();
+  await handler(req);
+  assertEquals(output().split("\r\n")[0], "HTTP/1.1 500 Internal Server Error");
+});
+
+Deno.test("[http/middleware] errorToResponse", function () {
+  assertEquals(errorToResponse(new HttpError(404, "no user")).status, 404);
+  assertEquals(errorToResponse(new HttpError(404, "no user")).body, "no user");
+  assertEquals(errorToResponse("oops").status, 500);
+});
@@ -1,4 +1,13 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+export * from "./client.ts";
+export * from "./conditional.ts";
 export * from "./cookie.ts";
+export * from "./cookie_jar.ts";
+export * from "./errors.ts";
 export * from "./http_status.ts";
+export * from "./middleware.ts";
+export * from "./negotiation.ts";
+export * from "./proxy.ts";
+export * from "./router.ts";
 export * from "./server.ts";
+export * from "./sse.ts";
@@ -0,0 +1,240 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Proactive content negotiation as defined in RFC 7231, section 5.3.
+// https://tools.ietf.org/html/rfc7231#section-5.3
+
+/** A value of an `Accept`, `Accept-Language`, `Accept-Encoding` or
+ * `Accept-Charset` header. */
+export interface AcceptValue {
+  /** The media range, language range, coding or charset, in lower case. */
+  value: string;
+  /** The quality value, between 0 and 1. */
+  q: number;
+  /** The parameters preceding the quality value, with lower case names. */
+  params: Record<string, string>;
+}
+
+const QVALUE = /^(?:0(?:\.\d{0,3})?|1(?:\.0{0,3})?)$/;
+
+/** Split `value` on `separator`, except inside quoted strings. */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts = [];
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (quoted) {
+      if (c === "\\") {
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === separator) {
+      parts.push(value.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start).trim());
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+/**
+ * Parse the value of an `Accept*` header, in the order of the header. Values
+ * with an invalid quality value are ignored.
+ *
+ *     parseAccept("text/html, application/*;q=0.2");
+ *     // [
+ *     //   { value: "text/html", q: 1, params: {} },
+ *     //   { value: "application/*", q: 0.2, params: {} },
+ *     // ]
+ */
+export function parseAccept(header: string): AcceptValue[] {
+  const values: AcceptValue[] = [];
+  for (const item of splitOutsideQuotes(header, ",")) {
+    const [value, ...parts] = splitOutsideQuotes(item, ";");
+    if (value === "") continue;
+    const params: Record<string, string> = {};
+    let q = 1;
+    let valid = true;
+    for (const part of parts) {
+      const index = part.indexOf("=");
+      const name = (index === -1 ? part : part.slice(0, index)).trim()
+        .toLowerCase();
+      const paramValue = index === -1
+        ? ""
+        : unquote(part.slice(index + 1).trim());
+      if (name === "q") {
+        // The parameters following the quality value are extensions.
+        valid = QVALUE.test(paramValue);
+        q = Number(paramValue);
+        break;
+      }
+      if (name !== "") {
+        params[name] = paramValue;
+      }
+    }
+    if (valid) {
+      values.push({ value: value.toLowerCase(), q, params });
+    }
+  }
+  return values;
+}
+
+/** Returns the first offer with the highest non-zero quality. */
+function selectBest(
+  offers: string[],
+  quality: (offer: string) => number,
+): string | undefined {
+  let selected: string | undefined;
+  let best = 0;
+  for (const offer of offers) {
+    const q = quality(offer);
+    if (q > best) {
+      selected = offer;
+      best = q;
+    }
+  }
+  return selected;
+}
+
+/** Returns the quality of the most specific value of `values` matching an
+ * offer, or `undefined` if none matches. `specificity` returns -1 for values
+ * which do not match. */
+function qualityOf(
+  values: AcceptValue[],
+  specificity: (value: AcceptValue) => number,
+): number | undefined {
+  let q: number | undefined;
+  let best = -1;
+  for (const value of values) {
+    const s = specificity(value);
+    if (s > best) {
+      q = value.q;
+      best = s;
+    }
+  }
+  return q;
+}
+
+/**
+ * Select the offered media type preferred by an `Accept` header, or
+ * `undefined` if none is acceptable. Among media types of equal quality, the
+ * first offered one is selected. Without a header, every media type is
+ * acceptable.
+ *
+ *     negotiateMediaType(
+ *       "text/html;q=0.9, application/json",
+ *       ["text/html", "application/json"],
+ *     ); // "application/json"
+ */
+export function negotiateMediaType(
+  accept: string | null,
+  offers: string[],
+): string | undefined {
+  if (accept === null) return offers[0];
+  const ranges = parseAccept(accept);
+  return selectBest(offers, (offer) => {
+    const [mediaType] = parseAccept(offer);
+    if (mediaType === undefined) return 0;
+    const [type, subtype] = mediaType.value.split("/");
+    return qualityOf(ranges, ({ value, params }) => {
+      const [rangeType, rangeSubtype] = value.split("/");
+      const names = Object.keys(params);
+      if (
+        (rangeType !== "*" && rangeType !== type) ||
+        (rangeSubtype !== "*" && rangeSubtype !== subtype) ||
+        names.some((name) =>
+          mediaType.params[name]?.toLowerCase() !== params[name].toLowerCase()
+        )
+      ) {
+        return -1;
+      }
+      return (rangeType === "*" ? 0 : 1000) + (rangeSubtype === "*" ? 0 : 100) +
+        names.length;
+    }) ?? 0;
+  });
+}
+
+/**
+ * Select the offered language tag preferred by an `Accept-Language` header,
+ * or `undefined` if none is acceptable. A language range matches the tags
+ * it is a prefix of, so `en` matches `en-US`. Without a header, every
+ * language is acceptable.
+ *
+ *     negotiateLanguage("fr-CH, fr;q=0.9, en;q=0.8", ["en-US", "fr"]); // "fr"
+ */
+export function negotiateLanguage(
+  acceptLanguage: string | null,
+  offers: string[],
+): string | undefined {
+  if (acceptLanguage === null) return offers[0];
+  const ranges = parseAccept(acceptLanguage);
+  return selectBest(offers, (offer) => {
+    const tag = offer.toLowerCase();
+    return qualityOf(ranges, ({ value }) => {
+      if (value === "*") return 0;
+      return tag === value || tag.startsWith(`${value}-`) ? value.length : -1;
+    }) ?? 0;
+  });
+}
+
+/** The quality of a token, such as a charset, with an exact match taking
+ * precedence over the `*` wildcard. */
+function tokenQuality(
+  values: AcceptValue[],
+  offer: string,
+): number | undefined {
+  const token = offer.toLowerCase();
+  return qualityOf(values, ({ value }) => {
+    if (value === "*") return 0;
+    return value === token ? 1 : -1;
+  });
+}
+
+/**
+ * Select the offered content coding preferred by an `Accept-Encoding` header,
+ * or `undefined` if none is acceptable.
+ *
+ * Unless it is refused explicitly, `identity` is acceptable, but only when no
+ * other offered coding is. As most servers do, a missing header is treated
+ * like an empty one, which only accepts `identity`.
+ *
+ *     negotiateEncoding("gzip, br;q=0.8", ["br", "gzip", "identity"]); // "gzip"
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  offers: string[],
+): string | undefined {
+  const codings = parseAccept(acceptEncoding ?? "");
+  return selectBest(offers, (offer) => {
+    const q = tokenQuality(codings, offer);
+    if (q === undefined && offer.toLowerCase() === "identity") {
+      return 0.001;
+    }
+    return q ?? 0;
+  });
+}
+
+/**
+ * Select the offered charset preferred by an `Accept-Charset` header, or
+ * `undefined` if none is acceptable. Without a header, every charset is
+ * acceptable.
+ *
+ *     negotiateCharset("iso-8859-5, utf-8;q=0.8", ["utf-8"]); // "utf-8"
+ */
+export function negotiateCharset(
+  acceptCharset: string | null,
+  offers: string[],
+): string | undefined {
+  if (acceptCharset === null) return offers[0];
+  const charsets = parseAccept(acceptCharset);
+  return selectBest(offers, (offer) => tokenQuality(charsets, offer) ?? 0);
+}
@@ -0,0 +1,98 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals } from "../testing/asserts.ts";
+import {
+  negotiateCharset,
+  negotiateEncoding,
+  negotiateLanguage,
+  negotiateMediaType,
+  parseAccept,
+} from "./negotiation.ts";
+
+Deno.test("[http/negotiation] parseAccept", function () {
+  assertEquals(
+    parseAccept(
+      'text/html;level=1, Text/Plain; q=0.5; ext=1, a/b;x="1,2";q=0, c/d;q=2, ,',
+    ),
+    [
+      { value: "text/html", q: 1, params: { level: "1" } },
+      { value: "text/plain", q: 0.5, params: {} },
+      { value: "a/b", q: 0, params: { x: "1,2" } },
+    ],
+  );
+  assertEquals(parseAccept(""), []);
+  assertEquals(parseAccept("gzip;q=1.000, br;q=0.001, x;q=0.0001"), [
+    { value: "gzip", q: 1, params: {} },
+    { value: "br", q: 0.001, params: {} },
+  ]);
+});
+
+Deno.test("[http/negotiation] negotiateMediaType", function () {
+  const offers = ["text/html", "application/json", "text/plain"];
+  assertEquals(negotiateMediaType(null, offers), "text/html");
+  assertEquals(
+    negotiateMediaType("application/json, text/html", offers),
+    "text/html",
+  );
+  assertEquals(
+    negotiateMediaType("text/*;q=0.5, application/json", offers),
+    "application/json",
+  );
+  assertEquals(
+    negotiateMediaType("text/*, text/html;q=0.1", offers),
+    "text/plain",
+  );
+  assertEquals(
+    negotiateMediaType("*/*;q=0.1, text/html;q=0", offers),
+    "application/json",
+  );
+  assertEquals(negotiateMediaType("image/png", offers), undefined);
+  assertEquals(negotiateMediaType("", offers), undefined);
+  assertEquals(
+    negotiateMediaType("text/html;level=1, text/html;q=0.1", [
+      "text/html",
+      "text/html;level=1",
+    ]),
+    "text/html;level=1",
+  );
+});
+
+Deno.test("[http/negotiation] negotiateLanguage", function () {
+  assertEquals(
+    negotiateLanguage("fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5", [
+      "en-US",
+      "fr",
+      "de",
+    ]),
+    "fr",
+  );
+  assertEquals(negotiateLanguage("en", ["en-US", "en"]), "en-US");
+  assertEquals(negotiateLanguage("en-GB", ["en"]), undefined);
+  assertEquals(negotiateLanguage("*;q=0.5, de;q=0", ["de", "it"]), "it");
+  assertEquals(negotiateLanguage(null, ["de", "it"]), "de");
+});
+
+Deno.test("[http/negotiation] negotiateEncoding", function () {
+  const offers = ["br", "gzip", "identity"];
+  assertEquals(negotiateEncoding("gzip, br;q=0.8", offers), "gzip");
+  assertEquals(negotiateEncoding("GZIP;q=0.1", offers), "gzip");
+  assertEquals(negotiateEncoding("*", offers), "br");
+  assertEquals(negotiateEncoding("deflate", offers), "identity");
+  assertEquals(negotiateEncoding(null, offers), "identity");
+  assertEquals(negotiateEncoding(null, ["gzip"]), undefined);
+  assertEquals(negotiateEncoding("identity;q=0", ["identity"]), undefined);
+  assertEquals(negotiateEncoding("*;q=0", offers), undefined);
+  assertEquals(negotiateEncoding("*;q=0, identity", offers), "identity");
+});
+
+Deno.test("[http/negotiation] negotiateCharset", function () {
+  assertEquals(
+    negotiateCharset("iso-8859-5, UTF-8;q=0.8", ["utf-8", "iso-8859-5"]),
+    "iso-8859-5",
+  );
+  assertEquals(
+    negotiateCharset("*;q=0.1, utf-8;q=0", ["utf-8", "utf-16"]),
+    "utf-16",
+  );
+  assertEquals(negotiateCharset("utf-16", ["utf-8"]), undefined);
+  assertEquals(negotiateCharset(null, ["utf-8"]), "utf-8");
+});
@@ -0,0 +1,335 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { BufReader } from "../io/bufio.ts";
+import { copy } from "../io/util.ts";
+import { Response, ServerRequest } from "./server.ts";
+import { ClientResponse, HttpClient } from "./client.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+
+/** Headers which only apply to a single connection, as listed in RFC 7230,
+ * section 6.1, and RFC 2616, section 13.5.1. */
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+export interface HealthCheckOptions {
+  /** Path requested on every upstream. Defaults to `"/"`. */
+  path?: string;
+  /** Number of milliseconds between two checks. Defaults to `10000`. */
+  interval?: number;
+  /** Number of milliseconds after which a check fails. Defaults to
+   * `2000`. */
+  timeout?: number;
+}
+
+export interface ReverseProxyOptions {
+  /** Origins of the upstream servers, optionally with a path prefix, such as
+   * `http://10.0.0.1:8080/api`. Requests are distributed to the healthy
+   * upstreams in turn. */
+  upstreams: string[];
+  /** Number of milliseconds allowed to an upstream to respond with headers,
+   * after which the request is answered with `504 Gateway Timeout`. */
+  timeout?: number;
+  /** Check the health of the upstreams periodically. An upstream which fails
+   * to answer a check with a `2xx` or `3xx` status receives no requests
+   * until it passes a check again. Disabled by default. */
+  healthCheck?: HealthCheckOptions;
+  /** Send the `Host` header of the request to the upstream, instead of the
+   * host of the upstream. Defaults to `false`. */
+  preserveHost?: boolean;
+  /** The protocol of the connections accepted by the proxy, reported in the
+   * `Forwarded` and `X-Forwarded-Proto` headers. Defaults to `"http"`. */
+  protocol?: "http" | "https";
+  /** Client used to connect to the upstreams. */
+  client?: HttpClient;
+}
+
+/** Remove the hop-by-hop headers, including those listed by the
+ * `Connection` header, from a copy of `headers`. */
+function endToEndHeaders(headers: Headers): Headers {
+  const result = new Headers(headers);
+  const connection = headers.get("connection");
+  if (connection !== null) {
+    for (const name of connection.split(",")) {
+      result.delete(name.trim());
+    }
+  }
+  for (const name of HOP_BY_HOP_HEADERS) {
+    result.delete(name);
+  }
+  return result;
+}
+
+/** Returns whether the request asks to switch protocols, for example to
+ * WebSocket. */
+function isUpgrade(req: ServerRequest): boolean {
+  const connection = (req.headers.get("connection") ?? "").toLowerCase();
+  return req.headers.has("upgrade") &&
+    connection.split(",").some((token) => token.trim() === "upgrade");
+}
+
+function hasBody(req: ServerRequest): boolean {
+  return (req.contentLength !== null && req.contentLength > 0) ||
+    req.headers.has("transfer-encoding");
+}
+
+function closeConn(conn: Deno.Conn): void {
+  try {
+    conn.close();
+  } catch {
+    // Already closed.
+  }
+}
+
+/** Returns the URL of the request on the upstream. */
+function upstreamURL(upstream: string, url: string): URL {
+  const target = new URL(url, "http://localhost");
+  const base = new URL(upstream);
+  base.pathname = `${base.pathname.replace(/\/$/, "")}${target.pathname}`;
+  base.search = target.search;
+  return base;
+}
+
+/** Format an address as a node of the `Forwarded` header (RFC 7239). */
+function forwardedNode(addr: Deno.Addr): string {
+  if (addr.transport !== "tcp" && addr.transport !== "udp") {
+    return "unknown";
+  }
+  return addr.hostname.includes(":") ? `"[${addr.hostname}]"` : addr.hostname;
+}
+
+/**
+ * A handler which forwards requests to upstream servers, streaming the
+ * bodies in both directions.
+ *
+ *     import { listenAndServe } from "https://deno.land/std/http/server.ts";
+ *     import { ReverseProxy } from "https://deno.land/std/http/proxy.ts";
+ *     const proxy = new ReverseProxy({
+ *       upstreams: ["http://127.0.0.1:8001", "http://127.0.0.1:8002"],
+ *       healthCheck: { path: "/health" },
+ *     });
+ *     listenAndServe(":8000", (req) => proxy.handle(req));
+ *
+ * Hop-by-hop headers are removed, and the `Forwarded`, `X-Forwarded-For`,
+ * `X-Forwarded-Host` and `X-Forwarded-Proto` headers are added. Requests to
+ * switch protocols, such as WebSocket handshakes, are passed through and the
+ * connection is then tunneled to the upstream. If the upstream cannot be
+ * reached, the request is answered with `502 Bad Gateway`.
+ */
+export class ReverseProxy {
+  #upstreams: string[];
+  #healthy: boolean[];
+  #next = 0;
+  #client: HttpClient;
+  #ownsClient: boolean;
+  #options: ReverseProxyOptions;
+  #healthTimer?: number;
+
+  constructor(options: ReverseProxyOptions) {
+    if (options.upstreams.length === 0) {
+      throw new TypeError("At least one upstream is required.");
+    }
+    this.#upstreams = options.upstreams.map((upstream) =>
+      new URL(upstream).href
+    );
+    this.#healthy = this.#upstreams.map(() => true);
+    this.#ownsClient = options.client === undefined;
+    this.#client = options.client ?? new HttpClient();
+    this.#options = options;
+    if (options.healthCheck) {
+      this.#healthTimer = setInterval(() => {
+        this.checkHealth();
+      }, options.healthCheck.interval ?? 10000);
+    }
+  }
+
+  /** The upstreams which passed their last health check. */
+  get healthyUpstreams(): string[] {
+    return this.#upstreams.filter((_, i) => this.#healthy[i]);
+  }
+
+  /** Check the health of every upstream now. */
+  async checkHealth(): Promise<void> {
+    const { path = "/", timeout = 2000 } = this.#options.healthCheck ?? {};
+    await Promise.all(this.#upstreams.map(async (upstream, i) => {
+      try {
+        const res = await this.#client.request(upstreamURL(upstream, path), {
+          redirect: "manual",
+          timeout,
+        });
+        res.close();
+        this.#healthy[i] = res.status >= 200 && res.status < 400;
+      } catch {
+        this.#healthy[i] = false;
+      }
+    }));
+  }
+
+  /** Forward a request to the next healthy upstream and respond with its
+   * response. The returned promise doesn't reject: if the client disconnects
+   * or the upstream fails while the response is sent, the connection to the
+   * client is closed. */
+  async handle(req: ServerRequest): Promise<void> {
+    try {
+      await this.#forward(req);
+    } catch {
+      closeConn(req.conn);
+    }
+  }
+
+  /** Stop the health checks and close the connections to the upstreams. */
+  close(): void {
+    clearInterval(this.#healthTimer);
+    if (this.#ownsClient) {
+      this.#client.close();
+    }
+  }
+
+  async #forward(req: ServerRequest): Promise<void> {
+    const upstream = this.#nextUpstream();
+    if (upstream === undefined) {
+      await req.respond({
+        status: Status.ServiceUnavailable,
+        body: STATUS_TEXT.get(Status.ServiceUnavailable),
+      });
+      return;
+    }
+    const url = upstreamURL(upstream, req.url);
+    const upgrade = isUpgrade(req);
+    const headers = this.#requestHeaders(req);
+    if (upgrade) {
+      headers.set("connection", "upgrade");
+      headers.set("upgrade", req.headers.get("upgrade")!);
+    }
+
+    let res: ClientResponse;
+    try {
+      res = await this.#client.request(url, {
+        method: req.method,
+        headers,
+        body: hasBody(req) ? req.body : undefined,
+        redirect: "manual",
+        timeout: this.#options.timeout,
+      });
+    } catch (e) {
+      const status = e instanceof Deno.errors.TimedOut
+        ? Status.GatewayTimeout
+        : Status.BadGateway;
+      await req.respond({ status, body: STATUS_TEXT.get(status) });
+      return;
+    }
+
+    if (upgrade && res.status === Status.SwitchingProtocols) {
+      await this.#tunnel(req, res);
+      return;
+    }
+    try {
+      await req.respond(this.#response(req, res));
+    } finally {
+      res.close();
+    }
+  }
+
+  #nextUpstream(): string | undefined {
+    for (let i = 0; i < this.#upstreams.length; i++) {
+      const index = (this.#next + i) % this.#upstreams.length;
+      if (this.#healthy[index]) {
+        this.#next = index + 1;
+        return this.#upstreams[index];
+      }
+    }
+    return undefined;
+  }
+
+  #requestHeaders(req: ServerRequest): Headers {
+    const headers = endToEndHeaders(req.headers);
+    const host = req.headers.get("host");
+    const protocol = this.#options.protocol ?? "http";
+    if (!this.#options.preserveHost) {
+      headers.delete("host");
+    }
+    const addr = req.conn.remoteAddr;
+    let forwarded = `for=${forwardedNode(addr)}`;
+    if (host !== null) {
+      forwarded += `;host="${host}"`;
+    }
+    forwarded += `;proto=${protocol}`;
+    headers.append("forwarded", forwarded);
+    if (addr.transport === "tcp" || addr.transport === "udp") {
+      headers.append("x-forwarded-for", addr.hostname);
+    }
+    if (host !== null) {
+      headers.set("x-forwarded-host", host);
+    }
+    headers.set("x-forwarded-proto", protocol);
+    return headers;
+  }
+
+  #response(req: ServerRequest, res: ClientResponse): Response {
+    const headers = endToEndHeaders(res.headers);
+    const trailer = res.headers.get("trailer");
+    if (
+      req.method === "HEAD" || res.status === Status.NoContent ||
+      res.status === Status.NotModified
+    ) {
+      return {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+        body: new Uint8Array(),
+      };
+    }
+    if (trailer !== null && !headers.has("content-length")) {
+      // Forward the trailers once the body has been read.
+      headers.set("transfer-encoding", "chunked");
+      headers.set("trailer", trailer);
+      return {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+        body: res.body,
+        trailers: () => res.trailers,
+      };
+    }
+    return {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+      body: res.body,
+    };
+  }
+
+  /** Send the `101 Switching Protocols` response to the client, then copy the
+   * bytes between the two connections until one of them is closed. */
+  async #tunnel(req: ServerRequest, res: ClientResponse): Promise<void> {
+    const headers = new Headers(res.headers);
+    headers.delete("connection");
+    headers.delete("upgrade");
+    let client: { conn: Deno.Conn; r: BufReader };
+    try {
+      client = await req.upgrade(
+        res.headers.get("upgrade") ?? req.headers.get("upgrade")!,
+        headers,
+      );
+    } catch {
+      closeConn(req.conn);
+      closeConn(res.conn);
+      return;
+    }
+    const close = () => {
+      closeConn(client.conn);
+      closeConn(res.conn);
+    };
+    await Promise.all([
+      copy(client.r, res.conn).then(close, close),
+      copy(res.r, client.conn).then(close, close),
+    ]);
+  }
+}
@@ -0,0 +1,260 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals } from "../testing/asserts.ts";
+import { BufReader, BufWriter } from "../io/bufio.ts";
+import { StringReader } from "../io/readers.ts";
+import { readAll, writeAll } from "../io/util.ts";
+import { acceptWebSocket, createWebSocket, handshake } from "../ws/mod.ts";
+import { HttpClient } from "./client.ts";
+import { ReverseProxy, ReverseProxyOptions } from "./proxy.ts";
+import { serve, Server, ServerRequest } from "./server.ts";
+
+const proxyPort = 8128;
+const upstreamPorts = [8129, 8130];
+const upstreams = upstreamPorts.map((port) => `http://127.0.0.1:${port}`);
+
+function listen(
+  port: number,
+  handler: (req: ServerRequest) => Promise<void>,
+): { server: Server; done: Promise<void> } {
+  const server = serve({ hostname: "127.0.0.1", port });
+  const done = (async () => {
+    for await (const req of server) {
+      handler(req);
+    }
+  })();
+  return { server, done };
+}
+
+/** Start the upstreams and a proxy in front of them, and run `fn` with a
+ * client of the proxy. */
+async function withProxy(
+  options: Omit<ReverseProxyOptions, "upstreams"> & { upstreams?: string[] },
+  handler: (req: ServerRequest, upstream: number) => Promise<void>,
+  fn: (client: HttpClient, proxy: ReverseProxy) => Promise<void>,
+): Promise<void> {
+  const servers = upstreamPorts.map((port, i) =>
+    listen(port, (req) => handler(req, i))
+  );
+  const proxy = new ReverseProxy({ upstreams, ...options });
+  const front = listen(proxyPort, (req) => proxy.handle(req));
+  const client = new HttpClient();
+  try {
+    await fn(client, proxy);
+  } finally {
+    client.close();
+    proxy.close();
+    for (const { server, done } of [front, ...servers]) {
+      server.close();
+      await done;
+    }
+  }
+}
+
+const proxyURL = `http://127.0.0.1:${proxyPort}`;
+
+Deno.test("[http/proxy] round-robin across upstreams", async function () {
+  await withProxy({}, async (req, upstream) => {
+    await req.respond({ body: `${upstream} ${req.method} ${req.url}` });
+  }, async (client) => {
+    const bodies = [];
+    for (let i = 0; i < 4; i++) {
+      bodies.push(await (await client.request(`${proxyURL}/a?b=c`)).text());
+    }
+    assertEquals(bodies, [
+      "0 GET /a?b=c",
+      "1 GET /a?b=c",
+      "0 GET /a?b=c",
+      "1 GET /a?b=c",
+    ]);
+  });
+});
+
+Deno.test("[http/proxy] forwards headers", async function () {
+  let received = new Headers();
+  await withProxy({}, async (req) => {
+    received = req.headers;
+    await req.respond({
+      headers: new Headers({
+        connection: "x-hop",
+        "x-hop": "1",
+        "keep-alive": "timeout=5",
+        "x-end": "1",
+      }),
+      body: "ok",
+    });
+  }, async (client) => {
+    const res = await client.request(`${proxyURL}/`, {
+      headers: {
+        connection: "x-secret",
+        "x-secret": "1",
+        "proxy-authorization": "Basic abc",
+        "x-forwarded-for": "10.0.0.1",
+        "x-custom": "value",
+      },
+    });
+    assertEquals(await res.text(), "ok");
+    assertEquals(res.headers.get("x-end"), "1");
+    assertEquals(res.headers.has("x-hop"), false);
+    assertEquals(res.headers.has("keep-alive"), false);
+  });
+  assertEquals(received.get("x-custom"), "value");
+  assertEquals(received.has("x-secret"), false);
+  assertEquals(received.has("proxy-authorization"), false);
+  assertEquals(received.get("host"), `127.0.0.1:${upstreamPorts[0]}`);
+  assertEquals(received.get("x-forwarded-for"), "10.0.0.1, 127.0.0.1");
+  assertEquals(received.get("x-forwarded-host"), `127.0.0.1:${proxyPort}`);
+  assertEquals(received.get("x-forwarded-proto"), "http");
+  assertEquals(
+    received.get("forwarded"),
+    `for=127.0.0.1;host="127.0.0.1:${proxyPort}";proto=http`,
+  );
+});
+
+Deno.test("[http/proxy] streams bodies and trailers", async function () {
+  await withProxy({}, async (req) => {
+    const body = new TextDecoder().decode(await readAll(req.body));
+    await req.respond({
+      headers: new Headers({
+        "transfer-encoding": "chunked",
+        trailer: "x-length",
+      }),
+      body: new StringReader(body.toUpperCase()),
+      trailers: () => new Headers({ "x-length": `${body.length}` }),
+    });
+  }, async (client) => {
+    const res = await client.request(`${proxyURL}/`, {
+      method: "POST",
+      body: new StringReader("streamed"),
+    });
+    assertEquals(await res.text(), "STREAMED");
+    assertEquals(res.trailers.get("x-length"), "8");
+  });
+});
+
+Deno.test("[http/proxy] unreachable upstream", async function () {
+  const proxy = new ReverseProxy({ upstreams: ["http://127.0.0.1:8131"] });
+  const front = listen(proxyPort, (req) => proxy.handle(req));
+  const client = new HttpClient();
+  try {
+    const res = await client.request(`${proxyURL}/`);
+    assertEquals(res.status, 502);
+    assertEquals(await res.text(), "Bad Gateway");
+  } finally {
+    client.close();
+    proxy.close();
+    front.server.close();
+    await front.done;
+  }
+});
+
+Deno.test("[http/proxy] client aborting mid-response", async function () {
+  // An endless response body.
+  const chunk = new Uint8Array(64 * 1024).fill(97);
+  const body = {
+    read(p: Uint8Array): Promise<number> {
+      const n = Math.min(p.byteLength, chunk.byteLength);
+      p.set(chunk.subarray(0, n));
+      return Promise.resolve(n);
+    },
+  };
+  const upstream = listen(upstreamPorts[0], async (req) => {
+    await req.respond({ body }).catch(() => {});
+  });
+  const proxy = new ReverseProxy({ upstreams: [upstreams[0]] });
+  const handled: Promise<void>[] = [];
+  const front = listen(proxyPort, (req) => {
+    const p = proxy.handle(req);
+    handled.push(p);
+    return p;
+  });
+  try {
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: proxyPort });
+    await writeAll(
+      conn,
+      new TextEncoder().encode("GET / HTTP/1.1\r\nhost: localhost\r\n\r\n"),
+    );
+    await conn.read(new Uint8Array(1024));
+    conn.close();
+    // Resolves instead of rejecting.
+    await handled[0];
+  } finally {
+    proxy.close();
+    for (const { server, done } of [front, upstream]) {
+      server.close();
+      await done;
+    }
+  }
+});
+
+Deno.test("[http/proxy] health checks", async function () {
+  await withProxy(
+    { healthCheck: { path: "/health", interval: 60000 } },
+    async (req, upstream) => {
+      await req.respond({
+        status: req.url === "/health" && upstream === 0 ? 500 : 200,
+        body: `${upstream}`,
+      });
+    },
+    async (client, proxy) => {
+      await proxy.checkHealth();
+      assertEquals(proxy.healthyUpstreams, [`${upstreams[1]}/`]);
+      for (let i = 0; i < 3; i++) {
+        assertEquals(await (await client.request(`${proxyURL}/`)).text(), "1");
+      }
+    },
+  );
+});
+
+Deno.test("[http/proxy] tunnels WebSocket connections", async function () {
+  // The upstream is closed without waiting for its loop: acceptWebSocket()
+  // never responds to the request.
+  const upstream = serve({ hostname: "127.0.0.1", port: upstreamPorts[0] });
+  const proxy = new ReverseProxy({ upstreams: [upstreams[0]] });
+  const front = listen(proxyPort, (req) => proxy.handle(req));
+  (async () => {
+    for await (const req of upstream) {
+      const ws = await acceptWebSocket({
+        conn: req.conn,
+        bufReader: req.r,
+        bufWriter: req.w,
+        headers: req.headers,
+      });
+      for await (const event of ws) {
+        if (typeof event === "string") {
+          await ws.send(`echo: ${event}`);
+          await ws.close();
+        }
+      }
+    }
+  })();
+  try {
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: proxyPort });
+    const bufReader = new BufReader(conn);
+    const bufWriter = new BufWriter(conn);
+    await handshake(
+      new URL(`ws://127.0.0.1:${proxyPort}/ws`),
+      new Headers(),
+      bufReader,
+      bufWriter,
+    );
+    const ws = createWebSocket({
+      conn,
+      bufReader,
+      bufWriter,
+      mask: new Uint8Array([1, 2, 3, 4]),
+    });
+    await ws.send("hello");
+    const messages = [];
+    for await (const event of ws) {
+      if (typeof event === "string") {
+        messages.push(event);
+      }
+    }
+    assertEquals(messages, ["echo: hello"]);
+  } finally {
+    proxy.close();
+    front.server.close();
+    await front.done;
+    upstream.close();
+  }
+});
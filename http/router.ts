@@ -0,0 +1,342 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { ServerRequest } from "./server.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+
+/** A function which handles a matched request by calling `req.respond()`. */
+export type RouteHandler = (req: ServerRequest) => void | Promise<void>;
+
+/**
+ * How a router treats a trailing slash at the end of the request path.
+ *
+ * - `"strict"`: `/users` and `/users/` are different paths.
+ * - `"ignore"`: `/users` and `/users/` match the same routes.
+ * - `"redirect"`: a request for the other form is answered with a
+ *   `308 Permanent Redirect` to the form that was registered.
+ */
+export type TrailingSlashPolicy = "strict" | "ignore" | "redirect";
+
+export interface RouterOptions {
+  /** Trailing slash policy of the routes of this router. Defaults to
+   * `"ignore"`. */
+  trailingSlash?: TrailingSlashPolicy;
+  /** Handler called when no route matches the request path. Defaults to a
+   * plain `404 Not Found` response. */
+  notFound?: RouteHandler;
+}
+
+/** The result of matching a method and a path against a router. */
+export interface RouteMatch {
+  handler: RouteHandler;
+  params: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  regexp: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+interface Mount {
+  regexp: RegExp;
+  keys: string[];
+  router: Router;
+}
+
+interface Resolution {
+  match?: RouteMatch;
+  allowed: Set<string>;
+}
+
+const ANY_METHOD = "*";
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a path pattern into a regular expression. Supported segments are
+ * literals, named parameters (`:id`) and a trailing wildcard (`*`) which
+ * captures the rest of the path as the `*` parameter.
+ */
+function compilePattern(
+  pattern: string,
+  end: boolean,
+  trailingSlash: TrailingSlashPolicy,
+): { regexp: RegExp; keys: string[] } {
+  if (!pattern.startsWith("/")) {
+    throw new TypeError(`Route pattern must start with "/": "${pattern}".`);
+  }
+  const keys: string[] = [];
+  const segments = pattern.split("/").slice(1);
+  let source = "";
+  segments.forEach((segment, i) => {
+    if (segment === "*") {
+      if (i !== segments.length - 1) {
+        throw new TypeError(
+          `Wildcard must be the last segment of the pattern: "${pattern}".`,
+        );
+      }
+      keys.push("*");
+      source += "(?:/(.*))?";
+    } else if (segment.startsWith(":")) {
+      const name = segment.slice(1);
+      if (!/^\w+$/.test(name)) {
+        throw new TypeError(
+          `Invalid parameter name "${name}" in pattern: "${pattern}".`,
+        );
+      }
+      if (keys.includes(name)) {
+        throw new TypeError(
+          `Duplicate parameter name "${name}" in pattern: "${pattern}".`,
+        );
+      }
+      keys.push(name);
+      source += "/([^/]+)";
+    } else {
+      source += `/${escapeRegExp(segment)}`;
+    }
+  });
+  if (!end) {
+    // A mount prefix never ends with a slash and must stop at a segment
+    // boundary.
+    source = source.replace(/\/$/, "");
+    return { regexp: new RegExp(`^${source}(?=/|$)`), keys };
+  }
+  if (trailingSlash === "ignore" && keys[keys.length - 1] !== "*") {
+    source = source.replace(/\/$/, "");
+    source += "/?";
+  }
+  return { regexp: new RegExp(`^${source}$`), keys };
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function extractParams(
+  keys: string[],
+  match: RegExpExecArray,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    params[key] = decodeParam(match[i + 1] ?? "");
+  });
+  return params;
+}
+
+/** Return the path part of a request target, without the query string. */
+function pathnameOf(url: string): string {
+  try {
+    return new URL(url, "http://localhost").pathname;
+  } catch {
+    return url.split("?")[0];
+  }
+}
+
+/**
+ * Dispatch `ServerRequest`s to handlers by method and path pattern.
+ *
+ *     import { serve } from "https://deno.land/std/http/server.ts";
+ *     import { Router } from "https://deno.land/std/http/router.ts";
+ *     const router = new Router();
+ *     router.get("/users/:id", (req) => {
+ *       req.respond({ body: `user ${req.params.id}` });
+ *     });
+ *     for await (const req of serve({ port: 8000 })) {
+ *       router.handle(req);
+ *     }
+ *
+ * Parameters of the matched pattern are exposed on `req.params`. When the
+ * path matches but the method does not, the router answers with
+ * `405 Method Not Allowed` and an `Allow` header. A `GET` route also
+ * handles `HEAD` requests unless a `HEAD` route is registered.
+ */
+export class Router {
+  #routes: Route[] = [];
+  #mounts: Mount[] = [];
+  #trailingSlash: TrailingSlashPolicy;
+  #notFound?: RouteHandler;
+
+  constructor(options: RouterOptions = {}) {
+    this.#trailingSlash = options.trailingSlash ?? "ignore";
+    this.#notFound = options.notFound;
+  }
+
+  /** Register a handler for the given method(s) and path pattern. */
+  add(
+    method: string | string[],
+    pattern: string,
+    handler: RouteHandler,
+  ): this {
+    const methods = Array.isArray(method) ? method : [method];
+    const { regexp, keys } = compilePattern(
+      pattern,
+      true,
+      this.#trailingSlash,
+    );
+    for (const m of methods) {
+      this.#routes.push({ method: m.toUpperCase(), regexp, keys, handler });
+    }
+    return this;
+  }
+
+  get(pattern: string, handler: RouteHandler): this {
+    return this.add("GET", pattern, handler);
+  }
+
+  head(pattern: string, handler: RouteHandler): this {
+    return this.add("HEAD", pattern, handler);
+  }
+
+  post(pattern: string, handler: RouteHandler): this {
+    return this.add("POST", pattern, handler);
+  }
+
+  put(pattern: string, handler: RouteHandler): this {
+    return this.add("PUT", pattern, handler);
+  }
+
+  patch(pattern: string, handler: RouteHandler): this {
+    return this.add("PATCH", pattern, handler);
+  }
+
+  delete(pattern: string, handler: RouteHandler): this {
+    return this.add("DELETE", pattern, handler);
+  }
+
+  options(pattern: string, handler: RouteHandler): this {
+    return this.add("OPTIONS", pattern, handler);
+  }
+
+  /** Register a handler for every method on the given path pattern. */
+  all(pattern: string, handler: RouteHandler): this {
+    return this.add(ANY_METHOD, pattern, handler);
+  }
+
+  /**
+   * Mount a sub-router under a path prefix. The prefix is stripped from the
+   * path before it is matched against the routes of the sub-router. The
+   * prefix may contain parameters, which are merged into `req.params`.
+   */
+  mount(prefix: string, router: Router): this {
+    if (router === this) {
+      throw new TypeError("A router cannot be mounted on itself.");
+    }
+    const { regexp, keys } = compilePattern(prefix, false, "strict");
+    this.#mounts.push({ regexp, keys, router });
+    return this;
+  }
+
+  /** Find the handler and the parameters for the given method and path. */
+  match(method: string, path: string): RouteMatch | undefined {
+    return this.#resolve(method.toUpperCase(), path).match;
+  }
+
+  /**
+   * Dispatch the request to the matching handler, or respond with `404`,
+   * `405` or a trailing slash redirect.
+   */
+  async handle(req: ServerRequest): Promise<void> {
+    const method = req.method.toUpperCase();
+    const path = pathnameOf(req.url);
+    const { match, allowed } = this.#resolve(method, path);
+    if (match) {
+      req.params = match.params;
+      await match.handler(req);
+      return;
+    }
+    if (allowed.size > 0) {
+      const headers = new Headers({ allow: [...allowed].sort().join(", ") });
+      if (method === "OPTIONS") {
+        await req.respond({ status: Status.NoContent, headers });
+      } else {
+        await req.respond({
+          status: Status.MethodNotAllowed,
+          headers,
+          body: STATUS_TEXT.get(Status.MethodNotAllowed),
+        });
+      }
+      return;
+    }
+    if (this.#trailingSlash === "redirect" && path !== "/") {
+      const alternate = path.endsWith("/") ? path.slice(0, -1) : `${path}/`;
+      const other = this.#resolve(method, alternate);
+      if (other.match || other.allowed.size > 0) {
+        const query = req.url.includes("?")
+          ? req.url.slice(req.url.indexOf("?"))
+          : "";
+        await req.respond({
+          status: Status.PermanentRedirect,
+          headers: new Headers({ location: `${alternate}${query}` }),
+        });
+        return;
+      }
+    }
+    if (this.#notFound) {
+      await this.#notFound(req);
+      return;
+    }
+    await req.respond({
+      status: Status.NotFound,
+      body: STATUS_TEXT.get(Status.NotFound),
+    });
+  }
+
+  #resolve(method: string, path: string): Resolution {
+    const allowed = new Set<string>();
+    let match: RouteMatch | undefined;
+    let getMatch: RouteMatch | undefined;
+    for (const route of this.#routes) {
+      const m = route.regexp.exec(path);
+      if (m === null) continue;
+      if (route.method === ANY_METHOD) {
+        match ??= {
+          handler: route.handler,
+          params: extractParams(route.keys, m),
+        };
+        continue;
+      }
+      allowed.add(route.method);
+      if (route.method === "GET") {
+        allowed.add("HEAD");
+        getMatch ??= {
+          handler: route.handler,
+          params: extractParams(route.keys, m),
+        };
+      }
+      if (!match && route.method === method) {
+        match = {
+          handler: route.handler,
+          params: extractParams(route.keys, m),
+        };
+      }
+    }
+    if (!match && method === "HEAD" && getMatch) {
+      match = getMatch;
+    }
+    if (match) return { match, allowed };
+
+    for (const mount of this.#mounts) {
+      const m = mount.regexp.exec(path);
+      if (m === null) continue;
+      const rest = path.slice(m[0].length) || "/";
+      const sub = mount.router.#resolve(method, rest);
+      if (sub.match) {
+        return {
+          match: {
+            handler: sub.match.handler,
+            params: { ...extractParams(mount.keys, m), ...sub.match.params },
+          },
+          allowed,
+        };
+      }
+      for (const a of sub.allowed) allowed.add(a);
+    }
+    return { allowed };
+  }
+}
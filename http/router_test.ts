@@ -0,0 +1,190 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrows } from "../testing/asserts.ts";
+import { BufWriter } from "../io/bufio.ts";
+import { Buffer } from "../io/buffer.ts";
+import { ServerRequest } from "./server.ts";
+import { Router } from "./router.ts";
+import { mockConn } from "./_mock_conn.ts";
+
+function createRequest(
+  method: string,
+  url: string,
+): { req: ServerRequest; output: () => string } {
+  const buf = new Buffer();
+  const req = new ServerRequest();
+  req.method = method;
+  req.url = url;
+  req.headers = new Headers();
+  req.conn = mockConn();
+  req.w = new BufWriter(buf);
+  return { req, output: () => new TextDecoder().decode(buf.bytes()) };
+}
+
+function echoParams(req: ServerRequest) {
+  return req.respond({ body: JSON.stringify(req.params) });
+}
+
+Deno.test("[http/router] match static and parameterized routes", function () {
+  const router = new Router();
+  router.get("/", echoParams);
+  router.get("/users/:id", echoParams);
+  router.get("/users/:id/posts/:postId", echoParams);
+
+  assertEquals(router.match("GET", "/")?.params, {});
+  assertEquals(router.match("GET", "/users/42")?.params, { id: "42" });
+  assertEquals(router.match("get", "/users/42/posts/7")?.params, {
+    id: "42",
+    postId: "7",
+  });
+  assertEquals(router.match("GET", "/users/a%20b")?.params, { id: "a b" });
+  assertEquals(router.match("GET", "/users"), undefined);
+  assertEquals(router.match("POST", "/users/42"), undefined);
+});
+
+Deno.test("[http/router] wildcard captures the rest of the path", function () {
+  const router = new Router();
+  router.get("/static/*", echoParams);
+  assertEquals(router.match("GET", "/static/css/main.css")?.params, {
+    "*": "css/main.css",
+  });
+  assertEquals(router.match("GET", "/static")?.params, { "*": "" });
+  assertEquals(router.match("GET", "/statics/a"), undefined);
+});
+
+Deno.test("[http/router] invalid patterns throw", function () {
+  const router = new Router();
+  assertThrows(() => router.get("users", echoParams), TypeError, "start");
+  assertThrows(() => router.get("/*/a", echoParams), TypeError, "Wildcard");
+  assertThrows(
+    () => router.get("/:id/:id", echoParams),
+    TypeError,
+    "Duplicate",
+  );
+});
+
+Deno.test("[http/router] trailing slash policies", function () {
+  const ignore = new Router();
+  ignore.get("/users", echoParams);
+  assertEquals(ignore.match("GET", "/users/")?.params, {});
+
+  const strict = new Router({ trailingSlash: "strict" });
+  strict.get("/users", echoParams);
+  assertEquals(strict.match("GET", "/users")?.params, {});
+  assertEquals(strict.match("GET", "/users/"), undefined);
+});
+
+Deno.test("[http/router] redirect on trailing slash", async function () {
+  const router = new Router({ trailingSlash: "redirect" });
+  router.get("/users", echoParams);
+  const { req, output } = createRequest("GET", "/users/?page=2");
+  await router.handle(req);
+  assertEquals(
+    output(),
+    "HTTP/1.1 308 Permanent Redirect\r\ncontent-length: 0\r\n" +
+      "location: /users?page=2\r\n\r\n",
+  );
+});
+
+Deno.test("[http/router] handle sets params on the request", async function () {
+  const router = new Router();
+  router.get("/users/:id", echoParams);
+  const { req, output } = createRequest("GET", "/users/deno?x=1");
+  await router.handle(req);
+  assertEquals(req.params, { id: "deno" });
+  assertEquals(
+    output(),
+    'HTTP/1.1 200 OK\r\ncontent-length: 13\r\n\r\n{"id":"deno"}',
+  );
+});
+
+Deno.test("[http/router] responds 404 and 405", async function () {
+  const router = new Router();
+  router.get("/users", echoParams);
+  router.post("/users", echoParams);
+
+  {
+    const { req, output } = createRequest("GET", "/nothing");
+    await router.handle(req);
+    assertEquals(
+      output(),
+      "HTTP/1.1 404 Not Found\r\ncontent-length: 9\r\n\r\nNot Found",
+    );
+  }
+  {
+    const { req, output } = createRequest("DELETE", "/users");
+    await router.handle(req);
+    assertEquals(
+      output(),
+      "HTTP/1.1 405 Method Not Allowed\r\ncontent-length: 18\r\n" +
+        "allow: GET, HEAD, POST\r\n\r\nMethod Not Allowed",
+    );
+  }
+  {
+    const { req, output } = createRequest("OPTIONS", "/users");
+    await router.handle(req);
+    assertEquals(
+      output(),
+      "HTTP/1.1 204 No Content\r\ncontent-length: 0\r\n" +
+        "allow: GET, HEAD, POST\r\n\r\n",
+    );
+  }
+});
+
+Deno.test("[http/router] custom not found handler", async function () {
+  const router = new Router({
+    notFound: (req) => req.respond({ status: 404, body: "nope" }),
+  });
+  const { req, output } = createRequest("GET", "/nothing");
+  await router.handle(req);
+  assertEquals(
+    output(),
+    "HTTP/1.1 404 Not Found\r\ncontent-length: 4\r\n\r\nnope",
+  );
+});
+
+Deno.test("[http/router] HEAD falls back to GET", function () {
+  const router = new Router();
+  const get = () => {};
+  const head = () => {};
+  router.get("/a", get);
+  router.get("/b", get);
+  router.head("/b", head);
+  assertEquals(router.match("HEAD", "/a")?.handler, get);
+  assertEquals(router.match("HEAD", "/b")?.handler, head);
+});
+
+Deno.test("[http/router] all() matches any method", function () {
+  const router = new Router();
+  const handler = () => {};
+  router.all("/any", handler);
+  assertEquals(router.match("PATCH", "/any")?.handler, handler);
+  assertEquals(router.match("GET", "/any")?.handler, handler);
+});
+
+Deno.test("[http/router] mount sub-router under a prefix", async function () {
+  const users = new Router();
+  users.get("/", echoParams);
+  users.get("/:id", echoParams);
+  users.delete("/:id", echoParams);
+
+  const router = new Router();
+  router.mount("/orgs/:org/users", users);
+
+  assertEquals(router.match("GET", "/orgs/deno/users")?.params, {
+    org: "deno",
+  });
+  assertEquals(router.match("GET", "/orgs/deno/users/1")?.params, {
+    org: "deno",
+    id: "1",
+  });
+  assertEquals(router.match("GET", "/orgs/deno/usersx"), undefined);
+
+  const { req, output } = createRequest("PUT", "/orgs/deno/users/1");
+  await router.handle(req);
+  assertEquals(
+    output(),
+    "HTTP/1.1 405 Method Not Allowed\r\ncontent-length: 18\r\n" +
+      "allow: DELETE, GET, HEAD\r\n\r\nMethod Not Allowed",
+  );
+  assertThrows(() => router.mount("/self", router), TypeError);
+});
@@ -1,14 +1,100 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 import { BufReader, BufWriter } from "../io/bufio.ts";
 import { assert } from "../_util/assert.ts";
-import { Deferred, deferred, MuxAsyncIterator } from "../async/mod.ts";
+import {
+  deadline,
+  DeadlineError,
+  Deferred,
+  deferred,
+  MuxAsyncIterator,
+} from "../async/mod.ts";
 import {
   bodyReader,
+  bodyTooLarge,
   chunkedBodyReader,
   emptyReader,
+  limitedReader,
   readRequest,
   writeResponse,
 } from "./_io.ts";
+import { HttpError } from "./errors.ts";
+import { Status, STATUS_TEXT } from "./http_status.ts";
+import { readAll } from "../io/util.ts";
+import {
+  MultipartFormData,
+  MultipartReader,
+  ReadFormOptions,
+} from "../mime/multipart.ts";
+
+/** Default limit of the body parsers of `ServerRequest`: 1 MiB. */
+const DEFAULT_BODY_LIMIT = 1048576;
+
+const encoder = new TextEncoder();
+
+/** Options of the body parsers of `ServerRequest`. */
+export interface BodyOptions {
+  /** Maximum number of bytes of the body. Reading a larger body throws an
+   * `HttpError` with status 413. Defaults to `maxBodySize` of the server, or
+   * to 1 MiB. */
+  limit?: number;
+}
+
+/** Options of `ServerRequest.form()`. The `maxMemory`, `dir`, `prefix` and
+ * `suffix` options apply to the files of a multipart body, whose size is only
+ * limited by `limit` or `maxBodySize` of the server. */
+export interface FormOptions extends BodyOptions, ReadFormOptions {}
+
+/** A hook of `ServerRequest.respond()`, called with the response and a
+ * function passing a response on to the hooks added before, and eventually
+ * writing it. A hook may replace the response, or not pass it on. */
+export type RespondHook = (
+  r: Response,
+  next: (r: Response) => Promise<void>,
+) => Promise<void>;
+
+/** Parses a media type such as `text/plain; charset=utf-8` into its
+ * lowercased essence and its parameters. */
+function parseMediaType(
+  value: string,
+): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const index = param.indexOf("=");
+    if (index === -1) continue;
+    const key = param.slice(0, index).trim().toLowerCase();
+    let val = param.slice(index + 1).trim();
+    if (val.startsWith('"') && val.endsWith('"') && val.length > 1) {
+      val = val.slice(1, -1);
+    }
+    params[key] = val;
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/** Exposes URL encoded fields with the interface of multipart form data. */
+function urlEncodedFormData(params: URLSearchParams): MultipartFormData {
+  const valueMap = new Map<string, string[]>();
+  for (const [key, value] of params) {
+    const values = valueMap.get(key);
+    if (values !== undefined) {
+      values.push(value);
+    } else {
+      valueMap.set(key, [value]);
+    }
+  }
+  function* entries(): IterableIterator<[string, string[]]> {
+    yield* valueMap;
+  }
+  return {
+    files: () => undefined,
+    values: (key) => valueMap.get(key),
+    entries,
+    [Symbol.iterator]: entries,
+    removeAll: () => Promise.resolve(),
+  };
+}
+
 export class ServerRequest {
   url!: string;
   method!: string;
@@ -19,11 +105,20 @@ export class ServerRequest {
   conn!: Deno.Conn;
   r!: BufReader;
   w!: BufWriter;
+  /** Path parameters extracted by a `Router` when the request was matched. */
+  params: Record<string, string> = {};
+  /** Maximum number of bytes which may be read from `body`, if any. Reading
+   * past it throws an `HttpError` with status 413. */
+  maxBodySize?: number;
 
   #done: Deferred<Error | undefined> = deferred();
   #contentLength?: number | null = undefined;
   #body?: Deno.Reader = undefined;
   #finalized = false;
+  #bodyUsed = false;
+  #continueSent = false;
+  #upgraded = false;
+  #respondHooks: RespondHook[] = [];
 
   get done(): Promise<Error | undefined> {
     return this.#done.then((e) => e);
@@ -59,7 +154,11 @@ export class ServerRequest {
   get body(): Deno.Reader {
     if (!this.#body) {
       if (this.contentLength != null) {
-        this.#body = bodyReader(this.contentLength, this.r);
+        this.#body = bodyReader(
+          this.contentLength,
+          this.r,
+          this.maxBodySize,
+        );
       } else {
         const transferEncoding = this.headers.get("transfer-encoding");
         if (transferEncoding != null) {
@@ -70,17 +169,246 @@ export class ServerRequest {
             parts.includes("chunked"),
             'transfer-encoding must include "chunked" if content-length is not set',
           );
-          this.#body = chunkedBodyReader(this.headers, this.r);
+          this.#body = chunkedBodyReader(
+            this.headers,
+            this.r,
+            this.maxBodySize,
+          );
         } else {
           // Neither content-length nor transfer-encoding: chunked
           this.#body = emptyReader();
         }
       }
+      if (this.#awaitsContinue()) {
+        this.#body = this.#continueReader(this.#body);
+      }
     }
     return this.#body;
   }
 
+  /** Whether the connection was taken over with `upgrade()`. */
+  get upgraded(): boolean {
+    return this.#upgraded;
+  }
+
+  /**
+   * Switch the connection to another protocol: respond with `101 Switching
+   * Protocols` and return the connection with its buffered reader and writer.
+   * The server stops reading from and tracking the connection, which must be
+   * closed by the caller.
+   *
+   *     const { conn, r, w } = await req.upgrade("example/1", new Headers({
+   *       "x-session": "1",
+   *     }));
+   *
+   * Throws an `HttpError` with status 400 if the request does not ask to
+   * switch to `protocol`.
+   */
+  async upgrade(
+    protocol: string,
+    headers?: Headers,
+  ): Promise<{ conn: Deno.Conn; r: BufReader; w: BufWriter }> {
+    const connection = (this.headers.get("connection") ?? "").toLowerCase();
+    const protocols = (this.headers.get("upgrade") ?? "").toLowerCase();
+    if (
+      !connection.split(",").some((token) => token.trim() === "upgrade") ||
+      !protocols.split(",").some((token) =>
+        token.trim() === protocol.toLowerCase()
+      )
+    ) {
+      throw new HttpError(
+        Status.BadRequest,
+        `The request does not ask to upgrade to "${protocol}".`,
+      );
+    }
+    const responseHeaders = new Headers(headers);
+    responseHeaders.set("connection", "upgrade");
+    responseHeaders.set("upgrade", protocol);
+    // writeResponse() would add a body, which 1xx responses cannot have.
+    let head = `HTTP/1.1 ${Status.SwitchingProtocols} ${
+      STATUS_TEXT.get(Status.SwitchingProtocols)
+    }\r\n`;
+    for (const [key, value] of responseHeaders) {
+      head += `${key}: ${value}\r\n`;
+    }
+    head += "\r\n";
+    this.#upgraded = true;
+    try {
+      await this.w.write(encoder.encode(head));
+      await this.w.flush();
+    } catch (e) {
+      try {
+        this.conn.close();
+      } catch {
+        // Already closed.
+      }
+      this.#done.resolve(e);
+      throw e;
+    }
+    this.#done.resolve(undefined);
+    return { conn: this.conn, r: this.r, w: this.w };
+  }
+
+  /** Whether the client waits for `100 Continue` before sending the body. */
+  #awaitsContinue(): boolean {
+    return !this.#continueSent && this.protoMajor === 1 &&
+      this.protoMinor >= 1 &&
+      this.headers.get("expect")?.toLowerCase() === "100-continue" &&
+      ((this.contentLength ?? 0) > 0 || this.headers.has("transfer-encoding"));
+  }
+
+  /** Send `100 Continue` before the body is read for the first time. */
+  #continueReader(r: Deno.Reader): Deno.Reader {
+    return {
+      read: async (p: Uint8Array): Promise<number | null> => {
+        if (!this.#continueSent) {
+          this.#continueSent = true;
+          await this.w.write(encoder.encode("HTTP/1.1 100 Continue\r\n\r\n"));
+          await this.w.flush();
+        }
+        return r.read(p);
+      },
+    };
+  }
+
+  /** Whether the body was consumed by one of `arrayBuffer()`, `text()`,
+   * `json()` or `form()`. */
+  get bodyUsed(): boolean {
+    return this.#bodyUsed;
+  }
+
+  /** Read the whole body. */
+  async arrayBuffer(options: BodyOptions = {}): Promise<ArrayBuffer> {
+    const bytes = await this.#readBody(
+      options.limit ?? this.maxBodySize ?? DEFAULT_BODY_LIMIT,
+    );
+    return bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength,
+    );
+  }
+
+  /** Read the whole body as text, decoded with the charset of the
+   * `Content-Type` header (UTF-8 by default). */
+  async text(options: BodyOptions = {}): Promise<string> {
+    const decoder = this.#decoder();
+    const bytes = await this.#readBody(
+      options.limit ?? this.maxBodySize ?? DEFAULT_BODY_LIMIT,
+    );
+    return decoder.decode(bytes);
+  }
+
+  /** Read the whole body as JSON. An invalid body throws an `HttpError` with
+   * status 400. The value is `unknown`, to be validated by the caller. */
+  async json(options: BodyOptions = {}): Promise<unknown> {
+    const text = await this.text(options);
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      throw new HttpError(
+        Status.BadRequest,
+        `Invalid JSON body: ${e.message}`,
+      );
+    }
+  }
+
+  /**
+   * Read an `application/x-www-form-urlencoded` or `multipart/form-data`
+   * body. Other content types throw an `HttpError` with status 415.
+   *
+   *     const form = await req.form();
+   *     const name = form.values("name")?.[0];
+   *     const [avatar] = form.files("avatar") ?? [];
+   *     await form.removeAll();
+   */
+  async form(options: FormOptions = {}): Promise<MultipartFormData> {
+    const { type, params } = parseMediaType(
+      this.headers.get("content-type") ?? "",
+    );
+    if (type === "application/x-www-form-urlencoded") {
+      return urlEncodedFormData(new URLSearchParams(await this.text(options)));
+    }
+    if (type !== "multipart/form-data") {
+      throw new HttpError(
+        Status.UnsupportedMediaType,
+        `Unsupported form content type "${type}".`,
+      );
+    }
+    if (!params.boundary) {
+      throw new HttpError(
+        Status.BadRequest,
+        "Missing boundary of multipart body.",
+      );
+    }
+    const limit = options.limit ?? this.maxBodySize;
+    this.#consume(limit);
+    const body = limit === undefined
+      ? this.body
+      : limitedReader(this.body, limit);
+    return new MultipartReader(body, params.boundary).readForm(options);
+  }
+
+  /** Mark the body as consumed, throwing if it already was or if its
+   * `Content-Length` exceeds `limit`. */
+  #consume(limit?: number): void {
+    if (this.#bodyUsed) {
+      throw new TypeError("The request body has already been consumed.");
+    }
+    this.#bodyUsed = true;
+    if (
+      limit !== undefined && this.contentLength !== null &&
+      this.contentLength > limit
+    ) {
+      throw bodyTooLarge(limit);
+    }
+  }
+
+  #readBody(limit: number): Promise<Uint8Array> {
+    this.#consume(limit);
+    return readAll(limitedReader(this.body, limit));
+  }
+
+  #decoder(): TextDecoder {
+    const { params } = parseMediaType(this.headers.get("content-type") ?? "");
+    const charset = params.charset ?? "utf-8";
+    try {
+      return new TextDecoder(charset);
+    } catch {
+      throw new HttpError(
+        Status.UnsupportedMediaType,
+        `Unsupported charset "${charset}".`,
+      );
+    }
+  }
+
+  /**
+   * Add a hook to `respond()`, called before the hooks added previously, e.g.
+   * to observe or to replace the response of a handler. Returns a function
+   * removing the hook.
+   *
+   *     const remove = req.onRespond(async (r, next) => {
+   *       await next({ ...r, headers: new Headers({ "x-powered-by": "Deno" }) });
+   *     });
+   */
+  onRespond(hook: RespondHook): () => void {
+    this.#respondHooks.push(hook);
+    return () => {
+      const index = this.#respondHooks.indexOf(hook);
+      if (index !== -1) {
+        this.#respondHooks.splice(index, 1);
+      }
+    };
+  }
+
+  /** Write the response, through the hooks added with `onRespond()`. */
   async respond(r: Response) {
+    const hooks = [...this.#respondHooks];
+    const next = (i: number, r: Response): Promise<void> =>
+      i < 0 ? this.#writeResponse(r) : hooks[i](r, (r) => next(i - 1, r));
+    await next(hooks.length - 1, r);
+  }
+
+  async #writeResponse(r: Response): Promise<void> {
     let err: Error | undefined;
     try {
       // Write our response!
@@ -105,6 +433,12 @@ export class ServerRequest {
 
   async finalize() {
     if (this.#finalized) return;
+    if (this.#awaitsContinue()) {
+      // The client never sent the body, so the connection cannot be reused.
+      this.#finalized = true;
+      this.conn.close();
+      return;
+    }
     // Consume unread body
     const body = this.body;
     const buf = new Uint8Array(1024);
@@ -115,15 +449,85 @@ export class ServerRequest {
   }
 }
 
+/** Options for `Server.shutdown()`. */
+export interface ShutdownOptions {
+  /** Milliseconds to wait for in-flight requests to complete before the
+   * remaining connections are force-closed. If not given, `shutdown()` waits
+   * until every connection is closed. */
+  timeout?: number;
+}
+
+/** Timeouts and limits of a `Server`. All of them are disabled by default. */
+export interface ServerOptions {
+  /** Milliseconds an idle keep-alive connection is kept open while waiting
+   * for the next request. */
+  keepAliveTimeout?: number;
+  /** Milliseconds allowed to receive the request line and the headers of a
+   * request. Slower clients get a `408 Request Timeout` response. */
+  headerTimeout?: number;
+  /** Maximum number of bytes of the request line and the headers. Larger
+   * requests get a `431 Request Header Fields Too Large` response. */
+  maxHeaderBytes?: number;
+  /** Maximum number of header lines. More get a `431 Request Header Fields Too
+   * Large` response. */
+  maxHeaderCount?: number;
+  /** Maximum number of bytes of a request body. A request with a larger
+   * `Content-Length` gets a `413 Request Entity Too Large` response, and reading a
+   * larger chunked body from `ServerRequest.body` throws an `HttpError`. */
+  maxBodySize?: number;
+  /** Called for requests with an `Expect: 100-continue` header, before they
+   * are yielded. If it returns `false`, the request gets a `417 Expectation
+   * Failed` response instead. Otherwise, `100 Continue` is sent when the body
+   * of the request is read for the first time. */
+  expectContinue?: (req: ServerRequest) => boolean | Promise<boolean>;
+}
+
+/** Like `deadline()`, but without a limit if `delay` is undefined. A
+ * rejection of `p` after the deadline is ignored. */
+function withTimeout<T>(p: Promise<T>, delay?: number): Promise<T> {
+  if (delay === undefined) return p;
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new DeadlineError()), delay);
+    p.then(resolve, reject).finally(() => clearTimeout(t));
+  });
+}
+
+/**
+ * An HTTP server accepting connections on one or several listeners, whose
+ * requests are yielded by iterating over it.
+ *
+ *     const server = new Server([
+ *       Deno.listen({ port: 8000 }),
+ *       Deno.listenTls({ port: 8443, certFile, keyFile }),
+ *     ]);
+ *     for await (const req of server) {
+ *       req.respond({ body: "Hello World\n" });
+ *     }
+ */
 export class Server implements AsyncIterable<ServerRequest> {
+  /** The first listener of the server. */
+  listener: Deno.Listener;
+  readonly listeners: Deno.Listener[];
   #closing = false;
   #connections: Deno.Conn[] = [];
+  #idleConnections = new Set<Deno.Conn>();
+  #drained?: Deferred<void>;
+  #options: ServerOptions;
 
-  constructor(public listener: Deno.Listener) {}
+  constructor(
+    listener: Deno.Listener | Deno.Listener[],
+    options: ServerOptions = {},
+  ) {
+    this.listeners = Array.isArray(listener) ? [...listener] : [listener];
+    if (this.listeners.length === 0) {
+      throw new TypeError("A server needs at least one listener.");
+    }
+    this.listener = this.listeners[0];
+    this.#options = options;
+  }
 
   close(): void {
-    this.#closing = true;
-    this.listener.close();
+    this.closeListener();
     for (const conn of this.#connections) {
       try {
         conn.close();
@@ -136,6 +540,56 @@ export class Server implements AsyncIterable<ServerRequest> {
     }
   }
 
+  /**
+   * Gracefully shut down the server. The listeners are closed immediately and
+   * idle keep-alive connections are closed. Requests that are being handled,
+   * and requests already pipelined on their connection, are allowed to
+   * complete. Connections still open after `options.timeout` are force-closed.
+   *
+   *     const server = serve({ port: 8000 });
+   *     // ...
+   *     await server.shutdown({ timeout: 5000 });
+   */
+  async shutdown(options: ShutdownOptions = {}): Promise<void> {
+    this.closeListener();
+    for (const conn of this.#idleConnections) {
+      try {
+        conn.close();
+      } catch {
+        // might have been already closed
+      }
+    }
+    if (this.#connections.length === 0) return;
+    this.#drained ??= deferred();
+    if (options.timeout === undefined) {
+      await this.#drained;
+      return;
+    }
+    try {
+      await deadline(this.#drained, options.timeout);
+    } catch (e) {
+      if (!(e instanceof DeadlineError)) {
+        throw e;
+      }
+      this.close();
+    }
+  }
+
+  private closeListener(): void {
+    if (this.#closing) return;
+    this.#closing = true;
+    for (const listener of this.listeners) {
+      try {
+        listener.close();
+      } catch (e) {
+        // The listener might have been already closed
+        if (!(e instanceof Deno.errors.BadResource)) {
+          throw e;
+        }
+      }
+    }
+  }
+
   // Yields all HTTP requests on a single TCP connection.
   private async *iterateHttpRequests(
     conn: Deno.Conn,
@@ -143,21 +597,66 @@ export class Server implements AsyncIterable<ServerRequest> {
     const reader = new BufReader(conn);
     const writer = new BufWriter(conn);
 
-    while (!this.#closing) {
+    let served = 0;
+    // Once the server is closing, only the requests which are already
+    // buffered are served.
+    while (!this.#closing || reader.buffered() > 0) {
       let request: ServerRequest | null;
+      const waitStart = Date.now();
+      if (reader.buffered() === 0) {
+        this.#idleConnections.add(conn);
+      }
+      try {
+        if (reader.buffered() === 0) {
+          // Wait for the first byte of the next request.
+          const timeout = served > 0
+            ? this.#options.keepAliveTimeout
+            : this.#options.headerTimeout;
+          if ((await withTimeout(reader.peek(1), timeout)) === null) {
+            break;
+          }
+        }
+      } catch {
+        // The connection timed out, was closed or is broken.
+        break;
+      } finally {
+        this.#idleConnections.delete(conn);
+      }
+      // The first request of a connection gets a single header timeout,
+      // including the wait for its first byte.
+      let headerTimeout = this.#options.headerTimeout;
+      if (served === 0 && headerTimeout !== undefined) {
+        headerTimeout = Math.max(0, headerTimeout - (Date.now() - waitStart));
+      }
       try {
-        request = await readRequest(conn, reader);
+        request = await withTimeout(
+          readRequest(conn, reader, this.#options),
+          headerTimeout,
+        );
       } catch (error) {
+        let status: Status | undefined;
+        let body: string | undefined;
         if (
           error instanceof Deno.errors.InvalidData ||
           error instanceof Deno.errors.UnexpectedEof
         ) {
           // An error was thrown while parsing request headers.
-          // Try to send the "400 Bad Request" before closing the connection.
+          status = Status.BadRequest;
+          body = `${error.message}\r\n\r\n`;
+        } else if (error instanceof HttpError) {
+          // A limit on the size of the request was exceeded.
+          status = error.status;
+          body = error.message;
+        } else if (error instanceof DeadlineError) {
+          status = Status.RequestTimeout;
+          body = STATUS_TEXT.get(status);
+        }
+        if (status !== undefined) {
+          // Try to send the error response before closing the connection.
           try {
             await writeResponse(writer, {
-              status: 400,
-              body: new TextEncoder().encode(`${error.message}\r\n\r\n`),
+              status,
+              body: new TextEncoder().encode(body),
             });
           } catch {
             // The connection is broken.
@@ -168,13 +667,31 @@ export class Server implements AsyncIterable<ServerRequest> {
       if (request === null) {
         break;
       }
+      served++;
 
       request.w = writer;
+      if (!(await this.checkExpectation(request))) {
+        try {
+          await writeResponse(writer, {
+            status: Status.ExpectationFailed,
+            headers: new Headers({ connection: "close" }),
+            body: STATUS_TEXT.get(Status.ExpectationFailed),
+          });
+        } catch {
+          // The connection is broken.
+        }
+        break;
+      }
       yield request;
 
       // Wait for the request to be processed before we accept a new request on
       // this connection.
       const responseError = await request.done;
+      if (request.upgraded) {
+        // The connection was taken over by the handler.
+        this.untrackConnection(conn);
+        return;
+      }
       if (responseError) {
         // Something bad happened during response.
         // (likely other side closed during pipelined req)
@@ -200,6 +717,22 @@ export class Server implements AsyncIterable<ServerRequest> {
     }
   }
 
+  /** Returns whether the `Expect` header of a request, if any, can be met. */
+  private async checkExpectation(request: ServerRequest): Promise<boolean> {
+    const expect = request.headers.get("expect");
+    if (expect === null || request.protoMinor < 1) {
+      return true;
+    }
+    if (expect.toLowerCase() !== "100-continue") {
+      return false;
+    }
+    try {
+      return (await this.#options.expectContinue?.(request)) ?? true;
+    } catch {
+      return false;
+    }
+  }
+
   private trackConnection(conn: Deno.Conn): void {
     this.#connections.push(conn);
   }
@@ -209,20 +742,24 @@ export class Server implements AsyncIterable<ServerRequest> {
     if (index !== -1) {
       this.#connections.splice(index, 1);
     }
+    if (this.#drained && this.#connections.length === 0) {
+      this.#drained.resolve();
+    }
   }
 
-  // Accepts a new TCP connection and yields all HTTP requests that arrive on
-  // it. When a connection is accepted, it also creates a new iterator of the
-  // same kind and adds it to the request multiplexer so that another TCP
-  // connection can be accepted.
+  // Accepts a new connection on a listener and yields all HTTP requests that
+  // arrive on it. When a connection is accepted, it also creates a new
+  // iterator of the same kind and adds it to the request multiplexer so that
+  // another connection can be accepted on the same listener.
   private async *acceptConnAndIterateHttpRequests(
     mux: MuxAsyncIterator<ServerRequest>,
+    listener: Deno.Listener,
   ): AsyncIterableIterator<ServerRequest> {
     if (this.#closing) return;
     // Wait for a new connection.
     let conn: Deno.Conn;
     try {
-      conn = await this.listener.accept();
+      conn = await listener.accept();
     } catch (error) {
       if (
         // The listener is closed:
@@ -233,20 +770,22 @@ export class Server implements AsyncIterable<ServerRequest> {
         error instanceof Deno.errors.ConnectionReset ||
         error instanceof Deno.errors.NotConnected
       ) {
-        return mux.add(this.acceptConnAndIterateHttpRequests(mux));
+        return mux.add(this.acceptConnAndIterateHttpRequests(mux, listener));
       }
       throw error;
     }
     this.trackConnection(conn);
     // Try to accept another connection and add it to the multiplexer.
-    mux.add(this.acceptConnAndIterateHttpRequests(mux));
+    mux.add(this.acceptConnAndIterateHttpRequests(mux, listener));
     // Yield the requests that arrive on the just-accepted connection.
     yield* this.iterateHttpRequests(conn);
   }
 
   [Symbol.asyncIterator](): AsyncIterableIterator<ServerRequest> {
     const mux: MuxAsyncIterator<ServerRequest> = new MuxAsyncIterator();
-    mux.add(this.acceptConnAndIterateHttpRequests(mux));
+    for (const listener of this.listeners) {
+      mux.add(this.acceptConnAndIterateHttpRequests(mux, listener));
+    }
     return mux.iterate();
   }
 }
@@ -254,6 +793,13 @@ export class Server implements AsyncIterable<ServerRequest> {
 /** Options for creating an HTTP server. */
 export type HTTPOptions = Omit<Deno.ListenOptions, "transport">;
 
+/** Options for creating an HTTP server listening on a unix domain socket. */
+export type UnixHTTPOptions = Omit<Deno.UnixListenOptions, "transport">;
+
+/** An address to listen on: a `host:port` or `unix:path` string, or the
+ * corresponding options. */
+export type ServeAddr = string | HTTPOptions | UnixHTTPOptions;
+
 /**
  * Parse addr from string
  *
@@ -286,6 +832,36 @@ export function _parseAddrFromStr(addr: string): HTTPOptions {
   };
 }
 
+/**
+ * Parse a `host:port` or `unix:path` address from string
+ *
+ *     _parseServeAddrFromStr("unix:/run/app.sock"); // { path: "/run/app.sock" }
+ *
+ * @param addr Address string
+ */
+export function _parseServeAddrFromStr(
+  addr: string,
+): HTTPOptions | UnixHTTPOptions {
+  if (!addr.startsWith("unix:")) {
+    return _parseAddrFromStr(addr);
+  }
+  const path = addr.slice("unix:".length);
+  if (path === "") {
+    throw new TypeError("Invalid address.");
+  }
+  return { path };
+}
+
+function listen(addr: ServeAddr): Deno.Listener {
+  if (typeof addr === "string") {
+    addr = _parseServeAddrFromStr(addr);
+  }
+  if ("path" in addr) {
+    return Deno.listen({ ...addr, transport: "unix" });
+  }
+  return Deno.listen(addr);
+}
+
 /**
  * Create a HTTP server
  *
@@ -295,14 +871,28 @@ export function _parseAddrFromStr(addr: string): HTTPOptions {
  *     for await (const req of server) {
  *       req.respond({ body });
  *     }
+ *
+ * A server may listen on several addresses, and on unix domain sockets. The
+ * socket file is not removed when the server is closed.
+ *
+ *     const server = serve([":8000", "unix:/run/app.sock"]);
  */
-export function serve(addr: string | HTTPOptions): Server {
-  if (typeof addr === "string") {
-    addr = _parseAddrFromStr(addr);
+export function serve(
+  addr: ServeAddr | ServeAddr[],
+  options?: ServerOptions,
+): Server {
+  const listeners: Deno.Listener[] = [];
+  try {
+    for (const a of Array.isArray(addr) ? addr : [addr]) {
+      listeners.push(listen(a));
+    }
+  } catch (e) {
+    for (const listener of listeners) {
+      listener.close();
+    }
+    throw e;
   }
-
-  const listener = Deno.listen(addr);
-  return new Server(listener);
+  return new Server(listeners, options);
 }
 
 /**
@@ -316,12 +906,14 @@ export function serve(addr: string | HTTPOptions): Server {
  *
  * @param options Server configuration
  * @param handler Request handler
+ * @param serverOptions Timeouts and limits of the server
  */
 export async function listenAndServe(
-  addr: string | HTTPOptions,
+  addr: ServeAddr | ServeAddr[],
   handler: (req: ServerRequest) => void,
+  serverOptions?: ServerOptions,
 ) {
-  const server = serve(addr);
+  const server = serve(addr, serverOptions);
 
   for await (const request of server) {
     handler(request);
@@ -346,15 +938,19 @@ export type HTTPSOptions = Omit<Deno.ListenTlsOptions, "transport">;
  *     }
  *
  * @param options Server configuration
+ * @param serverOptions Timeouts and limits of the server
  * @return Async iterable server instance for incoming requests
  */
-export function serveTLS(options: HTTPSOptions): Server {
+export function serveTLS(
+  options: HTTPSOptions,
+  serverOptions?: ServerOptions,
+): Server {
   const tlsOptions: Deno.ListenTlsOptions = {
     ...options,
     transport: "tcp",
   };
   const listener = Deno.listenTls(tlsOptions);
-  return new Server(listener);
+  return new Server(listener, serverOptions);
 }
 
 /**
@@ -373,12 +969,14 @@ export function serveTLS(options: HTTPSOptions): Server {
  *
  * @param options Server configuration
  * @param handler Request handler
+ * @param serverOptions Timeouts and limits of the server
  */
 export async function listenAndServeTLS(
   options: HTTPSOptions,
   handler: (req: ServerRequest) => void,
+  serverOptions?: ServerOptions,
 ) {
-  const server = serveTLS(options);
+  const server = serveTLS(options, serverOptions);
 
   for await (const request of server) {
     handler(request);
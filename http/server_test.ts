@@ -11,10 +11,12 @@ import {
   assertEquals,
   assertMatch,
   assertStringIncludes,
+  assertThrows,
   assertThrowsAsync,
 } from "../testing/asserts.ts";
 import {
   _parseAddrFromStr,
+  _parseServeAddrFromStr,
   Response,
   serve,
   Server,
@@ -22,11 +24,12 @@ import {
   serveTLS,
 } from "./server.ts";
 import { BufReader, BufWriter } from "../io/bufio.ts";
-import { delay } from "../async/delay.ts";
+import { deadline, deferred, delay } from "../async/mod.ts";
 import { mockConn } from "./_mock_conn.ts";
 import { dirname, fromFileUrl, join, resolve } from "../path/mod.ts";
 import { Buffer } from "../io/buffer.ts";
 import { readAll, writeAll } from "../io/util.ts";
+import { HttpError } from "./errors.ts";
 
 const moduleDir = dirname(fromFileUrl(import.meta.url));
 const testdataDir = resolve(moduleDir, "testdata");
@@ -91,6 +94,31 @@ Deno.test("responseWrite", async function () {
   }
 });
 
+Deno.test("respond hooks", async function () {
+  const buf = new Buffer();
+  const request = new ServerRequest();
+  request.w = new BufWriter(buf);
+  request.conn = mockConn();
+
+  const calls: string[] = [];
+  request.onRespond(async (r, next) => {
+    calls.push(`outer ${r.body}`);
+    await next(r);
+  });
+  request.onRespond(async (r, next) => {
+    calls.push(`inner ${r.body}`);
+    await next({ ...r, body: "replaced" });
+  });
+  request.onRespond(() => Promise.reject(new Error("removed")))();
+
+  await request.respond({ body: "original" });
+  assertEquals(calls, ["inner original", "outer replaced"]);
+  assertEquals(
+    new TextDecoder().decode(buf.bytes()),
+    "HTTP/1.1 200 OK\r\ncontent-length: 8\r\n\r\nreplaced",
+  );
+});
+
 Deno.test("requestContentLength", function (): void {
   // Has content length
   {
@@ -377,6 +405,130 @@ Deno.test("requestBodyReaderWithTransferEncoding", async function (): Promise<
   }
 });
 
+function createBodyRequest(
+  headers: Record<string, string>,
+  body: string | Uint8Array,
+): ServerRequest {
+  const bytes = typeof body === "string"
+    ? new TextEncoder().encode(body)
+    : body;
+  const req = new ServerRequest();
+  req.headers = new Headers({
+    "content-length": `${bytes.length}`,
+    ...headers,
+  });
+  req.r = new BufReader(new Buffer(bytes));
+  return req;
+}
+
+Deno.test("requestBodyParsers", async function () {
+  let req = createBodyRequest({}, "hello");
+  assertEquals(
+    new Uint8Array(await req.arrayBuffer()),
+    new TextEncoder().encode("hello"),
+  );
+
+  req = createBodyRequest(
+    { "content-type": "text/plain; charset=ISO-8859-1" },
+    new Uint8Array([0x63, 0x61, 0x66, 0xe9]),
+  );
+  assertEquals(await req.text(), "café");
+
+  req = createBodyRequest(
+    { "content-type": "application/json" },
+    '{"a":[1,2]}',
+  );
+  assertEquals(await req.json(), { a: [1, 2] });
+  assert(req.bodyUsed);
+  await assertThrowsAsync(
+    () => req.json(),
+    TypeError,
+    "The request body has already been consumed.",
+  );
+
+  req = createBodyRequest({ "content-type": "application/json" }, "{");
+  const error = await assertThrowsAsync(() => req.json(), HttpError);
+  assertEquals((error as HttpError).status, 400);
+});
+
+Deno.test("requestBodyParsersLimits", async function () {
+  let req = createBodyRequest({}, "hello");
+  let error = await assertThrowsAsync(
+    () => req.text({ limit: 4 }),
+    HttpError,
+    "Request body exceeds the limit of 4 bytes.",
+  );
+  assertEquals((error as HttpError).status, 413);
+
+  req = createBodyRequest({}, "hello");
+  req.headers.delete("content-length");
+  req.headers.set("transfer-encoding", "chunked");
+  req.r = new BufReader(
+    new Buffer(new TextEncoder().encode("5\r\nhello\r\n0\r\n\r\n")),
+  );
+  req.maxBodySize = 3;
+  error = await assertThrowsAsync(() => req.arrayBuffer(), HttpError);
+  assertEquals((error as HttpError).status, 413);
+
+  req = createBodyRequest({ "content-type": "text/plain; charset=nope" }, "");
+  error = await assertThrowsAsync(
+    () => req.text(),
+    HttpError,
+    'Unsupported charset "nope".',
+  );
+  assertEquals((error as HttpError).status, 415);
+  assert(!req.bodyUsed);
+});
+
+Deno.test("requestForm", async function () {
+  let req = createBodyRequest(
+    { "content-type": "application/x-www-form-urlencoded" },
+    "a=1&b=x+y&a=2",
+  );
+  let form = await req.form();
+  assertEquals(form.values("a"), ["1", "2"]);
+  assertEquals(form.values("b"), ["x y"]);
+  assertEquals(form.files("a"), undefined);
+  assertEquals([...form].map(([key]) => key), ["a", "b"]);
+
+  const body = [
+    "--BOUNDARY",
+    'content-disposition: form-data; name="name"',
+    "",
+    "deno",
+    "--BOUNDARY",
+    'content-disposition: form-data; name="file"; filename="a.txt"',
+    "content-type: text/plain",
+    "",
+    "content",
+    "--BOUNDARY--",
+    "",
+  ].join("\r\n");
+  req = createBodyRequest(
+    { "content-type": 'multipart/form-data; boundary="BOUNDARY"' },
+    body,
+  );
+  form = await req.form();
+  assertEquals(form.values("name"), ["deno"]);
+  const [file] = form.files("file")!;
+  assertEquals(file.filename, "a.txt");
+  assertEquals(new TextDecoder().decode(file.content), "content");
+
+  req = createBodyRequest(
+    { "content-type": "multipart/form-data; boundary=BOUNDARY" },
+    body,
+  );
+  await assertThrowsAsync(
+    () => req.form({ limit: 10 }),
+    HttpError,
+    "Request body exceeds the limit of 10 bytes.",
+  );
+
+  req = createBodyRequest({ "content-type": "text/plain" }, "a=1");
+  const error = await assertThrowsAsync(() => req.form(), HttpError);
+  assertEquals((error as HttpError).status, 415);
+});
+
 Deno.test({
   name: "destroyed connection",
   fn: async () => {
@@ -806,3 +958,460 @@ Deno.test({
     assertEquals(addr.hostname, "0.0.0.0");
   },
 });
+
+Deno.test({
+  name: "server._parseServeAddrFromStr() unix socket",
+  fn(): void {
+    assertEquals(_parseServeAddrFromStr("unix:/tmp/app.sock"), {
+      path: "/tmp/app.sock",
+    });
+    assertEquals(_parseServeAddrFromStr("unix:app.sock"), { path: "app.sock" });
+    assertEquals(_parseServeAddrFromStr(":80"), {
+      hostname: "0.0.0.0",
+      port: 80,
+    });
+    assertThrows(() => _parseServeAddrFromStr("unix:"), TypeError);
+  },
+});
+
+Deno.test({
+  name: "[http] serve on a unix socket",
+  ignore: Deno.build.os === "windows",
+  async fn() {
+    const dir = await Deno.makeTempDir();
+    const path = join(dir, "server.sock");
+    const server = serve(`unix:${path}`);
+    assertEquals(server.listener.addr, { transport: "unix", path });
+    const p = (async () => {
+      for await (const req of server) {
+        await req.respond({ body: req.url });
+      }
+    })();
+    const conn = await Deno.connect({ transport: "unix", path });
+    try {
+      await writeAll(
+        conn,
+        new TextEncoder().encode("GET /unix HTTP/1.1\r\n\r\n"),
+      );
+      const res = new Uint8Array(100);
+      const n = await conn.read(res);
+      assertEquals(
+        new TextDecoder().decode(res.subarray(0, n ?? 0)),
+        "HTTP/1.1 200 OK\r\ncontent-length: 5\r\n\r\n/unix",
+      );
+    } finally {
+      conn.close();
+      server.close();
+      await p;
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test({
+  name: "[http] serve on several listeners",
+  async fn() {
+    const server = serve(["127.0.0.1:8133", {
+      hostname: "127.0.0.1",
+      port: 8134,
+    }]);
+    assertEquals(server.listeners.length, 2);
+    assertEquals(server.listener, server.listeners[0]);
+    const p = (async () => {
+      for await (const req of server) {
+        await req.respond({
+          body: `${(req.conn.localAddr as Deno.NetAddr).port}`,
+        });
+      }
+    })();
+    try {
+      for (const port of [8133, 8134]) {
+        const conn = await Deno.connect({ hostname: "127.0.0.1", port });
+        await writeAll(
+          conn,
+          new TextEncoder().encode("GET / HTTP/1.1\r\n\r\n"),
+        );
+        const res = new Uint8Array(100);
+        const n = await conn.read(res);
+        conn.close();
+        assertStringIncludes(
+          new TextDecoder().decode(res.subarray(0, n ?? 0)),
+          `\r\n\r\n${port}`,
+        );
+      }
+    } finally {
+      server.close();
+      await p;
+    }
+    // Both listeners are closed.
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 8134 });
+    listener.close();
+  },
+});
+
+Deno.test({
+  name: "[http] serve() closes the listeners opened before a failure",
+  fn(): void {
+    const listener = Deno.listen({ hostname: "127.0.0.1", port: 8134 });
+    try {
+      assertThrows(
+        () => serve(["127.0.0.1:8133", "127.0.0.1:8134"]),
+        Deno.errors.AddrInUse,
+      );
+    } finally {
+      listener.close();
+    }
+    serve("127.0.0.1:8133").close();
+    assertThrows(() => new Server([]), TypeError);
+  },
+});
+
+Deno.test({
+  name: "[http] shutdown closes idle keep-alive connections",
+  async fn() {
+    const server = serve(":8125");
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        await req.respond({ body: "ok" });
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode("GET / HTTP/1.1\r\n\r\n"),
+    );
+    const res = new Uint8Array(100);
+    assert((await conn.read(res)) !== null);
+    // The connection is now idle, waiting for the next request.
+    await server.shutdown();
+    await p;
+    assertEquals(await conn.read(res), null);
+    conn.close();
+  },
+});
+
+Deno.test({
+  name: "[http] shutdown waits for in-flight and pipelined requests",
+  async fn() {
+    const server = serve(":8125");
+    const received = deferred<void>();
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        received.resolve();
+        await delay(50);
+        await req.respond({ body: req.url });
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "GET /first HTTP/1.1\r\n\r\nGET /second HTTP/1.1\r\n\r\n",
+      ),
+    );
+    await received;
+    await server.shutdown();
+    await p;
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertEquals(
+      responseString,
+      "HTTP/1.1 200 OK\r\ncontent-length: 6\r\n\r\n/first" +
+        "HTTP/1.1 200 OK\r\ncontent-length: 7\r\n\r\n/second",
+    );
+    conn.close();
+  },
+});
+
+Deno.test({
+  name: "[http] shutdown force-closes connections after the timeout",
+  async fn() {
+    const server = serve(":8125");
+    const received = deferred<ServerRequest>();
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        // Never respond.
+        received.resolve(req);
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode("GET / HTTP/1.1\r\n\r\n"),
+    );
+    const req = await received;
+    await server.shutdown({ timeout: 50 });
+    await assertThrowsAsync(() => req.respond({ body: "late" }));
+    await p;
+    conn.close();
+  },
+});
+
+Deno.test({
+  name: "[http] header timeout gets 408 response",
+  async fn() {
+    const server = serve(":8125", { headerTimeout: 50 });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    // Send an incomplete request and stall.
+    await writeAll(conn, new TextEncoder().encode("GET / HTTP/1.1\r\nHost"));
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertEquals(
+      responseString,
+      "HTTP/1.1 408 Request Timeout\r\ncontent-length: 15\r\n\r\n" +
+        "Request Timeout",
+    );
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] header timeout includes the wait for the first byte",
+  async fn() {
+    const server = serve(":8125", { headerTimeout: 100 });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    // Send nothing: the connection is closed anyway, long before the
+    // generous deadline.
+    assertEquals(await deadline(readAll(conn), 5000), new Uint8Array());
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] header timeout is not restarted by each byte",
+  async fn() {
+    const server = serve(":8125", { headerTimeout: 100 });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    // Trickle the request, one byte at a time, for far longer than the
+    // timeout.
+    const request = new TextEncoder().encode(
+      `GET / HTTP/1.1\r\nCookie: ${"a".repeat(40)}\r\n\r\n`,
+    );
+    let sent = 0;
+    let closed = false;
+    const trickle = (async () => {
+      for (; sent < request.length && !closed; sent++) {
+        await delay(50);
+        try {
+          await writeAll(conn, request.subarray(sent, sent + 1));
+        } catch {
+          break;
+        }
+      }
+    })();
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    closed = true;
+    // The server closed the connection before the whole request was sent.
+    assert(sent < request.length);
+    assertEquals(
+      responseString,
+      "HTTP/1.1 408 Request Timeout\r\ncontent-length: 15\r\n\r\n" +
+        "Request Timeout",
+    );
+    await trickle;
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] idle keep-alive connections are closed after the timeout",
+  async fn() {
+    const server = serve(":8125", { keepAliveTimeout: 50 });
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        await req.respond({ body: "ok" });
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(conn, new TextEncoder().encode("GET / HTTP/1.1\r\n\r\n"));
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertEquals(
+      responseString,
+      "HTTP/1.1 200 OK\r\ncontent-length: 2\r\n\r\nok",
+    );
+    conn.close();
+    server.close();
+    await p;
+  },
+});
+
+Deno.test({
+  name: "[http] too large headers get 431 response",
+  async fn() {
+    const server = serve(":8125", { maxHeaderBytes: 64 });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        `GET / HTTP/1.1\r\nCookie: ${"a".repeat(100)}\r\n\r\n`,
+      ),
+    );
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertMatch(
+      responseString,
+      /^HTTP\/1\.1 431 Request Header Fields Too Large\r\n/,
+    );
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] too large body gets 413 response",
+  async fn() {
+    const server = serve(":8125", { maxBodySize: 4 });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "POST / HTTP/1.1\r\nContent-Length: 5\r\n\r\nhello",
+      ),
+    );
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertMatch(responseString, /^HTTP\/1\.1 413 Request Entity Too Large\r\n/);
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] sends 100 Continue when the body is read",
+  async fn() {
+    const server = serve(":8125");
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        await req.respond({ body: await req.text() });
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    const reader = new TextProtoReader(new BufReader(conn));
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "POST / HTTP/1.1\r\nContent-Length: 5\r\nExpect: 100-continue\r\n\r\n",
+      ),
+    );
+    assertEquals(await reader.readLine(), "HTTP/1.1 100 Continue");
+    assertEquals(await reader.readLine(), "");
+    await writeAll(conn, new TextEncoder().encode("hello"));
+    assertEquals(await reader.readLine(), "HTTP/1.1 200 OK");
+    conn.close();
+    server.close();
+    await p;
+  },
+});
+
+Deno.test({
+  name:
+    "[http] closes the connection if the body awaiting 100 Continue is unread",
+  async fn() {
+    const server = serve(":8125");
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        await req.respond({ status: 403 });
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "PUT / HTTP/1.1\r\nContent-Length: 5\r\nExpect: 100-continue\r\n\r\n",
+      ),
+    );
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertEquals(
+      responseString,
+      "HTTP/1.1 403 Forbidden\r\ncontent-length: 0\r\n\r\n",
+    );
+    conn.close();
+    server.close();
+    await p;
+  },
+});
+
+Deno.test({
+  name: "[http] expectContinue hook rejects requests with 417 response",
+  async fn() {
+    const server = serve(":8125", {
+      expectContinue: (req) => req.contentLength! <= 4,
+    });
+    const entry = server[Symbol.asyncIterator]().next();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "POST / HTTP/1.1\r\nContent-Length: 5\r\nExpect: 100-continue\r\n\r\n",
+      ),
+    );
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertMatch(responseString, /^HTTP\/1\.1 417 Expectation Failed\r\n/);
+    conn.close();
+    server.close();
+    assert((await entry).done);
+  },
+});
+
+Deno.test({
+  name: "[http] upgrade hands the connection over",
+  async fn() {
+    const server = serve(":8125");
+    const serverRoutine = async () => {
+      for await (const req of server) {
+        const { conn, r, w } = await req.upgrade(
+          "echo",
+          new Headers({ "x-echo": "1" }),
+        );
+        const line = await new TextProtoReader(r).readLine();
+        await w.write(new TextEncoder().encode(`${line}\n`));
+        await w.flush();
+        conn.close();
+      }
+    };
+    const p = serverRoutine();
+    const conn = await Deno.connect({ hostname: "127.0.0.1", port: 8125 });
+    await writeAll(
+      conn,
+      new TextEncoder().encode(
+        "GET / HTTP/1.1\r\nConnection: Upgrade\r\nUpgrade: echo\r\n\r\nhello\n",
+      ),
+    );
+    const responseString = new TextDecoder().decode(await readAll(conn));
+    assertEquals(
+      responseString,
+      "HTTP/1.1 101 Switching Protocols\r\nconnection: upgrade\r\n" +
+        "upgrade: echo\r\nx-echo: 1\r\n\r\nhello\n",
+    );
+    conn.close();
+    server.close();
+    await p;
+  },
+});
+
+Deno.test("[http] upgrade requires an upgrade request", async function () {
+  const req = new ServerRequest();
+  req.headers = new Headers({ connection: "upgrade", upgrade: "h2c" });
+  const error = await assertThrowsAsync(
+    () => req.upgrade("websocket"),
+    HttpError,
+    'The request does not ask to upgrade to "websocket".',
+  );
+  assertEquals((error as HttpError).status, 400);
+  assert(!req.upgraded);
+});
@@ -0,0 +1,57 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Disposable, signal } from "../signal/mod.ts";
+import { Server, ShutdownOptions } from "./server.ts";
+
+export interface ShutdownOnSignalOptions extends ShutdownOptions {
+  /** Signals which trigger the shutdown. Defaults to `SIGTERM`. */
+  signals?: [number, ...number[]];
+  /** Called once the server has shut down, with the error which occurred
+   * during the shutdown, if any. Errors thrown by the callback are ignored. */
+  onShutdown: (error?: unknown) => void;
+}
+
+/**
+ * Gracefully shut down the server with `Server.shutdown()` when the process
+ * receives one of the given signals. Requires `--unstable`.
+ *
+ *     import { serve } from "https://deno.land/std/http/server.ts";
+ *     import { shutdownOnSignal } from "https://deno.land/std/http/shutdown.ts";
+ *     const server = serve({ port: 8000 });
+ *     shutdownOnSignal(server, {
+ *       timeout: 10000,
+ *       onShutdown: (error) => error && console.error(error),
+ *     });
+ *     for await (const req of server) {
+ *       req.respond({ body: "Hello World\n" });
+ *     }
+ *
+ * `dispose()` stops listening for the signals.
+ */
+export function shutdownOnSignal(
+  server: Server,
+  options: ShutdownOnSignalOptions,
+): Disposable {
+  const { signals = [Deno.Signal.SIGTERM], onShutdown, ...shutdownOptions } =
+    options;
+  const sig = signal(...signals);
+
+  (async () => {
+    for await (const _ of sig) {
+      sig.dispose();
+      let error: unknown;
+      try {
+        await server.shutdown(shutdownOptions);
+      } catch (e) {
+        error = e;
+      }
+      try {
+        onShutdown(error);
+      } catch {
+        // The callback is responsible for its own errors.
+      }
+      break;
+    }
+  })();
+
+  return sig;
+}
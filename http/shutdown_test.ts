@@ -0,0 +1,62 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals } from "../testing/asserts.ts";
+import { deferred, delay } from "../async/mod.ts";
+import { serve } from "./server.ts";
+import { shutdownOnSignal } from "./shutdown.ts";
+
+Deno.test({
+  name: "[http] shutdownOnSignal shuts the server down on signal",
+  ignore: Deno.build.os === "windows",
+  async fn() {
+    const server = serve(":8126");
+    const shutdown = deferred<void>();
+    shutdownOnSignal(server, {
+      signals: [Deno.Signal.SIGUSR1],
+      onShutdown: () => shutdown.resolve(),
+    });
+    const iterator = server[Symbol.asyncIterator]();
+    const next = iterator.next();
+    Deno.kill(Deno.pid, Deno.Signal.SIGUSR1);
+    await shutdown;
+    assertEquals(await next, { value: undefined, done: true });
+  },
+});
+
+Deno.test({
+  name: "[http] shutdownOnSignal passes shutdown errors to onShutdown",
+  ignore: Deno.build.os === "windows",
+  async fn() {
+    const server = serve(":8126");
+    server.shutdown = () => Promise.reject(new Error("close failed"));
+    const shutdown = deferred<unknown>();
+    shutdownOnSignal(server, {
+      signals: [Deno.Signal.SIGUSR1],
+      onShutdown: (error) => shutdown.resolve(error),
+    });
+    Deno.kill(Deno.pid, Deno.Signal.SIGUSR1);
+    const error = await shutdown;
+    assert(error instanceof Error);
+    assertEquals(error.message, "close failed");
+    server.close();
+  },
+});
+
+Deno.test({
+  name: "[http] shutdownOnSignal ignores errors thrown by onShutdown",
+  ignore: Deno.build.os === "windows",
+  async fn() {
+    const server = serve(":8126");
+    const shutdown = deferred<void>();
+    shutdownOnSignal(server, {
+      signals: [Deno.Signal.SIGUSR1],
+      onShutdown: () => {
+        shutdown.resolve();
+        throw new Error("callback failed");
+      },
+    });
+    Deno.kill(Deno.pid, Deno.Signal.SIGUSR1);
+    await shutdown;
+    // An unhandled rejection would fail the test once the callback returns.
+    await delay(10);
+  },
+});
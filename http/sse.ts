@@ -0,0 +1,269 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Deferred, deferred } from "../async/mod.ts";
+import { iter } from "../io/util.ts";
+import { ServerRequest } from "./server.ts";
+
+const encoder = new TextEncoder();
+
+/** An event sent to the client of a `ServerSentEventTarget`. */
+export interface ServerSentEvent {
+  /** Type of the event, `"message"` if not given. */
+  event?: string;
+  /** Data of the event. Values other than strings are sent as JSON. */
+  data?: unknown;
+  /** Identifier of the event, sent back by reconnecting clients in the
+   * `Last-Event-ID` header. */
+  id?: string;
+  /** Number of milliseconds a client waits before reconnecting. */
+  retry?: number;
+}
+
+/** An event read by `readServerSentEvents()`. */
+export interface ParsedServerSentEvent {
+  event: string;
+  data: string;
+  /** The last event identifier received on the stream. */
+  id: string;
+  retry?: number;
+}
+
+export interface ServerSentEventTargetOptions {
+  /** Additional headers of the response. */
+  headers?: Headers;
+  /** Number of milliseconds between two heartbeat comments, which keep idle
+   * connections open and detect closed ones. `0` disables them. Defaults to
+   * `30000`. */
+  keepAlive?: number;
+}
+
+function assertNoNewline(name: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new TypeError(`The ${name} of an event cannot contain newlines.`);
+  }
+}
+
+/** Serialize an event to the `text/event-stream` format. */
+function formatEvent({ event, data, id, retry }: ServerSentEvent): string {
+  let out = "";
+  if (event !== undefined) {
+    assertNoNewline("type", event);
+    out += `event: ${event}\n`;
+  }
+  if (id !== undefined) {
+    assertNoNewline("id", id);
+    out += `id: ${id}\n`;
+  }
+  if (retry !== undefined) {
+    out += `retry: ${Math.trunc(retry)}\n`;
+  }
+  if (data !== undefined) {
+    const text = typeof data === "string" ? data : JSON.stringify(data);
+    for (const line of text.split(/\r\n|\r|\n/)) {
+      out += `data: ${line}\n`;
+    }
+  }
+  return `${out}\n`;
+}
+
+/**
+ * Answers a request with an event stream, to which events are written with
+ * `send()`.
+ *
+ *     import { serve } from "https://deno.land/std/http/server.ts";
+ *     import { ServerSentEventTarget } from "https://deno.land/std/http/sse.ts";
+ *     for await (const req of serve({ port: 8000 })) {
+ *       const target = new ServerSentEventTarget(req);
+ *       const timer = setInterval(() => {
+ *         target.send({ event: "tick", data: { now: Date.now() } });
+ *       }, 1000);
+ *       target.addEventListener("close", () => clearInterval(timer));
+ *     }
+ *
+ * The response is streamed with `transfer-encoding: chunked`. A `close` event
+ * is dispatched when `close()` is called or when writing to the connection
+ * fails, which happens at the latest at the next heartbeat after the client
+ * went away.
+ */
+export class ServerSentEventTarget extends EventTarget {
+  /** The value of the `Last-Event-ID` header of the request, sent by clients
+   * which reconnect. */
+  readonly lastEventId: string | null;
+  #queue: Uint8Array[] = [];
+  #pending?: Deferred<void>;
+  #closed = false;
+  #heartbeat?: number;
+
+  constructor(req: ServerRequest, options: ServerSentEventTargetOptions = {}) {
+    super();
+    this.lastEventId = req.headers.get("last-event-id");
+    const headers = new Headers(options.headers);
+    headers.set("content-type", "text/event-stream");
+    if (!headers.has("cache-control")) {
+      headers.set("cache-control", "no-cache");
+    }
+    headers.set("transfer-encoding", "chunked");
+    const keepAlive = options.keepAlive ?? 30000;
+    if (keepAlive > 0) {
+      this.#heartbeat = setInterval(() => this.comment(""), keepAlive);
+    }
+    // The headers are only sent with the first chunk of the body: send them
+    // right away, so that clients see the stream as open.
+    this.comment("");
+    req.respond({ headers, body: { read: (p) => this.#read(p) } }).then(
+      () => this.#onClose(),
+      () => this.#onClose(),
+    );
+  }
+
+  /** Whether the stream is closed. */
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  /** Send an event to the client. Throws if the stream is closed. */
+  send(event: ServerSentEvent): void {
+    this.#write(formatEvent(event));
+  }
+
+  /** Send a comment, which clients ignore. */
+  comment(text: string): void {
+    let out = "";
+    for (const line of text.split(/\r\n|\r|\n/)) {
+      out += `: ${line}\n`;
+    }
+    this.#write(`${out}\n`);
+  }
+
+  /** End the response. */
+  close(): void {
+    if (this.#closed) return;
+    this.#closed = true;
+    clearInterval(this.#heartbeat);
+    this.#pending?.resolve();
+  }
+
+  #write(text: string): void {
+    if (this.#closed) {
+      throw new Error("The event stream is closed.");
+    }
+    this.#queue.push(encoder.encode(text));
+    this.#pending?.resolve();
+  }
+
+  async #read(p: Uint8Array): Promise<number | null> {
+    while (this.#queue.length === 0) {
+      if (this.#closed) return null;
+      this.#pending = deferred();
+      await this.#pending;
+      this.#pending = undefined;
+    }
+    const chunk = this.#queue[0];
+    const n = Math.min(p.byteLength, chunk.byteLength);
+    p.set(chunk.subarray(0, n));
+    if (n === chunk.byteLength) {
+      this.#queue.shift();
+    } else {
+      this.#queue[0] = chunk.subarray(n);
+    }
+    return n;
+  }
+
+  #onClose(): void {
+    this.close();
+    this.#queue = [];
+    this.dispatchEvent(new Event("close"));
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body, as specified by the HTML standard. Events
+ * without data are ignored, like comments.
+ *
+ *     import { HttpClient } from "https://deno.land/std/http/client.ts";
+ *     import { readServerSentEvents } from "https://deno.land/std/http/sse.ts";
+ *     const res = await new HttpClient().request("http://localhost:8000/");
+ *     for await (const { event, data } of readServerSentEvents(res.body)) {
+ *       console.log(event, data);
+ *     }
+ */
+export async function* readServerSentEvents(
+  r: Deno.Reader,
+): AsyncIterableIterator<ParsedServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let first = true;
+  let id = "";
+  let event = "";
+  let data: string[] = [];
+  let retry: number | undefined;
+
+  function* processLines(final: boolean): Generator<ParsedServerSentEvent> {
+    for (;;) {
+      const match = /\r\n|\r|\n/.exec(buffer);
+      // A trailing "\r" may be followed by "\n" in the next chunk.
+      if (
+        match === null ||
+        (!final && match[0] === "\r" && match.index === buffer.length - 1)
+      ) {
+        return;
+      }
+      const line = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+      if (line === "") {
+        if (data.length > 0) {
+          const parsed: ParsedServerSentEvent = {
+            event: event || "message",
+            data: data.join("\n"),
+            id,
+          };
+          if (retry !== undefined) {
+            parsed.retry = retry;
+          }
+          yield parsed;
+        }
+        event = "";
+        data = [];
+        retry = undefined;
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) {
+        value = value.slice(1);
+      }
+      switch (field) {
+        case "event":
+          event = value;
+          break;
+        case "data":
+          data.push(value);
+          break;
+        case "id":
+          if (!value.includes("\0")) {
+            id = value;
+          }
+          break;
+        case "retry":
+          if (/^\d+$/.test(value)) {
+            retry = parseInt(value);
+          }
+          break;
+      }
+    }
+  }
+
+  for await (const chunk of iter(r)) {
+    buffer += decoder.decode(chunk, { stream: true });
+    if (first && buffer.length > 0) {
+      first = false;
+      if (buffer.startsWith("\uFEFF")) {
+        buffer = buffer.slice(1);
+      }
+    }
+    yield* processLines(false);
+  }
+  buffer += decoder.decode();
+  yield* processLines(true);
+}
@@ -0,0 +1,124 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
+import { deadline, deferred } from "../async/mod.ts";
+import { StringReader } from "../io/readers.ts";
+import { iter } from "../io/util.ts";
+import { HttpClient } from "./client.ts";
+import { serve, ServerRequest } from "./server.ts";
+import {
+  ParsedServerSentEvent,
+  readServerSentEvents,
+  ServerSentEventTarget,
+} from "./sse.ts";
+
+const port = 8132;
+const origin = `http://127.0.0.1:${port}`;
+
+async function withServer(
+  handler: (req: ServerRequest) => void,
+  fn: (client: HttpClient) => Promise<void>,
+): Promise<void> {
+  const server = serve({ hostname: "127.0.0.1", port });
+  const client = new HttpClient();
+  const loop = (async () => {
+    for await (const req of server) {
+      handler(req);
+    }
+  })();
+  try {
+    await fn(client);
+  } finally {
+    client.close();
+    server.close();
+    await loop;
+  }
+}
+
+async function parse(text: string): Promise<ParsedServerSentEvent[]> {
+  const events = [];
+  for await (const event of readServerSentEvents(new StringReader(text))) {
+    events.push(event);
+  }
+  return events;
+}
+
+Deno.test("[http/sse] sends events", async function () {
+  let target: ServerSentEventTarget | undefined;
+  const closed = deferred();
+  await withServer((req) => {
+    target = new ServerSentEventTarget(req);
+    target.addEventListener("close", () => closed.resolve());
+    target.send({ data: "hello" });
+    target.send({ event: "update", data: { a: 1 }, id: "2", retry: 500 });
+    target.comment("ignored");
+    assertThrows(() => target!.send({ event: "a\nb" }), TypeError);
+    target.send({ data: "multi\nline" });
+    target.close();
+  }, async (client) => {
+    const res = await client.request(`${origin}/`, {
+      headers: { "last-event-id": "1" },
+    });
+    assertEquals(res.headers.get("content-type"), "text/event-stream");
+    assertEquals(res.headers.get("cache-control"), "no-cache");
+    assertEquals(res.headers.get("transfer-encoding"), "chunked");
+    const events = [];
+    for await (const event of readServerSentEvents(res.body)) {
+      events.push(event);
+    }
+    assertEquals(events, [
+      { event: "message", data: "hello", id: "" },
+      { event: "update", data: '{"a":1}', id: "2", retry: 500 },
+      { event: "message", data: "multi\nline", id: "2" },
+    ]);
+  });
+  await closed;
+  assert(target);
+  assertEquals(target.lastEventId, "1");
+  assert(target.closed);
+  assertThrows(
+    () => target!.send({ data: "late" }),
+    Error,
+    "The event stream is closed.",
+  );
+});
+
+Deno.test("[http/sse] sends heartbeats and detects closed connections", async function () {
+  const closed = deferred();
+  await withServer((req) => {
+    const target = new ServerSentEventTarget(req, { keepAlive: 10 });
+    target.addEventListener("close", () => closed.resolve());
+  }, async (client) => {
+    const res = await client.request(`${origin}/`);
+    const { value: chunk } = await iter(res.body).next();
+    assertEquals(new TextDecoder().decode(chunk), ": \n\n");
+    res.close();
+    await closed;
+  });
+});
+
+Deno.test("[http/sse] sends the headers right away", async function () {
+  let target: ServerSentEventTarget | undefined;
+  await withServer((req) => {
+    target = new ServerSentEventTarget(req, { keepAlive: 0 });
+  }, async (client) => {
+    const res = await deadline(client.request(`${origin}/`), 1000);
+    assertEquals(res.status, 200);
+    assertEquals(res.headers.get("content-type"), "text/event-stream");
+    target!.close();
+    await res.text();
+  });
+});
+
+Deno.test("[http/sse] parses event streams", async function () {
+  assertEquals(
+    await parse(
+      "\uFEFFdata: a\r\ndata:b\r\rid: 7\nevent: x\ndata\n\n: comment\n\n" +
+        "retry: nope\ndata: c\n\nevent: dropped\n\ndata: unterminated",
+    ),
+    [
+      { event: "message", data: "a\nb", id: "" },
+      { event: "x", data: "", id: "7" },
+      { event: "message", data: "c", id: "7" },
+    ],
+  );
+});
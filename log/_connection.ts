@@ -0,0 +1,117 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { writeAll } from "../io/util.ts";
+
+export interface ReconnectOptions {
+  /** The delay before reconnecting after a failed attempt, in milliseconds,
+   * doubled after each failed attempt in a row. Defaults to 100. */
+  minDelay?: number;
+  /** The maximum delay before reconnecting. Defaults to 30000. */
+  maxDelay?: number;
+  /** The maximum number of records buffered while disconnected. The oldest
+   * records are dropped beyond. Defaults to 1000. */
+  bufferSize?: number;
+}
+
+/**
+ * A TCP connection buffering the records written while it is disconnected.
+ * Reconnection is attempted when records are written, once the backoff delay
+ * has elapsed, so that no timer keeps the process alive.
+ */
+export class BufferedConnection {
+  #options: Deno.ConnectOptions;
+  #minDelay: number;
+  #maxDelay: number;
+  #bufferSize: number;
+  #conn?: Deno.Conn;
+  #connecting?: Promise<void>;
+  #draining?: Promise<void>;
+  #failures = 0;
+  #retryAt = 0;
+  #queue: Uint8Array[] = [];
+  dropped = 0;
+
+  constructor(options: Deno.ConnectOptions, reconnect: ReconnectOptions) {
+    this.#options = options;
+    this.#minDelay = reconnect.minDelay ?? 100;
+    this.#maxDelay = reconnect.maxDelay ?? 30000;
+    this.#bufferSize = reconnect.bufferSize ?? 1000;
+  }
+
+  /** Connect, unless connected or waiting for the backoff delay to elapse. */
+  connect(): Promise<void> {
+    if (this.#conn || Date.now() < this.#retryAt) {
+      return Promise.resolve();
+    }
+    this.#connecting ??= Deno.connect(this.#options)
+      .then((conn) => {
+        this.#conn = conn;
+        this.#failures = 0;
+        this.#drain();
+      }, () => {
+        const delay = this.#minDelay * 2 ** this.#failures++;
+        this.#retryAt = Date.now() + Math.min(delay, this.#maxDelay);
+      })
+      .finally(() => {
+        this.#connecting = undefined;
+      });
+    return this.#connecting;
+  }
+
+  write(data: Uint8Array): void {
+    if (this.#queue.length >= this.#bufferSize) {
+      this.#queue.shift();
+      this.dropped++;
+    }
+    this.#queue.push(data);
+    if (this.#conn) {
+      this.#drain();
+    } else {
+      this.connect();
+    }
+  }
+
+  /** Write the buffered records, reconnecting at once if a write fails.
+   * Records written while the connection is being lost may be lost. */
+  #drain(): Promise<void> {
+    this.#draining ??= (async () => {
+      while (this.#conn && this.#queue.length > 0) {
+        const conn = this.#conn;
+        try {
+          await writeAll(conn, this.#queue[0]);
+          this.#queue.shift();
+        } catch {
+          this.#conn = undefined;
+          try {
+            conn.close();
+          } catch {
+            // already closed
+          }
+          this.connect();
+        }
+      }
+    })().finally(() => {
+      this.#draining = undefined;
+      if (this.#conn && this.#queue.length > 0) {
+        this.#drain();
+      }
+    });
+    return this.#draining;
+  }
+
+  /** Write the buffered records, with a last attempt to connect if needed,
+   * and close the connection. */
+  async close(): Promise<void> {
+    if (!this.#conn && this.#queue.length > 0) {
+      this.#retryAt = 0;
+      await this.connect();
+    }
+    while (this.#connecting || this.#draining) {
+      await (this.#connecting ?? this.#draining);
+    }
+    this.#conn?.close();
+    this.#conn = undefined;
+    this.#queue = [];
+    this.#failures = 0;
+    this.#retryAt = 0;
+  }
+}
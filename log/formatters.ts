@@ -0,0 +1,149 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import type { LogRecord } from "./logger.ts";
+
+export type FormatterFunction = (logRecord: LogRecord) => string;
+
+/**
+ * Convert a value to one which `JSON.stringify()` serialises without throwing
+ * or losing information: errors keep their name, message, stack, cause and
+ * own properties, bigints become strings, maps and sets become objects and
+ * arrays, and circular references are replaced with `"[Circular]"`.
+ */
+export function toJSONValue(
+  value: unknown,
+  ancestors: unknown[] = [],
+): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (ancestors.includes(value)) {
+    return "[Circular]";
+  }
+  ancestors.push(value);
+  try {
+    if (value instanceof Error) {
+      const error: Record<string, unknown> = {
+        name: value.name,
+        message: value.message,
+      };
+      if (value.stack !== undefined) {
+        error.stack = value.stack;
+      }
+      const { cause } = value as { cause?: unknown };
+      if (cause !== undefined) {
+        error.cause = toJSONValue(cause, ancestors);
+      }
+      for (const [key, item] of Object.entries(value)) {
+        if (!(key in error)) {
+          error[key] = toJSONValue(item, ancestors);
+        }
+      }
+      return error;
+    }
+    const { toJSON } = value as { toJSON?: unknown };
+    if (typeof toJSON === "function") {
+      return toJSONValue(toJSON.call(value), ancestors);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => toJSONValue(item, ancestors));
+    }
+    if (value instanceof Set) {
+      return [...value].map((item) => toJSONValue(item, ancestors));
+    }
+    const entries = value instanceof Map
+      ? [...value].map(([key, item]) => [String(key), item])
+      : Object.entries(value);
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of entries) {
+      result[key] = toJSONValue(item, ancestors);
+    }
+    return result;
+  } finally {
+    ancestors.pop();
+  }
+}
+
+/**
+ * Format a record as a line of JSON, for log pipelines:
+ *
+ *     {"datetime":"2021-07-27T10:12:03.120Z","levelName":"INFO","loggerName":"default","msg":"handling request","requestId":"f3a1"}
+ *
+ * The arguments of the log call, if any, are serialised as `args`. Fields are
+ * added next to the properties of the record, which take precedence over
+ * fields of the same name.
+ */
+export function jsonFormatter(logRecord: LogRecord): string {
+  const entry: Record<string, unknown> = {
+    datetime: logRecord.datetime.toISOString(),
+    levelName: logRecord.levelName,
+    loggerName: logRecord.loggerName,
+    msg: logRecord.msg,
+  };
+  const { args } = logRecord;
+  if (args.length > 0) {
+    entry.args = args;
+  }
+  for (const [key, value] of Object.entries(logRecord.fields)) {
+    if (!(key in entry)) {
+      entry[key] = value;
+    }
+  }
+  return JSON.stringify(toJSONValue(entry));
+}
+
+/** Returns the value of a placeholder, and whether it is a field. */
+function lookup(
+  logRecord: LogRecord,
+  name: string,
+): { value: unknown; isField: boolean } {
+  if (name === "fields") {
+    return { value: logRecord.fields, isField: true };
+  }
+  if (name in logRecord) {
+    return { value: logRecord[name as keyof LogRecord], isField: false };
+  }
+  let value: unknown = logRecord.fields;
+  for (const key of name.split(".")) {
+    if (
+      typeof value !== "object" || value === null ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return { value: undefined, isField: true };
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { value, isField: true };
+}
+
+/**
+ * Returns a formatter replacing the `{name}` placeholders of a template with
+ * the properties of the record, such as `{levelName}` or `{msg}`, or with its
+ * fields. Nested fields are referenced with dots, as in `{user.id}`, and
+ * `{fields}` is replaced with all the fields. Fields which are objects are
+ * written as JSON. Placeholders without a value are left as is.
+ *
+ *     new ConsoleHandler("INFO", {
+ *       formatter: templateFormatter("{levelName} [{requestId}] {msg}"),
+ *     });
+ *
+ * String formatters of handlers are templates too.
+ */
+export function templateFormatter(template: string): FormatterFunction {
+  return (logRecord: LogRecord): string =>
+    template.replace(/{(\S+)}/g, (match, name: string): string => {
+      const { value, isField } = lookup(logRecord, name);
+
+      // do not interpolate missing values
+      if (value == null) {
+        return match;
+      }
+
+      if (isField && typeof value === "object") {
+        return JSON.stringify(toJSONValue(value));
+      }
+      return String(value);
+    });
+}
@@ -0,0 +1,89 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals } from "../testing/asserts.ts";
+import { LogRecord } from "./logger.ts";
+import { LogLevels } from "./levels.ts";
+import { jsonFormatter, templateFormatter, toJSONValue } from "./formatters.ts";
+
+function record(
+  fields: Record<string, unknown> = {},
+  args: unknown[] = [],
+): LogRecord {
+  return new LogRecord({
+    msg: "hello",
+    args,
+    level: LogLevels.INFO,
+    loggerName: "app",
+    fields,
+  });
+}
+
+Deno.test("toJSONValue", function (): void {
+  const cause = new TypeError("bad input");
+  const error = new Error("failed", { cause });
+  (error as Error & { code: string }).code = "E_FAIL";
+  assertEquals(toJSONValue(error), {
+    name: "Error",
+    message: "failed",
+    stack: error.stack,
+    cause: { name: "TypeError", message: "bad input", stack: cause.stack },
+    code: "E_FAIL",
+  });
+
+  const circular: Record<string, unknown> = { a: 1 };
+  circular.self = circular;
+  const shared = { b: 2 };
+  assertEquals(
+    toJSONValue({
+      circular,
+      shared: [shared, shared],
+      big: 10n,
+      date: new Date(0),
+      map: new Map([[1, "one"]]),
+      set: new Set(["x"]),
+    }),
+    {
+      circular: { a: 1, self: "[Circular]" },
+      shared: [{ b: 2 }, { b: 2 }],
+      big: "10",
+      date: "1970-01-01T00:00:00.000Z",
+      map: { 1: "one" },
+      set: ["x"],
+    },
+  );
+});
+
+Deno.test("jsonFormatter", function (): void {
+  const logRecord = record(
+    { requestId: "f3a1", msg: "ignored" },
+    [1, new Error("boom")],
+  );
+  const entry = JSON.parse(jsonFormatter(logRecord));
+  assertEquals(entry.datetime, logRecord.datetime.toISOString());
+  assertEquals(entry.levelName, "INFO");
+  assertEquals(entry.loggerName, "app");
+  assertEquals(entry.msg, "hello");
+  assertEquals(entry.requestId, "f3a1");
+  assertEquals(entry.args[0], 1);
+  assertEquals(entry.args[1].message, "boom");
+  assertEquals(typeof entry.args[1].stack, "string");
+  assertEquals(Object.keys(JSON.parse(jsonFormatter(record()))), [
+    "datetime",
+    "levelName",
+    "loggerName",
+    "msg",
+  ]);
+});
+
+Deno.test("templateFormatter", function (): void {
+  const format = templateFormatter(
+    "[{loggerName}] {levelName} {msg} {requestId} {user.id} {user} {missing}",
+  );
+  assertEquals(
+    format(record({ requestId: "f3a1", user: { id: 7 } }, [1])),
+    '[app] INFO hello f3a1 7 {"id":7} {missing}',
+  );
+  assertEquals(
+    templateFormatter("{msg} {fields} {args}")(record({ a: 1 }, [1, 2])),
+    'hello {"a":1} 1,2',
+  );
+});
@@ -2,14 +2,24 @@
 import { getLevelByName, LevelName, LogLevels } from "./levels.ts";
 import type { LogRecord } from "./logger.ts";
 import { blue, bold, red, yellow } from "../fmt/colors.ts";
-import { exists, existsSync } from "../fs/exists.ts";
+import { existsSync } from "../fs/exists.ts";
 import { BufWriterSync } from "../io/bufio.ts";
+import { writeAll, writeAllSync } from "../io/util.ts";
+import {
+  readableStreamFromReader,
+  writableStreamFromWriter,
+} from "../io/streams.ts";
+import { basename, dirname } from "../path/mod.ts";
+import { Deferred, deferred } from "../async/deferred.ts";
+import { templateFormatter } from "./formatters.ts";
+import type { FormatterFunction } from "./formatters.ts";
+import { BufferedConnection } from "./_connection.ts";
+import type { ReconnectOptions } from "./_connection.ts";
 
 const DEFAULT_FORMATTER = "{levelName} {msg}";
-type FormatterFunction = (logRecord: LogRecord) => string;
 type LogMode = "a" | "w" | "x";
 
-interface HandlerOptions {
+export interface HandlerOptions {
   formatter?: string | FormatterFunction;
 }
 
@@ -37,16 +47,7 @@ export class BaseHandler {
       return this.formatter(logRecord);
     }
 
-    return this.formatter.replace(/{(\S+)}/g, (match, p1): string => {
-      const value = logRecord[p1 as keyof LogRecord];
-
-      // do not interpolate missing values
-      if (value == null) {
-        return match;
-      }
-
-      return String(value);
-    });
+    return templateFormatter(this.formatter)(logRecord);
   }
 
   log(_msg: string): void {}
@@ -156,63 +157,155 @@ export class FileHandler extends WriterHandler {
   }
 }
 
+/** Rotation periods of `RotatingFileHandler`. */
+export type RotationInterval = "daily" | "hourly";
+
 interface RotatingFileHandlerOptions extends FileHandlerOptions {
-  maxBytes: number;
-  maxBackupCount: number;
+  /** Rotate the log file before it grows larger than this many bytes. */
+  maxBytes?: number;
+  /** The number of rotated files to keep. Required without `interval`. */
+  maxBackupCount?: number;
+  /** Rotate the log file at the start of every day or hour, local time. */
+  interval?: RotationInterval;
+  /** Compress rotated files with gzip, appending `.gz` to their names.
+   * Requires `CompressionStream`, available from Deno 1.14. */
+  compress?: boolean;
+  /** Remove rotated files last modified more than this many milliseconds
+   * ago. */
+  maxAge?: number;
+}
+
+/** The suffixes of rotated log files, after the name of the log file. */
+const BACKUP_PATTERNS = {
+  size: /^\d+(\.gz)?$/,
+  daily: /^\d{4}-\d{2}-\d{2}(\.\d+)?(\.gz)?$/,
+  hourly: /^\d{4}-\d{2}-\d{2}T\d{2}(\.\d+)?(\.gz)?$/,
+};
+
+/** Returns the period of `date`, which names the files rotated by interval,
+ * e.g. `2021-07-27` or `2021-07-27T13`. */
+function formatPeriod(date: Date, interval: RotationInterval): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${
+    pad(date.getDate())
+  }`;
+  return interval === "daily" ? day : `${day}T${pad(date.getHours())}`;
+}
+
+/** A rotated file waiting to be compressed. Its path changes when numbered
+ * backups are renamed, and is `undefined` once the file is removed. */
+interface Compression {
+  path?: string;
+}
+
+/** Ignore a file which was removed meanwhile. */
+function ignoreNotFound(err: unknown): void {
+  if (!(err instanceof Deno.errors.NotFound)) {
+    throw err;
+  }
 }
 
 export class RotatingFileHandler extends FileHandler {
-  #maxBytes: number;
-  #maxBackupCount: number;
+  #maxBytes?: number;
+  #maxBackupCount?: number;
+  #interval?: RotationInterval;
+  #compress: boolean;
+  #maxAge?: number;
   #currentFileSize = 0;
+  /** The period of the records in the log file. */
+  #period?: string;
+  /** The time of the record being handled. */
+  #datetime?: Date;
+  /** Compression and removal of rotated files, in order. */
+  #tasks: Promise<void> = Promise.resolve();
+  #compressions: Compression[] = [];
+  #error?: unknown;
 
   constructor(levelName: LevelName, options: RotatingFileHandlerOptions) {
     super(levelName, options);
+    if (options.compress && !("CompressionStream" in globalThis)) {
+      throw new Error("compress requires CompressionStream");
+    }
     this.#maxBytes = options.maxBytes;
     this.#maxBackupCount = options.maxBackupCount;
+    this.#interval = options.interval;
+    this.#compress = options.compress ?? false;
+    this.#maxAge = options.maxAge;
   }
 
   async setup() {
-    if (this.#maxBytes < 1) {
+    if (this.#maxBytes !== undefined && this.#maxBytes < 1) {
       this.destroy();
       throw new Error("maxBytes cannot be less than 1");
     }
-    if (this.#maxBackupCount < 1) {
+    if (this.#maxBackupCount !== undefined && this.#maxBackupCount < 1) {
       this.destroy();
       throw new Error("maxBackupCount cannot be less than 1");
     }
+    if (this.#maxAge !== undefined && this.#maxAge < 1) {
+      this.destroy();
+      throw new Error("maxAge cannot be less than 1");
+    }
+    if (this.#maxBytes === undefined && this.#interval === undefined) {
+      this.destroy();
+      throw new Error("maxBytes or interval must be set");
+    }
+    if (this.#interval === undefined && this.#maxBackupCount === undefined) {
+      this.destroy();
+      throw new Error("maxBackupCount must be set without interval");
+    }
     await super.setup();
 
     if (this._mode === "w") {
       // Remove old backups too as it doesn't make sense to start with a clean
       // log file, but old backups
-      for (let i = 1; i <= this.#maxBackupCount; i++) {
-        if (await exists(this._filename + "." + i)) {
-          await Deno.remove(this._filename + "." + i);
-        }
+      for (const backup of await this.#backups()) {
+        await Deno.remove(backup.path);
       }
     } else if (this._mode === "x") {
       // Throw if any backups also exist
-      for (let i = 1; i <= this.#maxBackupCount; i++) {
-        if (await exists(this._filename + "." + i)) {
-          this.destroy();
-          throw new Deno.errors.AlreadyExists(
-            "Backup log file " + this._filename + "." + i + " already exists",
-          );
-        }
+      const [backup] = await this.#backups();
+      if (backup) {
+        this.destroy();
+        throw new Deno.errors.AlreadyExists(
+          "Backup log file " + backup.path + " already exists",
+        );
       }
     } else {
-      this.#currentFileSize = (await Deno.stat(this._filename)).size;
+      const { size, mtime } = await Deno.stat(this._filename);
+      this.#currentFileSize = size;
+      if (this.#interval && size > 0) {
+        this.#period = formatPeriod(mtime ?? new Date(), this.#interval);
+      }
+      await this.#prune();
+    }
+  }
+
+  handle(logRecord: LogRecord): void {
+    this.#datetime = logRecord.datetime;
+    try {
+      super.handle(logRecord);
+    } finally {
+      this.#datetime = undefined;
     }
   }
 
   log(msg: string): void {
     const msgByteLength = this._encoder.encode(msg).byteLength + 1;
-
-    if (this.#currentFileSize + msgByteLength > this.#maxBytes) {
+    const period = this.#interval &&
+      formatPeriod(this.#datetime ?? new Date(), this.#interval);
+
+    const due = (period !== undefined && this.#period !== undefined &&
+      period > this.#period && this.#currentFileSize > 0) ||
+      (this.#maxBytes !== undefined &&
+        this.#currentFileSize + msgByteLength > this.#maxBytes);
+    if (due) {
       this.rotateLogFiles();
       this.#currentFileSize = 0;
     }
+    if (period !== undefined && !(this.#period && this.#period > period)) {
+      this.#period = period;
+    }
 
     this._buf.writeSync(this._encoder.encode(msg + "\n"));
     this.#currentFileSize += msgByteLength;
@@ -222,17 +315,374 @@ export class RotatingFileHandler extends FileHandler {
     this._buf.flush();
     Deno.close(this._file!.rid);
 
-    for (let i = this.#maxBackupCount - 1; i >= 0; i--) {
-      const source = this._filename + (i === 0 ? "" : "." + i);
-      const dest = this._filename + "." + (i + 1);
-
-      if (existsSync(source)) {
-        Deno.renameSync(source, dest);
+    let rotated: string;
+    if (this.#interval === undefined) {
+      const last = this._filename + "." + this.#maxBackupCount;
+      for (const path of [last, last + ".gz"]) {
+        if (existsSync(path)) {
+          Deno.removeSync(path);
+        }
+      }
+      this.#moveCompression(last, undefined);
+      for (let i = this.#maxBackupCount! - 1; i >= 0; i--) {
+        const source = this._filename + (i === 0 ? "" : "." + i);
+        const dest = this._filename + "." + (i + 1);
+
+        for (const extension of ["", ".gz"]) {
+          if (existsSync(source + extension)) {
+            Deno.renameSync(source + extension, dest + extension);
+          }
+        }
+        this.#moveCompression(source, dest);
+      }
+      rotated = this._filename + ".1";
+    } else {
+      // Files rotated by size within a period are numbered.
+      const name = this._filename + "." + this.#period;
+      rotated = name;
+      for (let i = 1; existsSync(rotated) || existsSync(rotated + ".gz"); i++) {
+        rotated = name + "." + i;
       }
+      Deno.renameSync(this._filename, rotated);
     }
 
     this._file = Deno.openSync(this._filename, this._openOptions);
     this._writer = this._file;
     this._buf = new BufWriterSync(this._file);
+
+    const compression: Compression | undefined = this.#compress
+      ? { path: rotated }
+      : undefined;
+    if (compression) {
+      this.#compressions.push(compression);
+    } else if (!this.#prunes) {
+      return;
+    }
+    this.#tasks = this.#tasks
+      .then(async () => {
+        if (compression) {
+          await this.#gzip(compression);
+        }
+        await this.#prune();
+      })
+      .catch((err) => {
+        this.#error ??= err;
+      });
+  }
+
+  /** Whether rotated files are removed by `#prune()`, rather than when
+   * numbered backups are renamed. */
+  get #prunes(): boolean {
+    return this.#maxAge !== undefined ||
+      (this.#interval !== undefined && this.#maxBackupCount !== undefined);
+  }
+
+  #moveCompression(from: string, to: string | undefined): void {
+    for (const compression of this.#compressions) {
+      if (compression.path === from) {
+        compression.path = to;
+      }
+    }
+  }
+
+  /** Replace a rotated file with its gzip-compressed version, with `.gz`
+   * appended to its name. The file may be renamed meanwhile: it is read from
+   * the file opened first, and compressed into a temporary file which is
+   * renamed synchronously, once done, after the current name of the file. */
+  async #gzip(compression: Compression): Promise<void> {
+    try {
+      if (compression.path === undefined) return;
+      const source = await Deno.open(compression.path);
+      const temp = this._filename + ".gz.tmp";
+      const dest = await Deno.open(temp, {
+        write: true,
+        create: true,
+        truncate: true,
+      });
+      await readableStreamFromReader(source)
+        .pipeThrough(new CompressionStream("gzip"))
+        .pipeTo(writableStreamFromWriter(dest));
+      if (compression.path === undefined) {
+        Deno.removeSync(temp);
+      } else {
+        Deno.renameSync(temp, compression.path + ".gz");
+        Deno.removeSync(compression.path);
+      }
+    } finally {
+      this.#compressions.splice(this.#compressions.indexOf(compression), 1);
+    }
+  }
+
+  /** Returns the rotated log files, most recently modified first. */
+  async #backups(): Promise<{ path: string; mtime: number }[]> {
+    const dir = dirname(this._filename);
+    const prefix = basename(this._filename) + ".";
+    const pattern = BACKUP_PATTERNS[this.#interval ?? "size"];
+    const backups = [];
+    for await (const entry of Deno.readDir(dir)) {
+      if (
+        entry.isFile && entry.name.startsWith(prefix) &&
+        pattern.test(entry.name.slice(prefix.length))
+      ) {
+        const path = this._filename + "." + entry.name.slice(prefix.length);
+        try {
+          const { mtime } = await Deno.stat(path);
+          backups.push({ path, mtime: mtime?.getTime() ?? 0 });
+        } catch (err) {
+          ignoreNotFound(err);
+        }
+      }
+    }
+    return backups.sort((a, b) =>
+      b.mtime - a.mtime || b.path.localeCompare(a.path)
+    );
+  }
+
+  /** Remove the rotated files exceeding `maxBackupCount` or `maxAge`,
+   * except those waiting to be compressed. */
+  async #prune(): Promise<void> {
+    if (!this.#prunes) return;
+    const now = Date.now();
+    const backups = await this.#backups();
+    for (const [i, { path, mtime }] of backups.entries()) {
+      if (
+        (this.#interval !== undefined && this.#maxBackupCount !== undefined &&
+          i >= this.#maxBackupCount) ||
+        (this.#maxAge !== undefined && now - mtime > this.#maxAge)
+      ) {
+        if (this.#compressions.some((c) => c.path === path)) continue;
+        await Deno.remove(path).catch(ignoreNotFound);
+      }
+    }
+  }
+
+  /** Waits for rotated files to be compressed and removed, and rejects with
+   * the first error which occurred meanwhile. */
+  async destroy() {
+    await super.destroy();
+    await this.#tasks;
+    const error = this.#error;
+    this.#error = undefined;
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * What `AsyncFileHandler` does with a record when its queue is full:
+ *
+ * - `"block"`: write the queued records right after the batch being written,
+ *   if any, without waiting for the timer.
+ * - `"drop-newest"`: discard the record.
+ * - `"drop-oldest"`: discard the oldest queued record.
+ */
+export type OverflowPolicy = "block" | "drop-newest" | "drop-oldest";
+
+interface AsyncFileHandlerOptions extends FileHandlerOptions {
+  /** Write queued records once there are this many. Defaults to 100. */
+  batchSize?: number;
+  /** Write queued records at most this many milliseconds after they are
+   * logged. Defaults to 1000. */
+  flushInterval?: number;
+  /** The maximum number of queued records. Defaults to 10000. */
+  maxQueueSize?: number;
+  /** Defaults to `"block"`. */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * A file handler which doesn't write in logging calls: records are queued and
+ * written asynchronously in batches, one batch at a time. A batch is written
+ * on the next tick of the event loop once `batchSize` records are queued, or
+ * `flushInterval` milliseconds after its first record otherwise. Log messages
+ * with a log level greater than ERROR are written immediately.
+ *
+ * Queued records are written by `flush()` and `destroy()`, and synchronously
+ * on unload.
+ */
+export class AsyncFileHandler extends FileHandler {
+  #batchSize: number;
+  #flushInterval: number;
+  #maxQueueSize: number;
+  #overflow: OverflowPolicy;
+  #queue: string[] = [];
+  #dropped = 0;
+  #timer?: number;
+  /** Resolved once the file is opened by `setup()`. */
+  #opened: Deferred<void> = deferred();
+  /** The last batch written, settled once it and the previous ones are. */
+  #writing?: Promise<void>;
+  #error?: unknown;
+  #onUnload = (): void => {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    if (!this._file || this.#queue.length === 0) return;
+    try {
+      writeAllSync(this._file, this.#encode());
+    } catch (err) {
+      this.#error ??= err;
+    }
+  };
+
+  constructor(levelName: LevelName, options: AsyncFileHandlerOptions) {
+    super(levelName, options);
+    this.#batchSize = options.batchSize ?? 100;
+    this.#flushInterval = options.flushInterval ?? 1000;
+    this.#maxQueueSize = options.maxQueueSize ?? 10000;
+    this.#overflow = options.overflow ?? "block";
+  }
+
+  /** The number of records discarded because the queue was full. */
+  get dropped(): number {
+    return this.#dropped;
+  }
+
+  async setup() {
+    this._file = await Deno.open(this._filename, this._openOptions);
+    this._writer = this._file;
+    this.#opened.resolve();
+    addEventListener("unload", this.#onUnload);
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+
+    this.log(this.format(logRecord));
+    if (logRecord.level > LogLevels.ERROR) {
+      this.#write();
+    }
+  }
+
+  log(msg: string): void {
+    if (this.#queue.length >= this.#maxQueueSize) {
+      switch (this.#overflow) {
+        case "drop-newest":
+          this.#dropped++;
+          return;
+        case "drop-oldest":
+          this.#queue.shift();
+          this.#dropped++;
+          break;
+        case "block":
+          this.#write();
+          break;
+      }
+    }
+    this.#queue.push(msg);
+    if (this.#queue.length === this.#batchSize) {
+      this.#schedule(0);
+    } else if (this.#timer === undefined) {
+      this.#schedule(this.#flushInterval);
+    }
+  }
+
+  #schedule(delay: number): void {
+    clearTimeout(this.#timer);
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      // Otherwise, the queue is scheduled again once the batch is written.
+      if (!this.#writing) {
+        this.#write();
+      }
+    }, delay);
+  }
+
+  /** Returns the queued records as a batch, emptying the queue. */
+  #encode(): Uint8Array {
+    const data = this._encoder.encode(this.#queue.join("\n") + "\n");
+    this.#queue = [];
+    return data;
+  }
+
+  /** Write the queued records after the batches being written, once the file
+   * is opened. Errors are thrown by the next `flush()`. */
+  #write(): void {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    if (this.#queue.length === 0) return;
+    const data = this.#encode();
+    const writing: Promise<void> = (this.#writing ?? Promise.resolve())
+      .then(() => this.#opened)
+      .then(() => writeAll(this._file!, data))
+      .catch((err) => {
+        this.#error ??= err;
+      })
+      .finally(() => {
+        if (this.#writing !== writing) return;
+        this.#writing = undefined;
+        if (this.#queue.length >= this.#batchSize) {
+          this.#schedule(0);
+        } else if (this.#queue.length > 0 && this.#timer === undefined) {
+          this.#schedule(this.#flushInterval);
+        }
+      });
+    this.#writing = writing;
+  }
+
+  /** Write the queued records. Rejects with the first error which occurred
+   * while writing records since the last call. */
+  async flush(): Promise<void> {
+    this.#write();
+    while (this._file && this.#writing) {
+      await this.#writing;
+    }
+    const error = this.#error;
+    this.#error = undefined;
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+
+  async destroy() {
+    removeEventListener("unload", this.#onUnload);
+    try {
+      await this.flush();
+    } finally {
+      this._file?.close();
+      this._file = undefined;
+      this.#opened = deferred();
+    }
+  }
+}
+
+interface TcpHandlerOptions extends HandlerOptions, ReconnectOptions {
+  /** Defaults to `"127.0.0.1"`. */
+  hostname?: string;
+  port: number;
+}
+
+/**
+ * Sends log messages to a TCP server, one per line, e.g. formatted with
+ * `jsonFormatter` for a log collector. Messages logged while disconnected are
+ * buffered, and the handler reconnects with exponential backoff.
+ */
+export class TcpHandler extends BaseHandler {
+  #connection: BufferedConnection;
+  #encoder = new TextEncoder();
+
+  constructor(levelName: LevelName, options: TcpHandlerOptions) {
+    super(levelName, options);
+    this.#connection = new BufferedConnection({
+      hostname: options.hostname ?? "127.0.0.1",
+      port: options.port,
+    }, options);
+  }
+
+  /** The number of records discarded because the buffer was full. */
+  get dropped(): number {
+    return this.#connection.dropped;
+  }
+
+  async setup() {
+    await this.#connection.connect();
+  }
+
+  log(msg: string): void {
+    this.#connection.write(this.#encoder.encode(msg + "\n"));
+  }
+
+  async destroy() {
+    await this.#connection.close();
   }
 }
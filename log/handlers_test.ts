@@ -3,6 +3,7 @@ import {
   assert,
   assertEquals,
   assertNotEquals,
+  assertThrows,
   assertThrowsAsync,
 } from "../testing/asserts.ts";
 import {
@@ -12,9 +13,19 @@ import {
   LogLevelNames,
   LogLevels,
 } from "./levels.ts";
-import { BaseHandler, FileHandler, RotatingFileHandler } from "./handlers.ts";
+import {
+  AsyncFileHandler,
+  BaseHandler,
+  FileHandler,
+  RotatingFileHandler,
+  TcpHandler,
+} from "./handlers.ts";
 import { LogRecord } from "./logger.ts";
 import { existsSync } from "../fs/exists.ts";
+import { delay } from "../async/delay.ts";
+import { BufReader } from "../io/bufio.ts";
+import { readAll } from "../io/util.ts";
+import { TextProtoReader } from "../textproto/mod.ts";
 
 const LOG_FILE = "./test_log.file";
 
@@ -499,6 +510,235 @@ Deno.test({
   },
 });
 
+function recordAt(datetime: Date, msg = "AAA"): LogRecord {
+  return new LogRecord({
+    msg,
+    args: [],
+    level: LogLevels.ERROR,
+    loggerName: "default",
+    datetime,
+  });
+}
+
+function rotatedFiles(): string[] {
+  const files = [];
+  for (const entry of Deno.readDirSync(".")) {
+    if (entry.name.startsWith("test_log.file.")) {
+      files.push(entry.name.slice("test_log.file.".length));
+    }
+  }
+  return files.sort();
+}
+
+function removeLogFiles(): void {
+  for (const name of rotatedFiles()) {
+    Deno.removeSync(LOG_FILE + "." + name);
+  }
+  Deno.removeSync(LOG_FILE);
+}
+
+Deno.test({
+  name: "RotatingFileHandler: rotate by interval with dated names",
+  async fn() {
+    const fileHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      interval: "daily",
+      maxBytes: 16,
+    });
+    await fileHandler.setup();
+
+    fileHandler.handle(recordAt(new Date(2021, 6, 27, 10), "A"));
+    fileHandler.handle(recordAt(new Date(2021, 6, 27, 23), "B"));
+    fileHandler.handle(recordAt(new Date(2021, 6, 28, 0), "C"));
+    // rotations by size within a period are numbered
+    fileHandler.handle(recordAt(new Date(2021, 6, 28, 1), "D"));
+    fileHandler.handle(recordAt(new Date(2021, 6, 28, 2), "E"));
+    fileHandler.handle(recordAt(new Date(2021, 6, 28, 3), "F"));
+    await fileHandler.destroy();
+
+    const read = (name: string) =>
+      Deno.readTextFileSync(LOG_FILE + (name ? "." + name : ""));
+    assertEquals(rotatedFiles(), ["2021-07-27", "2021-07-28"]);
+    assertEquals(read("2021-07-27"), "ERROR A\nERROR B\n");
+    assertEquals(read("2021-07-28"), "ERROR C\nERROR D\n");
+    assertEquals(read(""), "ERROR E\nERROR F\n");
+
+    // the period of an existing log file is that of its modification time
+    const mtime = new Date(2021, 6, 28, 3, 30);
+    Deno.utimeSync(LOG_FILE, mtime, mtime);
+    const hourlyHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "a",
+      interval: "hourly",
+      maxBytes: 9,
+    });
+    await hourlyHandler.setup();
+    hourlyHandler.handle(recordAt(new Date(2021, 6, 28, 3), "G"));
+    hourlyHandler.handle(recordAt(new Date(2021, 6, 28, 3), "H"));
+    await hourlyHandler.destroy();
+
+    assertEquals(rotatedFiles(), [
+      "2021-07-27",
+      "2021-07-28",
+      "2021-07-28T03",
+      "2021-07-28T03.1",
+    ]);
+    assertEquals(read("2021-07-28T03"), "ERROR E\nERROR F\n");
+    assertEquals(read("2021-07-28T03.1"), "ERROR G\n");
+    assertEquals(read(""), "ERROR H\n");
+
+    removeLogFiles();
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler: rotate repeatedly without awaiting",
+  async fn() {
+    const fileHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      maxBytes: 20,
+      maxBackupCount: 2,
+    });
+    await fileHandler.setup();
+
+    for (const msg of ["AAA", "BBB", "CCC", "DDD", "EEE", "FFF"]) {
+      fileHandler.handle(recordAt(new Date(), msg));
+    }
+    await fileHandler.destroy();
+
+    assertEquals(rotatedFiles(), ["1", "2"]);
+    assert(Deno.statSync(LOG_FILE + ".1").size <= 20);
+    assert(Deno.statSync(LOG_FILE + ".2").size <= 20);
+    assertEquals(
+      Deno.readTextFileSync(LOG_FILE + ".1"),
+      "ERROR CCC\nERROR DDD\n",
+    );
+    assertEquals(
+      Deno.readTextFileSync(LOG_FILE + ".2"),
+      "ERROR AAA\nERROR BBB\n",
+    );
+
+    removeLogFiles();
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler: compress rotated files",
+  async fn() {
+    const fileHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      maxBytes: 10,
+      maxBackupCount: 2,
+      compress: true,
+    });
+    await fileHandler.setup();
+
+    const gunzip = async (name: string) => {
+      const file = await Deno.open(LOG_FILE + "." + name);
+      const stream = file.readable.pipeThrough(
+        new DecompressionStream("gzip"),
+      );
+      return await new Response(stream).text();
+    };
+
+    fileHandler.handle(recordAt(new Date(), "A"));
+    fileHandler.handle(recordAt(new Date(), "B"));
+    fileHandler.handle(recordAt(new Date(), "C"));
+    fileHandler.handle(recordAt(new Date(), "D"));
+    await fileHandler.destroy();
+
+    assertEquals(rotatedFiles(), ["1.gz", "2.gz"]);
+    assertEquals(await gunzip("1.gz"), "ERROR C\n");
+    assertEquals(await gunzip("2.gz"), "ERROR B\n");
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "ERROR D\n");
+
+    removeLogFiles();
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler: compress requires CompressionStream",
+  fn() {
+    const descriptor = Object.getOwnPropertyDescriptor(
+      globalThis,
+      "CompressionStream",
+    )!;
+    Reflect.deleteProperty(globalThis, "CompressionStream");
+    try {
+      assertThrows(
+        () =>
+          new RotatingFileHandler("WARNING", {
+            filename: LOG_FILE,
+            maxBytes: 10,
+            maxBackupCount: 2,
+            compress: true,
+          }),
+        Error,
+        "compress requires CompressionStream",
+      );
+    } finally {
+      Object.defineProperty(globalThis, "CompressionStream", descriptor);
+    }
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler: remove rotated files by count and age",
+  async fn() {
+    Deno.writeTextFileSync(LOG_FILE, "");
+    Deno.writeTextFileSync(LOG_FILE + ".2000-01-01", "old");
+    Deno.utimeSync(
+      LOG_FILE + ".2000-01-01",
+      new Date(2000, 0, 2),
+      new Date(2000, 0, 2),
+    );
+    Deno.writeTextFileSync(LOG_FILE + ".unrelated", "");
+
+    const fileHandler = new RotatingFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "a",
+      interval: "daily",
+      maxBackupCount: 2,
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    });
+    await fileHandler.setup();
+    // rotated files older than maxAge are removed on setup
+    assertEquals(rotatedFiles(), ["unrelated"]);
+
+    for (let day = 1; day <= 4; day++) {
+      fileHandler.handle(recordAt(new Date(2021, 6, day)));
+      await delay(10);
+    }
+    await fileHandler.destroy();
+
+    // only the most recent rotated files are kept
+    assertEquals(rotatedFiles(), ["2021-07-02", "2021-07-03", "unrelated"]);
+
+    removeLogFiles();
+  },
+});
+
+Deno.test({
+  name: "RotatingFileHandler requires maxBytes or interval",
+  async fn() {
+    await assertThrowsAsync(
+      async () => {
+        const fileHandler = new RotatingFileHandler("WARNING", {
+          filename: LOG_FILE,
+          maxBackupCount: 3,
+          mode: "w",
+        });
+        await fileHandler.setup();
+      },
+      Error,
+      "maxBytes or interval must be set",
+    );
+  },
+});
+
 Deno.test({
   name: "FileHandler: Critical logs trigger immediate flush",
   async fn() {
@@ -539,3 +779,220 @@ Deno.test({
     Deno.removeSync(LOG_FILE);
   },
 });
+
+Deno.test({
+  name: "AsyncFileHandler: Records are written in batches",
+  async fn() {
+    const fileHandler = new AsyncFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      batchSize: 3,
+      flushInterval: 50,
+    });
+    await fileHandler.setup();
+
+    fileHandler.log("A");
+    fileHandler.log("B");
+    await delay(10);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "");
+
+    // the third record completes a batch
+    fileHandler.log("C");
+    await delay(10);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\nC\n");
+
+    // incomplete batches are written after flushInterval
+    fileHandler.log("D");
+    await delay(10);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\nC\n");
+    await delay(100);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\nC\nD\n");
+
+    // records above ERROR are written immediately
+    const record = (level: number) =>
+      new LogRecord({ msg: "AAA", args: [], level, loggerName: "default" });
+    fileHandler.handle(record(LogLevels.ERROR));
+    await delay(10);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\nC\nD\n");
+    fileHandler.handle(record(LogLevels.CRITICAL));
+    await delay(10);
+    assertEquals(
+      Deno.readTextFileSync(LOG_FILE),
+      "A\nB\nC\nD\nERROR AAA\nCRITICAL AAA\n",
+    );
+
+    await fileHandler.destroy();
+    Deno.removeSync(LOG_FILE);
+  },
+});
+
+Deno.test({
+  name: "AsyncFileHandler: flush() and destroy() write queued records",
+  async fn() {
+    const fileHandler = new AsyncFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      flushInterval: 60000,
+    });
+    await fileHandler.setup();
+
+    fileHandler.log("A");
+    await fileHandler.flush();
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\n");
+
+    fileHandler.log("B");
+    fileHandler.log("C");
+    await fileHandler.destroy();
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\nC\n");
+
+    // destroying twice is harmless
+    await fileHandler.destroy();
+    Deno.removeSync(LOG_FILE);
+  },
+});
+
+Deno.test({
+  name: "AsyncFileHandler: Blocking keeps records in order",
+  async fn() {
+    const fileHandler = new AsyncFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      batchSize: 10,
+      maxQueueSize: 3,
+      overflow: "block",
+    });
+    await fileHandler.setup();
+
+    const records = ["1", "2", "3", "4", "5", "6", "7", "8"];
+    for (const record of records.slice(0, 4)) {
+      fileHandler.log(record);
+    }
+    // the full queue is written by the fourth call, without waiting for the
+    // timer
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "");
+    await delay(10);
+    assertEquals(Deno.readTextFileSync(LOG_FILE), "1\n2\n3\n");
+    // several full queues are written one after the other
+    for (const record of records.slice(4)) {
+      fileHandler.log(record);
+    }
+    await fileHandler.destroy();
+
+    assertEquals(Deno.readTextFileSync(LOG_FILE), records.join("\n") + "\n");
+    assertEquals(fileHandler.dropped, 0);
+    Deno.removeSync(LOG_FILE);
+  },
+});
+
+Deno.test({
+  name: "AsyncFileHandler: Blocking before setup() hands full queues to the writer",
+  async fn() {
+    const fileHandler = new AsyncFileHandler("WARNING", {
+      filename: LOG_FILE,
+      mode: "w",
+      maxQueueSize: 2,
+      overflow: "block",
+    });
+
+    const records = ["1", "2", "3", "4", "5"];
+    for (const record of records) {
+      fileHandler.log(record);
+    }
+    await fileHandler.setup();
+    await fileHandler.destroy();
+
+    assertEquals(Deno.readTextFileSync(LOG_FILE), records.join("\n") + "\n");
+    assertEquals(fileHandler.dropped, 0);
+    Deno.removeSync(LOG_FILE);
+  },
+});
+
+Deno.test({
+  name: "AsyncFileHandler: Overflow policies apply when the queue is full",
+  async fn() {
+    const expected = {
+      "block": "A\nB\nC\nD\n",
+      "drop-newest": "A\nB\n",
+      "drop-oldest": "C\nD\n",
+    };
+    for (const [overflow, contents] of Object.entries(expected)) {
+      const fileHandler = new AsyncFileHandler("WARNING", {
+        filename: LOG_FILE,
+        mode: "w",
+        flushInterval: 60000,
+        maxQueueSize: 2,
+        overflow: overflow as keyof typeof expected,
+      });
+      await fileHandler.setup();
+
+      fileHandler.log("A");
+      fileHandler.log("B");
+      fileHandler.log("C");
+      fileHandler.log("D");
+      if (overflow === "block") {
+        // the full queue was written without waiting for the timer
+        await delay(10);
+        assertEquals(Deno.readTextFileSync(LOG_FILE), "A\nB\n");
+        assertEquals(fileHandler.dropped, 0);
+      } else {
+        assertEquals(fileHandler.dropped, 2);
+      }
+
+      await fileHandler.destroy();
+      assertEquals(Deno.readTextFileSync(LOG_FILE), contents, overflow);
+    }
+    Deno.removeSync(LOG_FILE);
+  },
+});
+
+Deno.test({
+  name: "TcpHandler: Messages are buffered while reconnecting",
+  async fn() {
+    const port = 8135;
+    let listener = Deno.listen({ hostname: "127.0.0.1", port });
+    const handler = new TcpHandler("WARNING", { port, minDelay: 10 });
+    await handler.setup();
+    let conn = await listener.accept();
+    let reader = new TextProtoReader(new BufReader(conn));
+
+    handler.log("A");
+    assertEquals(await reader.readLine(), "A");
+
+    conn.close();
+    listener.close();
+    // a message written as the connection is lost may be lost
+    handler.log("B");
+    await delay(50);
+    handler.log("C");
+    await delay(50);
+    handler.log("D");
+
+    listener = Deno.listen({ hostname: "127.0.0.1", port });
+    await delay(50);
+    handler.log("E");
+    conn = await listener.accept();
+    reader = new TextProtoReader(new BufReader(conn));
+    const lines = [];
+    for (;;) {
+      const line = await reader.readLine();
+      lines.push(line);
+      if (line === "E") break;
+    }
+    assertEquals(lines.slice(-3), ["C", "D", "E"]);
+    assertEquals(handler.dropped, 0);
+
+    // buffered messages are sent on destroy
+    conn.close();
+    handler.log("F");
+    await delay(50);
+    handler.log("G");
+    const accepted = listener.accept();
+    await handler.destroy();
+    conn = await accepted;
+    const rest = new TextDecoder().decode(await readAll(conn));
+    assert(rest.endsWith("G\n"), rest);
+
+    conn.close();
+    listener.close();
+  },
+});
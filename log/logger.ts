@@ -6,16 +6,23 @@ import type { BaseHandler } from "./handlers.ts";
 // deno-lint-ignore no-explicit-any
 export type GenericFunction = (...args: any[]) => any;
 
+/** Key/value pairs attached to log records. */
+export type LogFields = Record<string, unknown>;
+
 export interface LogRecordOptions {
   msg: string;
   args: unknown[];
   level: number;
   loggerName: string;
+  fields?: LogFields;
+  /** Defaults to now. */
+  datetime?: Date;
 }
 
 export class LogRecord {
   readonly msg: string;
   #args: unknown[];
+  #fields: LogFields;
   #datetime: Date;
   readonly level: number;
   readonly levelName: string;
@@ -24,27 +31,66 @@ export class LogRecord {
   constructor(options: LogRecordOptions) {
     this.msg = options.msg;
     this.#args = [...options.args];
+    this.#fields = { ...options.fields };
     this.level = options.level;
     this.loggerName = options.loggerName;
-    this.#datetime = new Date();
+    this.#datetime = options.datetime
+      ? new Date(options.datetime.getTime())
+      : new Date();
     this.levelName = getLevelName(options.level);
   }
   get args(): unknown[] {
     return [...this.#args];
   }
+  get fields(): LogFields {
+    return { ...this.#fields };
+  }
   get datetime(): Date {
     return new Date(this.#datetime.getTime());
   }
 }
 
+const FIELDS = Symbol("fields");
+
+interface FieldsArg {
+  [FIELDS]: LogFields;
+}
+
+/**
+ * Wrap key/value pairs to attach them to the record of a log call, instead of
+ * adding them to its `args`:
+ *
+ *     logger.info("user logged in", fields({ userId: 42 }));
+ */
+export function fields(fields: LogFields): FieldsArg {
+  return { [FIELDS]: fields };
+}
+
+function isFieldsArg(arg: unknown): arg is FieldsArg {
+  return typeof arg === "object" && arg !== null && FIELDS in arg;
+}
+
 export interface LoggerOptions {
+  /** Defaults to the handlers of `parent`, or to none. */
   handlers?: BaseHandler[];
+  /** Fields attached to every record of the logger. */
+  fields?: LogFields;
+  /** The logger this one inherits from: a logger whose level is `NOTSET`
+   * uses the level of its parent, and a logger without `handlers` uses the
+   * handlers of its parent. */
+  parent?: Logger;
+  /** Pass records to the handlers of the ancestors of the logger too, up to
+   * the first one which does not propagate. Defaults to `false`. */
+  propagate?: boolean;
 }
 
 export class Logger {
   #level: LogLevels;
-  #handlers: BaseHandler[];
+  #handlers?: BaseHandler[];
+  #fields: LogFields;
   readonly #loggerName: string;
+  readonly #parent?: Logger;
+  #propagate: boolean;
 
   constructor(
     loggerName: string,
@@ -53,10 +99,31 @@ export class Logger {
   ) {
     this.#loggerName = loggerName;
     this.#level = getLevelByName(levelName);
-    this.#handlers = options.handlers || [];
+    this.#parent = options.parent;
+    this.#handlers = options.handlers ?? (this.#parent ? undefined : []);
+    this.#fields = { ...options.fields };
+    this.#propagate = options.propagate ?? false;
+  }
+
+  /** A logger whose records carry the fields of this logger and the given
+   * ones. Unless they are set on the child, it uses the level and the
+   * handlers of this logger.
+   *
+   *     const requestLogger = logger.child({ requestId });
+   *     requestLogger.info("handling request");
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.#loggerName, "NOTSET", {
+      fields: { ...this.#fields, ...fields },
+      parent: this,
+      propagate: true,
+    });
   }
 
   get level(): LogLevels {
+    if (this.#level === LogLevels.NOTSET && this.#parent) {
+      return this.#parent.level;
+    }
     return this.#level;
   }
   set level(level: LogLevels) {
@@ -64,7 +131,7 @@ export class Logger {
   }
 
   get levelName(): LevelName {
-    return getLevelName(this.#level);
+    return getLevelName(this.level);
   }
   set levelName(levelName: LevelName) {
     this.#level = getLevelByName(levelName);
@@ -78,7 +145,23 @@ export class Logger {
     this.#handlers = hndls;
   }
   get handlers(): BaseHandler[] {
-    return this.#handlers;
+    return this.#handlers ?? this.#parent!.handlers;
+  }
+
+  get parent(): Logger | undefined {
+    return this.#parent;
+  }
+
+  get propagate(): boolean {
+    return this.#propagate;
+  }
+  set propagate(propagate: boolean) {
+    this.#propagate = propagate;
+  }
+
+  /** The fields attached to every record of the logger. */
+  get fields(): LogFields {
+    return { ...this.#fields };
   }
 
   /** If the level of the logger is greater than the level to log, then nothing
@@ -105,14 +188,32 @@ export class Logger {
     } else {
       logMessage = this.asString(msg);
     }
+    const recordFields = { ...this.#fields };
+    const recordArgs = args.filter((arg) => {
+      if (isFieldsArg(arg)) {
+        Object.assign(recordFields, arg[FIELDS]);
+        return false;
+      }
+      return true;
+    });
     const record: LogRecord = new LogRecord({
       msg: logMessage,
-      args: args,
+      args: recordArgs,
       level: level,
       loggerName: this.loggerName,
+      fields: recordFields,
     });
 
-    this.#handlers.forEach((handler): void => {
+    // A handler shared by several ancestors handles the record once.
+    const handlers = new Set(this.handlers);
+    for (
+      let logger = this.#propagate ? this.#parent : undefined;
+      logger;
+      logger = logger.#propagate ? logger.#parent : undefined
+    ) {
+      logger.handlers.forEach((handler) => handlers.add(handler));
+    }
+    handlers.forEach((handler): void => {
       handler.handle(record);
     });
 
@@ -1,6 +1,6 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 import { assert, assertEquals, assertMatch } from "../testing/asserts.ts";
-import { Logger, LogRecord } from "./logger.ts";
+import { fields, Logger, LogRecord } from "./logger.ts";
 import { LevelName, LogLevels } from "./levels.ts";
 import { BaseHandler } from "./handlers.ts";
 
@@ -253,3 +253,38 @@ Deno.test(
     assertMatch(messages19[1], /^\s+at file:.*\d+:\d+$/);
   },
 );
+
+Deno.test("Logger fields and child loggers", function (): void {
+  const handler = new TestHandler("DEBUG", {
+    formatter: "{levelName} {msg} {fields}",
+  });
+  const logger = new Logger("app", "INFO", {
+    handlers: [handler],
+    fields: { app: "shop" },
+  });
+  logger.info("started", fields({ port: 80 }), 1);
+  assertEquals(handler.records[0].fields, { app: "shop", port: 80 });
+  assertEquals(handler.records[0].args, [1]);
+
+  const child = logger.child({ requestId: "f3a1" });
+  assertEquals(child.loggerName, "app");
+  assertEquals(child.fields, { app: "shop", requestId: "f3a1" });
+  child.info("request", fields({ requestId: "f3a2", status: 200 }));
+  child.child({ user: 7 }).warning("slow");
+  child.debug("not logged");
+  assertEquals(handler.messages.slice(1), [
+    'INFO request {"app":"shop","requestId":"f3a2","status":200}',
+    'WARNING slow {"app":"shop","requestId":"f3a1","user":7}',
+  ]);
+
+  // The child uses the level and handlers of its parent, unless set.
+  logger.levelName = "DEBUG";
+  assertEquals(child.levelName, "DEBUG");
+  child.levelName = "ERROR";
+  assertEquals(logger.levelName, "DEBUG");
+  const other = new TestHandler("DEBUG");
+  logger.handlers = [other];
+  child.error("failed");
+  assertEquals(other.messages, ["ERROR failed"]);
+  assertEquals(logger.fields, { app: "shop" });
+});
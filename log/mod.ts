@@ -2,10 +2,12 @@
 import { Logger } from "./logger.ts";
 import type { GenericFunction } from "./logger.ts";
 import {
+  AsyncFileHandler,
   BaseHandler,
   ConsoleHandler,
   FileHandler,
   RotatingFileHandler,
+  TcpHandler,
   WriterHandler,
 } from "./handlers.ts";
 import { assert } from "../_util/assert.ts";
@@ -13,11 +15,16 @@ import type { LevelName } from "./levels.ts";
 
 export { LogLevels } from "./levels.ts";
 export type { LevelName } from "./levels.ts";
-export { Logger } from "./logger.ts";
+export { fields, Logger } from "./logger.ts";
+export type { LogFields } from "./logger.ts";
+export { jsonFormatter, templateFormatter } from "./formatters.ts";
+export type { FormatterFunction } from "./formatters.ts";
 
 export class LoggerConfig {
   level?: LevelName;
   handlers?: string[];
+  /** Pass records to the handlers of the ancestors of the logger too. */
+  propagate?: boolean;
 }
 
 export interface LogConfig {
@@ -55,9 +62,25 @@ export const handlers = {
   WriterHandler,
   FileHandler,
   RotatingFileHandler,
+  AsyncFileHandler,
+  TcpHandler,
 };
 
-/** Get a logger instance. If not specified `name`, get the default logger.  */
+/** Returns the name of the parent of a logger, e.g. `app.db` for
+ * `app.db.pool`. */
+function parentName(name: string): string | undefined {
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(0, index) : undefined;
+}
+
+/**
+ * Get a logger instance. If not specified `name`, get the default logger.
+ *
+ * Names are hierarchical, with dots as separators: a logger which is not
+ * configured, such as `app.db.pool`, uses the level and handlers of its
+ * nearest configured ancestor, such as `app.db` or `app`. Without such an
+ * ancestor, it has no handlers.
+ */
 export function getLogger(name?: string): Logger {
   if (!name) {
     const d = state.loggers.get("default");
@@ -69,7 +92,13 @@ export function getLogger(name?: string): Logger {
   }
   const result = state.loggers.get(name);
   if (!result) {
-    const logger = new Logger(name, "NOTSET", { handlers: [] });
+    const parent = parentName(name);
+    const logger = parent === undefined
+      ? new Logger(name, "NOTSET", { handlers: [] })
+      : new Logger(name, "NOTSET", {
+        parent: getLogger(parent),
+        propagate: true,
+      });
     state.loggers.set(name, logger);
     return logger;
   }
@@ -186,22 +215,42 @@ export async function setup(config: LogConfig) {
   // remove existing loggers
   state.loggers.clear();
 
-  // setup loggers
+  // setup loggers, ancestors first
   const loggers = state.config.loggers || {};
-  for (const loggerName in loggers) {
+  const loggerNames = Object.keys(loggers).sort((a, b) =>
+    a.split(".").length - b.split(".").length
+  );
+  for (const loggerName of loggerNames) {
     const loggerConfig = loggers[loggerName];
-    const handlerNames = loggerConfig.handlers || [];
-    const handlers: BaseHandler[] = [];
+    let parent: Logger | undefined;
+    let hasConfiguredAncestor = false;
+    const name = parentName(loggerName);
+    if (name !== undefined) {
+      parent = getLogger(name);
+      for (let n: string | undefined = name; n; n = parentName(n)) {
+        hasConfiguredAncestor ||= n in loggers;
+      }
+    }
 
-    handlerNames.forEach((handlerName): void => {
-      const handler = state.handlers.get(handlerName);
-      if (handler) {
-        handlers.push(handler);
+    // Loggers without handlers use those of their parent.
+    let handlers: BaseHandler[] | undefined;
+    if (loggerConfig.handlers || !parent) {
+      handlers = [];
+      for (const handlerName of loggerConfig.handlers || []) {
+        const handler = state.handlers.get(handlerName);
+        if (handler) {
+          handlers.push(handler);
+        }
       }
-    });
+    }
 
-    const levelName = loggerConfig.level || DEFAULT_LEVEL;
-    const logger = new Logger(loggerName, levelName, { handlers: handlers });
+    const levelName = loggerConfig.level ||
+      (hasConfiguredAncestor ? "NOTSET" : DEFAULT_LEVEL);
+    const logger = new Logger(loggerName, levelName, {
+      handlers,
+      parent,
+      propagate: loggerConfig.propagate,
+    });
     state.loggers.set(loggerName, logger);
   }
 }
@@ -220,3 +220,65 @@ Deno.test({
     assertEquals(testHandlerB.messages.length, 2);
   },
 });
+
+Deno.test({
+  name: "Loggers inherit from their nearest configured ancestor",
+  async fn() {
+    const appHandler = new TestHandler("DEBUG", {
+      formatter: "[{loggerName}] {levelName} {msg}",
+    });
+    const dbHandler = new TestHandler("DEBUG");
+    await setup({
+      handlers: {
+        app: appHandler,
+        db: dbHandler,
+      },
+      loggers: {
+        "app.db.pool": {
+          level: "DEBUG",
+          handlers: ["db"],
+          propagate: true,
+        },
+        "app.http": {
+          level: "DEBUG",
+        },
+        app: {
+          level: "WARNING",
+          handlers: ["app"],
+        },
+      },
+    });
+
+    const app = getLogger("app");
+    const db = getLogger("app.db");
+    const query = getLogger("app.db.query");
+    assertEquals(db.parent, app);
+    assertEquals(query.parent, db);
+    assertEquals(query.levelName, "WARNING");
+    assertEquals(query.handlers, [appHandler]);
+
+    query.info("not logged");
+    query.error("query failed");
+    getLogger("app.http.router").debug("route");
+    getLogger("app.db.pool").debug("acquired");
+    assertEquals(appHandler.messages, [
+      "[app.db.query] ERROR query failed",
+      "[app.http.router] DEBUG route",
+      "[app.db.pool] DEBUG acquired",
+    ]);
+    assertEquals(dbHandler.messages, ["DEBUG acquired"]);
+
+    // Changes of ancestors apply to the loggers inheriting from them.
+    app.levelName = "INFO";
+    query.info("now logged");
+    assertEquals(appHandler.messages[3], "[app.db.query] INFO now logged");
+
+    // Without propagation, only the handlers of the logger are used.
+    getLogger("app.db.pool").propagate = false;
+    getLogger("app.db.pool").info("released");
+    assertEquals(appHandler.messages.length, 4);
+    assertEquals(dbHandler.messages[1], "INFO released");
+
+    assertEquals(getLogger("other.module").handlers, []);
+  },
+});
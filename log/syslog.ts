@@ -0,0 +1,221 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { LogLevels } from "./levels.ts";
+import type { LevelName } from "./levels.ts";
+import type { LogRecord } from "./logger.ts";
+import { BaseHandler } from "./handlers.ts";
+import type { HandlerOptions } from "./handlers.ts";
+import { BufferedConnection } from "./_connection.ts";
+import type { ReconnectOptions } from "./_connection.ts";
+import { concat } from "../bytes/mod.ts";
+
+const SYSLOG_FACILITIES = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+export type SyslogFacility = keyof typeof SYSLOG_FACILITIES;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Returns the syslog severity of a log level. */
+function syslogSeverity(level: number): number {
+  if (level >= LogLevels.CRITICAL) return 2;
+  if (level >= LogLevels.ERROR) return 3;
+  if (level >= LogLevels.WARNING) return 4;
+  if (level >= LogLevels.INFO) return 6;
+  return 7;
+}
+
+/** Returns a header field of at most `maxLength` printable ASCII characters,
+ * or the nil value `-`. */
+function headerField(value: string, maxLength: number): string {
+  return value.replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength) || "-";
+}
+
+function localHostname(): string {
+  try {
+    return Deno.hostname();
+  } catch {
+    return "-";
+  }
+}
+
+interface SyslogHandlerOptions extends HandlerOptions, ReconnectOptions {
+  /** Defaults to `"udp"`. */
+  transport?: "udp" | "tcp" | "unix";
+  /** The syslog server, for UDP and TCP. Defaults to `"127.0.0.1"`. */
+  hostname?: string;
+  /** Defaults to 514. */
+  port?: number;
+  /** The datagram socket of the syslog daemon, for unix. Defaults to
+   * `"/dev/log"`. */
+  path?: string;
+  /** Defaults to `"rfc5424"`. */
+  format?: "rfc5424" | "rfc3164";
+  /** Defaults to `"user"`. */
+  facility?: SyslogFacility;
+  /** Defaults to `"deno"`. */
+  appName?: string;
+  /** The host name in messages. Defaults to that of the machine. */
+  localHostname?: string;
+}
+
+/**
+ * Sends log messages to a syslog server over UDP, TCP or a unix datagram
+ * socket, formatted as described by RFC 5424 or by RFC 3164. The severity of
+ * the messages is that of the log level of the records. Over TCP, messages are
+ * framed by octet counting (RFC 6587), and are buffered while disconnected
+ * like with `TcpHandler`. Requires `--unstable`.
+ *
+ *     import * as log from "https://deno.land/std/log/mod.ts";
+ *     import { SyslogHandler } from "https://deno.land/std/log/syslog.ts";
+ *     await log.setup({
+ *       handlers: { syslog: new SyslogHandler("INFO") },
+ *       loggers: { default: { level: "INFO", handlers: ["syslog"] } },
+ *     });
+ */
+export class SyslogHandler extends BaseHandler {
+  #transport: "udp" | "tcp" | "unix";
+  #format: "rfc5424" | "rfc3164";
+  #facility: number;
+  #appName: string;
+  #localHostname?: string;
+  #address: Deno.Addr;
+  #connection?: BufferedConnection;
+  #socket?: Deno.DatagramConn;
+  #tempDir?: string;
+  #sending = new Set<Promise<void>>();
+  #dropped = 0;
+  #encoder = new TextEncoder();
+
+  constructor(levelName: LevelName, options: SyslogHandlerOptions = {}) {
+    super(levelName, { ...options, formatter: options.formatter ?? "{msg}" });
+    this.#transport = options.transport ?? "udp";
+    this.#format = options.format ?? "rfc5424";
+    this.#facility = SYSLOG_FACILITIES[options.facility ?? "user"];
+    this.#appName = options.appName ?? "deno";
+    this.#localHostname = options.localHostname;
+    const hostname = options.hostname ?? "127.0.0.1";
+    const port = options.port ?? 514;
+    this.#address = this.#transport === "unix"
+      ? { transport: "unixpacket", path: options.path ?? "/dev/log" }
+      : { transport: this.#transport, hostname, port };
+    if (this.#transport === "tcp") {
+      this.#connection = new BufferedConnection({ hostname, port }, options);
+    }
+  }
+
+  /** The number of records discarded because the buffer was full, or which
+   * could not be sent over UDP or unix. */
+  get dropped(): number {
+    return this.#dropped + (this.#connection?.dropped ?? 0);
+  }
+
+  async setup() {
+    this.#localHostname ??= localHostname();
+    if (this.#transport === "udp") {
+      this.#socket = Deno.listenDatagram({
+        transport: "udp",
+        hostname: "0.0.0.0",
+        port: 0,
+      });
+    } else if (this.#transport === "unix") {
+      // Datagram sockets must be bound to a path to send from.
+      this.#tempDir = await Deno.makeTempDir({ prefix: "deno_syslog_" });
+      this.#socket = Deno.listenDatagram({
+        transport: "unixpacket",
+        path: this.#tempDir + "/socket",
+      });
+    } else {
+      await this.#connection!.connect();
+    }
+  }
+
+  handle(logRecord: LogRecord): void {
+    if (this.level > logRecord.level) return;
+
+    this.#send(logRecord.level, logRecord.datetime, this.format(logRecord));
+  }
+
+  log(msg: string): void {
+    this.#send(LogLevels.INFO, new Date(), msg);
+  }
+
+  #send(level: number, datetime: Date, msg: string): void {
+    const pri = this.#facility * 8 + syslogSeverity(level);
+    const hostname = headerField(this.#localHostname ?? "-", 255);
+    let message: string;
+    if (this.#format === "rfc5424") {
+      const appName = headerField(this.#appName, 48);
+      message =
+        `<${pri}>1 ${datetime.toISOString()} ${hostname} ${appName} ${Deno.pid} - - ${msg}`;
+    } else {
+      const pad = (n: number) => String(n).padStart(2, "0");
+      const timestamp = `${MONTHS[datetime.getMonth()]} ${
+        String(datetime.getDate()).padStart(2, " ")
+      } ${pad(datetime.getHours())}:${pad(datetime.getMinutes())}:${
+        pad(datetime.getSeconds())
+      }`;
+      const tag = headerField(this.#appName, 32);
+      message = `<${pri}>${timestamp} ${hostname} ${tag}[${Deno.pid}]: ${msg}`;
+    }
+    const data = this.#encoder.encode(message);
+
+    if (this.#connection) {
+      this.#connection.write(
+        concat(this.#encoder.encode(`${data.byteLength} `), data),
+      );
+    } else if (this.#socket) {
+      const sending: Promise<void> = this.#socket.send(data, this.#address)
+        .then(() => {}, () => {
+          this.#dropped++;
+        })
+        .finally(() => {
+          this.#sending.delete(sending);
+        });
+      this.#sending.add(sending);
+    }
+  }
+
+  async destroy() {
+    await Promise.all(this.#sending);
+    await this.#connection?.close();
+    this.#socket?.close();
+    this.#socket = undefined;
+    if (this.#tempDir) {
+      await Deno.remove(this.#tempDir, { recursive: true });
+      this.#tempDir = undefined;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals } from "../testing/asserts.ts";
+import { LogLevels } from "./levels.ts";
+import { LogRecord } from "./logger.ts";
+import { SyslogHandler } from "./syslog.ts";
+import { readAll } from "../io/util.ts";
+
+function recordAt(datetime: Date, msg: string): LogRecord {
+  return new LogRecord({
+    msg,
+    args: [],
+    level: LogLevels.ERROR,
+    loggerName: "default",
+    datetime,
+  });
+}
+
+Deno.test({
+  name: "SyslogHandler: RFC 5424 over UDP",
+  async fn() {
+    const port = 8136;
+    const listener = Deno.listenDatagram({
+      transport: "udp",
+      hostname: "127.0.0.1",
+      port,
+    });
+    const handler = new SyslogHandler("INFO", {
+      port,
+      appName: "my app",
+      localHostname: "example.com",
+    });
+    await handler.setup();
+
+    const datetime = new Date(Date.UTC(2021, 6, 27, 10, 12, 3, 120));
+    handler.handle(recordAt(datetime, "disk full"));
+    const [data] = await listener.receive();
+    assertEquals(
+      new TextDecoder().decode(data),
+      `<11>1 2021-07-27T10:12:03.120Z example.com my_app ${Deno.pid} - - disk full`,
+    );
+
+    await handler.destroy();
+    listener.close();
+  },
+});
+
+Deno.test({
+  name: "SyslogHandler: RFC 3164 over a unix socket",
+  ignore: Deno.build.os === "windows",
+  async fn() {
+    const dir = await Deno.makeTempDir();
+    const path = dir + "/log";
+    const listener = Deno.listenDatagram({ transport: "unixpacket", path });
+    const handler = new SyslogHandler("INFO", {
+      transport: "unix",
+      path,
+      format: "rfc3164",
+      facility: "local0",
+      appName: "app",
+      localHostname: "example.com",
+    });
+    await handler.setup();
+
+    handler.handle(
+      new LogRecord({
+        msg: "low memory",
+        args: [],
+        level: LogLevels.WARNING,
+        loggerName: "default",
+        datetime: new Date(2021, 6, 7, 9, 2, 3),
+      }),
+    );
+    const [data] = await listener.receive();
+    assertEquals(
+      new TextDecoder().decode(data),
+      `<132>Jul  7 09:02:03 example.com app[${Deno.pid}]: low memory`,
+    );
+
+    await handler.destroy();
+    listener.close();
+    await Deno.remove(dir, { recursive: true });
+  },
+});
+
+Deno.test({
+  name: "SyslogHandler: Octet counting over TCP",
+  async fn() {
+    const port = 8137;
+    const listener = Deno.listen({ hostname: "127.0.0.1", port });
+    const handler = new SyslogHandler("INFO", {
+      transport: "tcp",
+      port,
+      appName: "app",
+      localHostname: "example.com",
+    });
+    await handler.setup();
+    const conn = await listener.accept();
+
+    const datetime = new Date(Date.UTC(2021, 6, 27, 10, 12, 3, 120));
+    handler.handle(recordAt(datetime, "é"));
+    handler.log("done");
+    await handler.destroy();
+
+    const messages = new TextDecoder().decode(await readAll(conn));
+    const first =
+      `<11>1 2021-07-27T10:12:03.120Z example.com app ${Deno.pid} - - é`;
+    const second = /^(\d+) <14>1 \S+ example.com app \d+ - - done$/;
+    const firstLength = new TextEncoder().encode(first).byteLength;
+    assert(messages.startsWith(`${firstLength} ${first}`), messages);
+    const match = second.exec(messages.slice(`${firstLength} ${first}`.length));
+    assert(match, messages);
+    assertEquals(Number(match[1]), match[0].length - match[1].length - 1);
+
+    conn.close();
+    listener.close();
+  },
+});
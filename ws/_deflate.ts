@@ -0,0 +1,859 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Raw DEFLATE streams (RFC 1951) ending every chunk with a sync flush, as
+// used by the permessage-deflate extension of WebSocket (RFC 7692).
+// https://tools.ietf.org/html/rfc1951
+
+const LENGTH_BASE = [
+  3,
+  4,
+  5,
+  6,
+  7,
+  8,
+  9,
+  10,
+  11,
+  13,
+  15,
+  17,
+  19,
+  23,
+  27,
+  31,
+  35,
+  43,
+  51,
+  59,
+  67,
+  83,
+  99,
+  115,
+  131,
+  163,
+  195,
+  227,
+  258,
+];
+const LENGTH_EXTRA = [
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  1,
+  1,
+  2,
+  2,
+  2,
+  2,
+  3,
+  3,
+  3,
+  3,
+  4,
+  4,
+  4,
+  4,
+  5,
+  5,
+  5,
+  5,
+  0,
+];
+const DIST_BASE = [
+  1,
+  2,
+  3,
+  4,
+  5,
+  7,
+  9,
+  13,
+  17,
+  25,
+  33,
+  49,
+  65,
+  97,
+  129,
+  193,
+  257,
+  385,
+  513,
+  769,
+  1025,
+  1537,
+  2049,
+  3073,
+  4097,
+  6145,
+  8193,
+  12289,
+  16385,
+  24577,
+];
+const DIST_EXTRA = [
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  2,
+  2,
+  3,
+  3,
+  4,
+  4,
+  5,
+  5,
+  6,
+  6,
+  7,
+  7,
+  8,
+  8,
+  9,
+  9,
+  10,
+  10,
+  11,
+  11,
+  12,
+  12,
+  13,
+  13,
+];
+/** The order of the code length codes in the header of a dynamic block. */
+const CODE_LENGTH_ORDER = [
+  16,
+  17,
+  18,
+  0,
+  8,
+  7,
+  9,
+  6,
+  10,
+  5,
+  11,
+  4,
+  12,
+  3,
+  13,
+  2,
+  14,
+  1,
+  15,
+];
+
+const END_OF_BLOCK = 256;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_STORED = 65535;
+const HASH_SIZE = 1 << 15;
+/** Number of earlier positions tried when looking for a match. */
+const MAX_CHAIN = 64;
+
+/** The literal/length code lengths of fixed Huffman blocks. */
+const FIXED_LITERAL_LENGTHS = new Uint8Array(288).map((_, i) =>
+  i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8
+);
+/** The distance code lengths of fixed Huffman blocks. */
+const FIXED_DIST_LENGTHS = new Uint8Array(30).fill(5);
+
+/** Returns the length code, minus 257, of each match length. */
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  const end = code + 1 < LENGTH_BASE.length
+    ? LENGTH_BASE[code + 1]
+    : MAX_MATCH + 1;
+  LENGTH_CODE.fill(code, LENGTH_BASE[code], end);
+}
+
+function distanceCode(distance: number): number {
+  let code = 0;
+  while (code + 1 < DIST_BASE.length && DIST_BASE[code + 1] <= distance) {
+    code++;
+  }
+  return code;
+}
+
+/** A canonical Huffman code, as decoded by puff, the reference inflater of
+ * zlib. */
+interface Huffman {
+  /** Number of symbols of each length. */
+  counts: Uint16Array;
+  /** Symbols ordered by code. */
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  let left = 1;
+  for (let len = 1; len < 16; len++) {
+    left = (left << 1) - counts[len];
+    if (left < 0) {
+      throw new Error("invalid compressed data: over-subscribed code");
+    }
+  }
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 15; len++) {
+    offsets[len + 1] = offsets[len] + counts[len];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_CODE = buildHuffman(FIXED_LITERAL_LENGTHS);
+const FIXED_DIST_CODE = buildHuffman(FIXED_DIST_LENGTHS);
+
+class BitReader {
+  #data: Uint8Array;
+  #pos = 0;
+  #bitBuf = 0;
+  #bitCount = 0;
+
+  constructor(data: Uint8Array) {
+    this.#data = data;
+  }
+
+  /** Whether the data contains another byte. Remaining bits of the current
+   * byte are padding. */
+  get more(): boolean {
+    return this.#pos < this.#data.byteLength;
+  }
+
+  bits(n: number): number {
+    while (this.#bitCount < n) {
+      if (this.#pos >= this.#data.byteLength) {
+        throw new Error("invalid compressed data: unexpected end");
+      }
+      this.#bitBuf |= this.#data[this.#pos++] << this.#bitCount;
+      this.#bitCount += 8;
+    }
+    const value = this.#bitBuf & ((1 << n) - 1);
+    this.#bitBuf >>>= n;
+    this.#bitCount -= n;
+    return value;
+  }
+
+  /** Discard the bits remaining in the current byte. */
+  align(): void {
+    this.#bitBuf = 0;
+    this.#bitCount = 0;
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.#pos + n > this.#data.byteLength) {
+      throw new Error("invalid compressed data: unexpected end");
+    }
+    const bytes = this.#data.subarray(this.#pos, this.#pos + n);
+    this.#pos += n;
+    return bytes;
+  }
+
+  decode({ counts, symbols }: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = counts[len];
+      if (code - count < first) {
+        return symbols[index + (code - first)];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("invalid compressed data: invalid code");
+  }
+}
+
+/** The decompressed data, preceded by the history of the stream. */
+class Output {
+  buf: Uint8Array;
+  pos: number;
+  readonly start: number;
+  #maxLength: number;
+
+  constructor(history: Uint8Array, maxLength: number) {
+    this.buf = new Uint8Array(history.byteLength + 1024);
+    this.buf.set(history);
+    this.pos = this.start = history.byteLength;
+    this.#maxLength = maxLength;
+  }
+
+  #reserve(n: number): void {
+    if (this.pos + n - this.start > this.#maxLength) {
+      throw new RangeError(
+        `decompressed data exceeds ${this.#maxLength} bytes`,
+      );
+    }
+    if (this.pos + n > this.buf.byteLength) {
+      const buf = new Uint8Array(
+        Math.max(this.buf.byteLength * 2, this.pos + n),
+      );
+      buf.set(this.buf.subarray(0, this.pos));
+      this.buf = buf;
+    }
+  }
+
+  push(byte: number): void {
+    this.#reserve(1);
+    this.buf[this.pos++] = byte;
+  }
+
+  write(bytes: Uint8Array): void {
+    this.#reserve(bytes.byteLength);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.byteLength;
+  }
+
+  copy(distance: number, length: number): void {
+    if (distance > this.pos) {
+      throw new Error("invalid compressed data: distance too far back");
+    }
+    this.#reserve(length);
+    // The source may overlap the destination.
+    for (let i = 0; i < length; i++) {
+      this.buf[this.pos] = this.buf[this.pos - distance];
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Decompresses a raw DEFLATE stream split in chunks which end on a block
+ * boundary, such as the chunks written by `Deflater`. The last `2^windowBits`
+ * bytes of decompressed data are kept for the next chunk.
+ */
+export class Inflater {
+  #windowSize: number;
+  #history = new Uint8Array(0);
+
+  constructor(windowBits = 15) {
+    this.#windowSize = 1 << windowBits;
+  }
+
+  /** Forget the data decompressed so far. */
+  reset(): void {
+    this.#history = new Uint8Array(0);
+  }
+
+  /** Decompress a chunk.
+   * @throws `RangeError` if the result would exceed `maxLength` bytes
+   * @throws `Error` if the data is invalid
+   */
+  inflate(data: Uint8Array, maxLength = Infinity): Uint8Array {
+    const r = new BitReader(data);
+    const out = new Output(this.#history, maxLength);
+    while (r.more) {
+      const final = r.bits(1);
+      const type = r.bits(2);
+      if (type === 0) {
+        r.align();
+        const [a, b, c, d] = r.bytes(4);
+        const length = a | (b << 8);
+        if ((c | (d << 8)) !== (~length & 0xffff)) {
+          throw new Error("invalid compressed data: invalid stored block");
+        }
+        out.write(r.bytes(length));
+      } else if (type === 1) {
+        inflateBlock(r, out, FIXED_LITERAL_CODE, FIXED_DIST_CODE);
+      } else if (type === 2) {
+        const [literalCode, distCode] = readDynamicCodes(r);
+        inflateBlock(r, out, literalCode, distCode);
+      } else {
+        throw new Error("invalid compressed data: invalid block type");
+      }
+      if (final) break;
+    }
+    this.#history = out.buf.slice(
+      Math.max(0, out.pos - this.#windowSize),
+      out.pos,
+    );
+    return out.buf.slice(out.start, out.pos);
+  }
+}
+
+function readDynamicCodes(r: BitReader): [Huffman, Huffman] {
+  const literalCount = r.bits(5) + 257;
+  const distCount = r.bits(5) + 1;
+  const codeLengthCount = r.bits(4) + 4;
+  if (literalCount > 286 || distCount > 30) {
+    throw new Error("invalid compressed data: too many codes");
+  }
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = r.bits(3);
+  }
+  const codeLengthCode = buildHuffman(codeLengthLengths);
+  const lengths = new Uint8Array(literalCount + distCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = r.decode(codeLengthCode);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new Error("invalid compressed data: repeat with no length");
+      }
+      value = lengths[i - 1];
+      repeat = 3 + r.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + r.bits(3);
+    } else {
+      repeat = 11 + r.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error("invalid compressed data: too many lengths");
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+  if (lengths[END_OF_BLOCK] === 0) {
+    throw new Error("invalid compressed data: no end-of-block code");
+  }
+  return [
+    buildHuffman(lengths.subarray(0, literalCount)),
+    buildHuffman(lengths.subarray(literalCount)),
+  ];
+}
+
+function inflateBlock(
+  r: BitReader,
+  out: Output,
+  literalCode: Huffman,
+  distCode: Huffman,
+): void {
+  for (;;) {
+    const symbol = r.decode(literalCode);
+    if (symbol < 256) {
+      out.push(symbol);
+    } else if (symbol === END_OF_BLOCK) {
+      return;
+    } else {
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error("invalid compressed data: invalid length code");
+      }
+      const length = LENGTH_BASE[lengthCode] +
+        r.bits(LENGTH_EXTRA[lengthCode]);
+      const distSymbol = r.decode(distCode);
+      if (distSymbol >= DIST_BASE.length) {
+        throw new Error("invalid compressed data: invalid distance code");
+      }
+      out.copy(
+        DIST_BASE[distSymbol] + r.bits(DIST_EXTRA[distSymbol]),
+        length,
+      );
+    }
+  }
+}
+
+class BitWriter {
+  #buf = new Uint8Array(1024);
+  #pos = 0;
+  #bitBuf = 0;
+  #bitCount = 0;
+
+  #push(byte: number): void {
+    if (this.#pos === this.#buf.byteLength) {
+      const buf = new Uint8Array(this.#buf.byteLength * 2);
+      buf.set(this.#buf);
+      this.#buf = buf;
+    }
+    this.#buf[this.#pos++] = byte;
+  }
+
+  bits(value: number, n: number): void {
+    this.#bitBuf |= value << this.#bitCount;
+    this.#bitCount += n;
+    while (this.#bitCount >= 8) {
+      this.#push(this.#bitBuf & 0xff);
+      this.#bitBuf >>>= 8;
+      this.#bitCount -= 8;
+    }
+  }
+
+  align(): void {
+    if (this.#bitCount > 0) {
+      this.#push(this.#bitBuf & 0xff);
+    }
+    this.#bitBuf = 0;
+    this.#bitCount = 0;
+  }
+
+  bytes(bytes: ArrayLike<number>): void {
+    for (let i = 0; i < bytes.length; i++) {
+      this.#push(bytes[i]);
+    }
+  }
+
+  finish(): Uint8Array {
+    this.align();
+    return this.#buf.slice(0, this.#pos);
+  }
+}
+
+/** Returns the lengths of a Huffman code for symbols of the given frequencies
+ * whose codes are at most `maxBits` long. */
+function huffmanLengths(freqs: Uint32Array, maxBits: number): Uint8Array {
+  const lengths = new Uint8Array(freqs.length);
+  let weights = Array.from(freqs);
+  const used = [];
+  for (let symbol = 0; symbol < freqs.length; symbol++) {
+    if (freqs[symbol] > 0) {
+      used.push(symbol);
+    }
+  }
+  if (used.length === 0) return lengths;
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+    return lengths;
+  }
+  for (;;) {
+    // Nodes 0 to used.length - 1 are the leaves.
+    const nodeWeights = used.map((symbol) => weights[symbol]);
+    const parents: number[] = [];
+    const queue = used.map((_, i) => i).sort((a, b) =>
+      nodeWeights[a] - nodeWeights[b]
+    );
+    while (queue.length > 1) {
+      const a = queue.shift()!;
+      const b = queue.shift()!;
+      const node = nodeWeights.length;
+      nodeWeights.push(nodeWeights[a] + nodeWeights[b]);
+      parents[a] = parents[b] = node;
+      let i = queue.findIndex((n) => nodeWeights[n] > nodeWeights[node]);
+      if (i === -1) i = queue.length;
+      queue.splice(i, 0, node);
+    }
+    const root = nodeWeights.length - 1;
+    let maxLength = 0;
+    used.forEach((symbol, leaf) => {
+      let length = 0;
+      for (let node = leaf; node !== root; node = parents[node]) {
+        length++;
+      }
+      lengths[symbol] = length;
+      maxLength = Math.max(maxLength, length);
+    });
+    if (maxLength <= maxBits) return lengths;
+    // Flatten the distribution until the code is short enough.
+    weights = weights.map((w) => (w === 0 ? 0 : (w >>> 1) | 1));
+  }
+}
+
+/** Returns the bit-reversed canonical codes of the given code lengths, ready
+ * to be written least significant bit first. */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const counts = new Uint16Array(16);
+  for (const length of lengths) {
+    counts[length]++;
+  }
+  counts[0] = 0;
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let len = 1; len < 16; len++) {
+    code = (code + counts[len - 1]) << 1;
+    next[len] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) continue;
+    let c = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (c & 1);
+      c >>>= 1;
+    }
+    codes[symbol] = reversed;
+  }
+  return codes;
+}
+
+/** LZ77 output: literals have a distance of 0 and their byte as length. */
+interface Tokens {
+  lengths: Uint16Array;
+  distances: Uint16Array;
+  count: number;
+}
+
+/** Find matches of `input` from `start`, up to `windowSize` bytes back. */
+function findMatches(
+  input: Uint8Array,
+  start: number,
+  windowSize: number,
+): Tokens {
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(input.byteLength);
+  const tokens: Tokens = {
+    lengths: new Uint16Array(input.byteLength - start),
+    distances: new Uint16Array(input.byteLength - start),
+    count: 0,
+  };
+  const insert = (i: number): void => {
+    if (i + MIN_MATCH > input.byteLength) return;
+    const hash = ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) &
+      (HASH_SIZE - 1);
+    prev[i] = head[hash];
+    head[hash] = i;
+  };
+  for (let i = Math.max(0, start - windowSize); i < start; i++) {
+    insert(i);
+  }
+  let i = start;
+  while (i < input.byteLength) {
+    const maxLength = Math.min(MAX_MATCH, input.byteLength - i);
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (maxLength >= MIN_MATCH) {
+      insert(i);
+      let chain = MAX_CHAIN;
+      for (let j = prev[i]; j >= 0 && i - j <= windowSize; j = prev[j]) {
+        if (input[j + bestLength] === input[i + bestLength]) {
+          let length = 0;
+          while (
+            length < maxLength && input[j + length] === input[i + length]
+          ) {
+            length++;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - j;
+            if (length === maxLength) break;
+          }
+        }
+        if (--chain === 0) break;
+      }
+    }
+    if (bestLength >= MIN_MATCH) {
+      tokens.lengths[tokens.count] = bestLength;
+      tokens.distances[tokens.count++] = bestDistance;
+      for (let k = 1; k < bestLength; k++) {
+        insert(i + k);
+      }
+      i += bestLength;
+    } else {
+      tokens.lengths[tokens.count] = input[i];
+      tokens.distances[tokens.count++] = 0;
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/** Run-length encode code lengths with the code length symbols 16 to 18.
+ * Returns pairs of symbols and extra bits. */
+function encodeCodeLengths(lengths: Uint8Array): number[][] {
+  const encoded = [];
+  for (let i = 0; i < lengths.length;) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) {
+      run++;
+    }
+    if (length === 0 && run >= 11) {
+      run = Math.min(run, 138);
+      encoded.push([18, run - 11]);
+    } else if (length === 0 && run >= 3) {
+      encoded.push([17, run - 3]);
+    } else if (length !== 0 && run >= 4) {
+      run = Math.min(run, 7);
+      encoded.push([length, 0], [16, run - 4]);
+    } else {
+      run = 1;
+      encoded.push([length, 0]);
+    }
+    i += run;
+  }
+  return encoded;
+}
+
+const CODE_LENGTH_EXTRA = [2, 3, 7];
+
+/**
+ * Compresses chunks of a raw DEFLATE stream, each ending with a sync flush:
+ * an empty stored block ending with `00 00 ff ff`. Matches refer to at most
+ * `2^windowBits` bytes back, including the data of earlier chunks.
+ */
+export class Deflater {
+  #windowSize: number;
+  #history = new Uint8Array(0);
+
+  constructor(windowBits = 15) {
+    this.#windowSize = 1 << windowBits;
+  }
+
+  /** Forget the data compressed so far. */
+  reset(): void {
+    this.#history = new Uint8Array(0);
+  }
+
+  deflate(data: Uint8Array): Uint8Array {
+    const start = this.#history.byteLength;
+    const input = new Uint8Array(start + data.byteLength);
+    input.set(this.#history);
+    input.set(data, start);
+    const w = new BitWriter();
+    if (data.byteLength > 0) {
+      writeBlock(w, findMatches(input, start, this.#windowSize), data);
+    }
+    // Sync flush
+    w.bits(0, 3);
+    w.align();
+    w.bytes([0, 0, 0xff, 0xff]);
+    this.#history = input.slice(Math.max(0, input.length - this.#windowSize));
+    return w.finish();
+  }
+}
+
+/** Write a non-final block of the tokens, with a dynamic or fixed Huffman
+ * code, or as stored blocks, whichever is the smallest. */
+function writeBlock(w: BitWriter, tokens: Tokens, data: Uint8Array): void {
+  const literalFreqs = new Uint32Array(286);
+  const distFreqs = new Uint32Array(30);
+  let extraBits = 0;
+  for (let i = 0; i < tokens.count; i++) {
+    if (tokens.distances[i] === 0) {
+      literalFreqs[tokens.lengths[i]]++;
+    } else {
+      const lengthCode = LENGTH_CODE[tokens.lengths[i]];
+      const distCode = distanceCode(tokens.distances[i]);
+      literalFreqs[257 + lengthCode]++;
+      distFreqs[distCode]++;
+      extraBits += LENGTH_EXTRA[lengthCode] + DIST_EXTRA[distCode];
+    }
+  }
+  literalFreqs[END_OF_BLOCK]++;
+
+  const literalLengths = huffmanLengths(literalFreqs, 15);
+  const distLengths = huffmanLengths(distFreqs, 15);
+  if (distLengths.every((length) => length === 0)) {
+    // At least one distance code is required.
+    distLengths[0] = 1;
+  }
+  let literalCount = 286;
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0) {
+    literalCount--;
+  }
+  let distCount = 30;
+  while (distCount > 1 && distLengths[distCount - 1] === 0) {
+    distCount--;
+  }
+  const codeLengths = encodeCodeLengths(
+    new Uint8Array([
+      ...literalLengths.subarray(0, literalCount),
+      ...distLengths.subarray(0, distCount),
+    ]),
+  );
+  const codeLengthFreqs = new Uint32Array(19);
+  for (const [symbol] of codeLengths) {
+    codeLengthFreqs[symbol]++;
+  }
+  const codeLengthLengths = huffmanLengths(codeLengthFreqs, 7);
+  let codeLengthCount = 19;
+  while (
+    codeLengthCount > 4 &&
+    codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0
+  ) {
+    codeLengthCount--;
+  }
+
+  let dynamicBits = 3 + 14 + 3 * codeLengthCount + extraBits;
+  for (const [symbol] of codeLengths) {
+    dynamicBits += codeLengthLengths[symbol] +
+      (symbol >= 16 ? CODE_LENGTH_EXTRA[symbol - 16] : 0);
+  }
+  let fixedBits = 3 + extraBits;
+  for (let symbol = 0; symbol < 286; symbol++) {
+    dynamicBits += literalFreqs[symbol] * literalLengths[symbol];
+    fixedBits += literalFreqs[symbol] * FIXED_LITERAL_LENGTHS[symbol];
+  }
+  for (let symbol = 0; symbol < 30; symbol++) {
+    dynamicBits += distFreqs[symbol] * distLengths[symbol];
+    fixedBits += distFreqs[symbol] * FIXED_DIST_LENGTHS[symbol];
+  }
+  const storedBits = (Math.ceil(data.byteLength / MAX_STORED) * 5 +
+    data.byteLength) * 8;
+
+  if (storedBits < Math.min(dynamicBits, fixedBits)) {
+    for (let i = 0; i < data.byteLength; i += MAX_STORED) {
+      const chunk = data.subarray(i, i + MAX_STORED);
+      w.bits(0, 3);
+      w.align();
+      const length = chunk.byteLength;
+      w.bytes([
+        length & 0xff,
+        length >>> 8,
+        ~length & 0xff,
+        (~length >>> 8) & 0xff,
+      ]);
+      w.bytes(chunk);
+    }
+  } else if (fixedBits <= dynamicBits) {
+    w.bits(0b010, 3);
+    writeTokens(w, tokens, FIXED_LITERAL_LENGTHS, FIXED_DIST_LENGTHS);
+  } else {
+    w.bits(0b100, 3);
+    w.bits(literalCount - 257, 5);
+    w.bits(distCount - 1, 5);
+    w.bits(codeLengthCount - 4, 4);
+    for (let i = 0; i < codeLengthCount; i++) {
+      w.bits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    }
+    const codeLengthCodes = canonicalCodes(codeLengthLengths);
+    for (const [symbol, extra] of codeLengths) {
+      w.bits(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+      if (symbol >= 16) {
+        w.bits(extra, CODE_LENGTH_EXTRA[symbol - 16]);
+      }
+    }
+    writeTokens(w, tokens, literalLengths, distLengths);
+  }
+}
+
+function writeTokens(
+  w: BitWriter,
+  tokens: Tokens,
+  literalLengths: Uint8Array,
+  distLengths: Uint8Array,
+): void {
+  const literalCodes = canonicalCodes(literalLengths);
+  const distCodes = canonicalCodes(distLengths);
+  for (let i = 0; i < tokens.count; i++) {
+    const length = tokens.lengths[i];
+    const distance = tokens.distances[i];
+    if (distance === 0) {
+      w.bits(literalCodes[length], literalLengths[length]);
+      continue;
+    }
+    const lengthCode = LENGTH_CODE[length];
+    w.bits(literalCodes[257 + lengthCode], literalLengths[257 + lengthCode]);
+    w.bits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+    const distCode = distanceCode(distance);
+    w.bits(distCodes[distCode], distLengths[distCode]);
+    w.bits(distance - DIST_BASE[distCode], DIST_EXTRA[distCode]);
+  }
+  w.bits(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK]);
+}
@@ -0,0 +1,98 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
+import { concat } from "../bytes/mod.ts";
+import { Deflater, Inflater } from "./_deflate.ts";
+
+const encoder = new TextEncoder();
+
+/** Pseudo-random bytes, which do not compress. */
+function noise(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    data[i] = seed >>> 24;
+  }
+  return data;
+}
+
+const samples = [
+  new Uint8Array(0),
+  encoder.encode("a"),
+  encoder.encode(
+    JSON.stringify(
+      Array.from({ length: 200 }, (_, id) => ({ id, name: `item${id}` })),
+    ),
+  ),
+  noise(70000),
+  new Uint8Array(100000).fill(7),
+];
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+Deno.test("[ws] Deflater and Inflater round trip", () => {
+  for (const windowBits of [15, 9]) {
+    const deflater = new Deflater(windowBits);
+    const inflater = new Inflater(windowBits);
+    for (const sample of samples) {
+      const compressed = deflater.deflate(sample);
+      assertEquals(compressed.subarray(-4), new Uint8Array([0, 0, 0xff, 0xff]));
+      assertEquals(inflater.inflate(compressed), sample);
+    }
+  }
+});
+
+Deno.test("[ws] Deflater keeps the context between chunks", () => {
+  const message = encoder.encode("The quick brown fox jumps over the lazy dog");
+  const deflater = new Deflater();
+  const first = deflater.deflate(message);
+  const second = deflater.deflate(message);
+  assert(second.byteLength < first.byteLength);
+
+  const inflater = new Inflater();
+  assertEquals(inflater.inflate(first), message);
+  assertEquals(inflater.inflate(second), message);
+
+  deflater.reset();
+  assertEquals(deflater.deflate(message), first);
+});
+
+Deno.test("[ws] Deflater output is valid raw DEFLATE", async () => {
+  const deflater = new Deflater();
+  const chunks = samples.map((sample) => deflater.deflate(sample));
+  // Terminate the stream with an empty final fixed Huffman block.
+  const stream = concat(...chunks, new Uint8Array([0x03, 0x00]));
+  assertEquals(
+    await transform(stream, new DecompressionStream("deflate-raw")),
+    concat(...samples),
+  );
+});
+
+Deno.test("[ws] Inflater decompresses raw DEFLATE", async () => {
+  for (const sample of samples) {
+    const compressed = await transform(
+      sample,
+      new CompressionStream("deflate-raw"),
+    );
+    assertEquals(new Inflater().inflate(compressed), sample);
+  }
+});
+
+Deno.test("[ws] Inflater errors", () => {
+  const compressed = new Deflater().deflate(new Uint8Array(1000));
+  assertThrows(
+    () => new Inflater().inflate(compressed, 999),
+    RangeError,
+  );
+  assertThrows(
+    () => new Inflater().inflate(new Uint8Array([0x07])),
+    Error,
+    "invalid compressed data",
+  );
+});
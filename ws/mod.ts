@@ -8,6 +8,7 @@ import { TextProtoReader } from "../textproto/mod.ts";
 import { Deferred, deferred } from "../async/deferred.ts";
 import { assert } from "../_util/assert.ts";
 import { concat } from "../bytes/mod.ts";
+import { Deflater, Inflater } from "./_deflate.ts";
 
 export enum OpCode {
   Continue = 0x0,
@@ -57,8 +58,29 @@ export function isWebSocketPongEvent(
 
 export type WebSocketMessage = string | Uint8Array;
 
+/** A violation of the WebSocket protocol by the peer. `code` is the status
+ * code of the close frame sent in response. */
+export class WebSocketError extends Error {
+  constructor(message: string, public code = 1002) {
+    super(message);
+    this.name = "WebSocketError";
+  }
+}
+
+export interface WebSocketLimits {
+  /** The maximum payload length of received frames. Defaults to 64 MiB. */
+  maxFrameSize?: number;
+  /** The maximum length of received messages, after decompression. Defaults
+   * to 64 MiB. */
+  maxMessageSize?: number;
+}
+
+const DEFAULT_MAX_SIZE = 64 * 1024 * 1024;
+
 export interface WebSocketFrame {
   isLastFrame: boolean;
+  /** The RSV1 bit, set on the first frame of compressed messages. */
+  rsv1?: boolean;
   opcode: OpCode;
   mask?: Uint8Array;
   payload: Uint8Array;
@@ -67,6 +89,11 @@ export interface WebSocketFrame {
 export interface WebSocket extends AsyncIterable<WebSocketEvent> {
   readonly conn: Deno.Conn;
   readonly isClosed: boolean;
+  /** The subprotocol selected during the handshake, or `""` if none. */
+  readonly protocol: string;
+  /** The extensions negotiated during the handshake, as in the
+   * `Sec-WebSocket-Extensions` header, or `""` if none. */
+  readonly extensions: string;
 
   [Symbol.asyncIterator](): AsyncIterableIterator<WebSocketEvent>;
 
@@ -78,6 +105,7 @@ export interface WebSocket extends AsyncIterable<WebSocketEvent> {
   /**
    * @param data
    * @throws `Deno.errors.ConnectionReset`
+   * @throws `RangeError` if the payload is longer than 125 bytes
    */
   ping(data?: WebSocketMessage): Promise<void>;
 
@@ -85,6 +113,7 @@ export interface WebSocket extends AsyncIterable<WebSocketEvent> {
    * This is canonical way of disconnection but it may hang because of peer's response delay.
    * Default close code is 1000 (Normal Closure)
    * @throws `Deno.errors.ConnectionReset`
+   * @throws `RangeError` if the reason is longer than 123 bytes
    */
   close(): Promise<void>;
   close(code: number): Promise<void>;
@@ -111,6 +140,7 @@ export async function writeFrame(
 ) {
   const payloadLength = frame.payload.byteLength;
   let header: Uint8Array;
+  const first = 0x80 | (frame.rsv1 ? 0x40 : 0) | frame.opcode;
   const hasMask = frame.mask ? 0x80 : 0;
   if (frame.mask && frame.mask.byteLength !== 4) {
     throw new Error(
@@ -118,17 +148,17 @@ export async function writeFrame(
     );
   }
   if (payloadLength < 126) {
-    header = new Uint8Array([0x80 | frame.opcode, hasMask | payloadLength]);
+    header = new Uint8Array([first, hasMask | payloadLength]);
   } else if (payloadLength < 0xffff) {
     header = new Uint8Array([
-      0x80 | frame.opcode,
+      first,
       hasMask | 0b01111110,
       payloadLength >>> 8,
       payloadLength & 0x00ff,
     ]);
   } else {
     header = new Uint8Array([
-      0x80 | frame.opcode,
+      first,
       hasMask | 0b01111111,
       ...sliceLongToBytes(payloadLength),
     ]);
@@ -147,34 +177,58 @@ export async function writeFrame(
  * @throws `Deno.errors.UnexpectedEof` When peer closed connection without close frame
  * @throws `Error` Frame is invalid
  */
-export async function readFrame(buf: BufReader): Promise<WebSocketFrame> {
+export async function readFrame(
+  buf: BufReader,
+  maxFrameSize = DEFAULT_MAX_SIZE,
+): Promise<WebSocketFrame> {
   let b = await buf.readByte();
   assert(b !== null);
-  let isLastFrame = false;
-  switch (b >>> 4) {
-    case 0b1000:
-      isLastFrame = true;
-      break;
-    case 0b0000:
-      isLastFrame = false;
-      break;
-    default:
-      throw new Error("invalid signature");
+  const isLastFrame = (b & 0x80) !== 0;
+  // RSV2 and RSV3 are not used by any supported extension.
+  if (b & 0x30) {
+    throw new WebSocketError("invalid signature");
   }
+  const rsv1 = (b & 0x40) !== 0;
   const opcode = b & 0x0f;
+  if (!(opcode in OpCode)) {
+    throw new WebSocketError(`invalid opcode: ${opcode}`);
+  }
   // has_mask & payload
   b = await buf.readByte();
   assert(b !== null);
   const hasMask = b >>> 7;
   let payloadLength = b & 0b01111111;
+  if (opcode & 0x08) {
+    if (!isLastFrame) {
+      throw new WebSocketError("fragmented control frame");
+    }
+    if (payloadLength > 125) {
+      throw new WebSocketError("control frame too large");
+    }
+  }
   if (payloadLength === 126) {
     const l = await readShort(buf);
     assert(l !== null);
     payloadLength = l;
   } else if (payloadLength === 127) {
-    const l = await readLong(buf);
+    let l: number | null;
+    try {
+      l = await readLong(buf);
+    } catch (err) {
+      if (err instanceof RangeError) {
+        throw new WebSocketError("frame too large", 1009);
+      }
+      throw err;
+    }
     assert(l !== null);
-    payloadLength = Number(l);
+    // The most significant bit must be 0.
+    if (l < 0) {
+      throw new WebSocketError("invalid payload length");
+    }
+    payloadLength = l;
+  }
+  if (payloadLength > maxFrameSize) {
+    throw new WebSocketError("frame too large", 1009);
   }
   // mask
   let mask: Uint8Array | undefined;
@@ -187,99 +241,426 @@ export async function readFrame(buf: BufReader): Promise<WebSocketFrame> {
   assert((await buf.readFull(payload)) !== null);
   return {
     isLastFrame,
+    rsv1,
     opcode,
     mask,
     payload,
   };
 }
 
+export interface PerMessageDeflateOptions {
+  /** Ask the server to reset its compression context after each message. */
+  serverNoContextTakeover?: boolean;
+  /** Ask the client to reset its compression context after each message. */
+  clientNoContextTakeover?: boolean;
+  /** Limit the LZ77 window of the server to `2^serverMaxWindowBits` bytes,
+   * from 8 to 15. */
+  serverMaxWindowBits?: number;
+  /** Limit the LZ77 window of the client to `2^clientMaxWindowBits` bytes,
+   * from 8 to 15. */
+  clientMaxWindowBits?: number;
+  /** Messages smaller than this number of bytes are sent uncompressed.
+   * Defaults to `1024`. */
+  threshold?: number;
+}
+
+/** Parameters of a permessage-deflate offer or response. */
+interface DeflateParams {
+  serverNoContextTakeover?: true;
+  clientNoContextTakeover?: true;
+  serverMaxWindowBits?: number;
+  /** `true` if the parameter has no value, which is only valid in offers. */
+  clientMaxWindowBits?: number | true;
+}
+
+/** Parse the value of a `Sec-WebSocket-Extensions` header. */
+function parseExtensions(
+  value: string | null,
+): Array<{ name: string; params: Array<[string, string | undefined]> }> {
+  if (value === null) return [];
+  return value.split(",").filter((e) => e.trim() !== "").map((extension) => {
+    const [name, ...params] = extension.split(";").map((p) => p.trim());
+    return {
+      name: name.toLowerCase(),
+      params: params.map((param): [string, string | undefined] => {
+        const index = param.indexOf("=");
+        if (index === -1) return [param.toLowerCase(), undefined];
+        return [
+          param.slice(0, index).trim().toLowerCase(),
+          param.slice(index + 1).trim().replace(/^"(.*)"$/, "$1"),
+        ];
+      }),
+    };
+  });
+}
+
+/** Returns the parameters of a permessage-deflate extension, or `undefined`
+ * if they are invalid. */
+function parseDeflateParams(
+  params: Array<[string, string | undefined]>,
+): DeflateParams | undefined {
+  const result: DeflateParams = {};
+  for (const [name, value] of params) {
+    switch (name) {
+      case "server_no_context_takeover":
+      case "client_no_context_takeover": {
+        const key = name === "server_no_context_takeover"
+          ? "serverNoContextTakeover"
+          : "clientNoContextTakeover";
+        if (value !== undefined || result[key]) return undefined;
+        result[key] = true;
+        break;
+      }
+      case "server_max_window_bits":
+      case "client_max_window_bits": {
+        const key = name === "server_max_window_bits"
+          ? "serverMaxWindowBits"
+          : "clientMaxWindowBits";
+        if (result[key] !== undefined) return undefined;
+        if (value === undefined && key === "clientMaxWindowBits") {
+          result[key] = true;
+        } else if (value !== undefined && /^(?:[89]|1[0-5])$/.test(value)) {
+          result[key] = Number(value);
+        } else {
+          return undefined;
+        }
+        break;
+      }
+      default:
+        return undefined;
+    }
+  }
+  return result;
+}
+
+function formatDeflateParams(params: DeflateParams): string {
+  let value = "permessage-deflate";
+  if (params.serverNoContextTakeover) {
+    value += "; server_no_context_takeover";
+  }
+  if (params.clientNoContextTakeover) {
+    value += "; client_no_context_takeover";
+  }
+  if (params.serverMaxWindowBits !== undefined) {
+    value += `; server_max_window_bits=${params.serverMaxWindowBits}`;
+  }
+  if (params.clientMaxWindowBits === true) {
+    value += "; client_max_window_bits";
+  } else if (params.clientMaxWindowBits !== undefined) {
+    value += `; client_max_window_bits=${params.clientMaxWindowBits}`;
+  }
+  return value;
+}
+
+/** Select the first acceptable permessage-deflate offer of a client, and
+ * returns the parameters of the response. */
+function acceptDeflateOffer(
+  value: string | null,
+  options: PerMessageDeflateOptions,
+): DeflateParams | undefined {
+  for (const { name, params } of parseExtensions(value)) {
+    if (name !== "permessage-deflate") continue;
+    const offer = parseDeflateParams(params);
+    if (offer === undefined) continue;
+    const response: DeflateParams = {};
+    if (offer.serverNoContextTakeover || options.serverNoContextTakeover) {
+      response.serverNoContextTakeover = true;
+    }
+    if (offer.clientNoContextTakeover || options.clientNoContextTakeover) {
+      response.clientNoContextTakeover = true;
+    }
+    const serverMaxWindowBits = Math.min(
+      offer.serverMaxWindowBits ?? 15,
+      options.serverMaxWindowBits ?? 15,
+    );
+    if (offer.serverMaxWindowBits !== undefined || serverMaxWindowBits < 15) {
+      response.serverMaxWindowBits = serverMaxWindowBits;
+    }
+    // The window of the client can only be limited if it offers to.
+    if (
+      offer.clientMaxWindowBits !== undefined &&
+      options.clientMaxWindowBits !== undefined
+    ) {
+      response.clientMaxWindowBits = Math.min(
+        offer.clientMaxWindowBits === true ? 15 : offer.clientMaxWindowBits,
+        options.clientMaxWindowBits,
+      );
+    }
+    return response;
+  }
+  return undefined;
+}
+
+/** Returns the permessage-deflate offer of a client. */
+function createDeflateOffer(options: PerMessageDeflateOptions): DeflateParams {
+  const offer: DeflateParams = {
+    clientMaxWindowBits: options.clientMaxWindowBits ?? true,
+  };
+  if (options.serverNoContextTakeover) {
+    offer.serverNoContextTakeover = true;
+  }
+  if (options.clientNoContextTakeover) {
+    offer.clientNoContextTakeover = true;
+  }
+  if (options.serverMaxWindowBits !== undefined) {
+    offer.serverMaxWindowBits = options.serverMaxWindowBits;
+  }
+  return offer;
+}
+
+/** Check the extensions selected by a server against the offer of the
+ * client, if any. Returns the parameters of permessage-deflate, if selected,
+ * with the window of the client offered by the client if the server did not
+ * limit it. */
+function checkDeflateResponse(
+  value: string | null,
+  offer: DeflateParams | undefined,
+): DeflateParams | undefined {
+  const extensions = parseExtensions(value);
+  if (extensions.length === 0) return undefined;
+  if (
+    offer === undefined || extensions.length > 1 ||
+    extensions[0].name !== "permessage-deflate"
+  ) {
+    throw new Error(`ws: server selected unexpected extensions: ${value}`);
+  }
+  const response = parseDeflateParams(extensions[0].params);
+  if (
+    response === undefined ||
+    response.clientMaxWindowBits === true ||
+    (offer.serverNoContextTakeover && !response.serverNoContextTakeover) ||
+    (response.serverMaxWindowBits ?? 15) > (offer.serverMaxWindowBits ?? 15) ||
+    (response.clientMaxWindowBits ?? 0) >
+      (offer.clientMaxWindowBits === true ? 15 : offer.clientMaxWindowBits!)
+  ) {
+    throw new Error(`ws: invalid permessage-deflate response: ${value}`);
+  }
+  return { clientMaxWindowBits: offer.clientMaxWindowBits, ...response };
+}
+
+/** Compresses and decompresses messages with the negotiated parameters of
+ * the permessage-deflate extension (RFC 7692). */
+class PerMessageDeflate {
+  readonly threshold: number;
+  #deflater: Deflater;
+  #inflater = new Inflater();
+  #deflaterReset: boolean;
+  #inflaterReset: boolean;
+
+  constructor(params: DeflateParams, isClient: boolean, threshold = 1024) {
+    this.threshold = threshold;
+    const clientMaxWindowBits = params.clientMaxWindowBits === true
+      ? 15
+      : params.clientMaxWindowBits ?? 15;
+    this.#deflater = new Deflater(
+      isClient ? clientMaxWindowBits : params.serverMaxWindowBits ?? 15,
+    );
+    this.#deflaterReset =
+      !!(isClient
+        ? params.clientNoContextTakeover
+        : params.serverNoContextTakeover);
+    this.#inflaterReset =
+      !!(isClient
+        ? params.serverNoContextTakeover
+        : params.clientNoContextTakeover);
+  }
+
+  compress(payload: Uint8Array): Uint8Array {
+    const compressed = this.#deflater.deflate(payload);
+    if (this.#deflaterReset) {
+      this.#deflater.reset();
+    }
+    // Remove the trailing 00 00 ff ff of the sync flush.
+    return compressed.subarray(0, compressed.byteLength - 4);
+  }
+
+  decompress(payload: Uint8Array, maxLength?: number): Uint8Array {
+    const decompressed = this.#inflater.inflate(
+      concat(payload, new Uint8Array([0, 0, 0xff, 0xff])),
+      maxLength,
+    );
+    if (this.#inflaterReset) {
+      this.#inflater.reset();
+    }
+    return decompressed;
+  }
+}
+
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+/** Decode the payload of a text message or of a close frame. */
+function decodeText(payload: Uint8Array): string {
+  try {
+    return utf8Decoder.decode(payload);
+  } catch {
+    throw new WebSocketError("invalid UTF-8", 1007);
+  }
+}
+
+/** Returns whether a close frame may carry a status code: 1004 to 1006 and
+ * 1015 are reserved, and 1016 to 2999 are not assigned yet. */
+function isValidCloseCode(code: number): boolean {
+  return (code >= 1000 && code <= 1014 && (code < 1004 || code > 1006)) ||
+    (code >= 3000 && code <= 4999);
+}
+
 class WebSocketImpl implements WebSocket {
   readonly conn: Deno.Conn;
+  readonly protocol: string;
+  readonly extensions: string;
   private readonly mask?: Uint8Array;
+  private readonly deflate?: PerMessageDeflate;
   private readonly bufReader: BufReader;
   private readonly bufWriter: BufWriter;
+  private readonly maxFrameSize: number;
+  private readonly maxMessageSize: number;
   private sendQueue: Array<{
     frame: WebSocketFrame;
     d: Deferred<void>;
   }> = [];
+  /** The frames of the message being received. */
+  private frames: WebSocketFrame[] = [];
+  private payloadsLength = 0;
 
   constructor({
     conn,
     bufReader,
     bufWriter,
     mask,
+    protocol = "",
+    extensions = "",
+    deflate,
+    maxFrameSize = DEFAULT_MAX_SIZE,
+    maxMessageSize = DEFAULT_MAX_SIZE,
   }: {
     conn: Deno.Conn;
     bufReader?: BufReader;
     bufWriter?: BufWriter;
     mask?: Uint8Array;
-  }) {
+    protocol?: string;
+    extensions?: string;
+    deflate?: PerMessageDeflate;
+  } & WebSocketLimits) {
     this.conn = conn;
+    this.protocol = protocol;
+    this.extensions = extensions;
+    this.deflate = deflate;
+    this.maxFrameSize = maxFrameSize;
+    this.maxMessageSize = maxMessageSize;
     this.mask = mask;
     this.bufReader = bufReader || new BufReader(conn);
     this.bufWriter = bufWriter || new BufWriter(conn);
   }
 
   async *[Symbol.asyncIterator](): AsyncIterableIterator<WebSocketEvent> {
-    const decoder = new TextDecoder();
-    let frames: WebSocketFrame[] = [];
-    let payloadsLength = 0;
     while (!this._isClosed) {
-      let frame: WebSocketFrame;
+      let event: WebSocketEvent | undefined;
       try {
-        frame = await readFrame(this.bufReader);
-      } catch {
-        this.ensureSocketClosed();
+        const frame = await readFrame(this.bufReader, this.maxFrameSize);
+        unmask(frame.payload, frame.mask);
+        event = this.receiveFrame(frame);
+      } catch (err) {
+        if (err instanceof WebSocketError) {
+          // Fail the connection with the status code of the violation.
+          await this.close(err.code, err.message).catch(() => {});
+        } else {
+          this.ensureSocketClosed();
+        }
         break;
       }
-      unmask(frame.payload, frame.mask);
-      switch (frame.opcode) {
-        case OpCode.TextFrame:
-        case OpCode.BinaryFrame:
-        case OpCode.Continue:
-          frames.push(frame);
-          payloadsLength += frame.payload.length;
-          if (frame.isLastFrame) {
-            const concat = new Uint8Array(payloadsLength);
-            let offs = 0;
-            for (const frame of frames) {
-              concat.set(frame.payload, offs);
-              offs += frame.payload.length;
-            }
-            if (frames[0].opcode === OpCode.TextFrame) {
-              // text
-              yield decoder.decode(concat);
-            } else {
-              // binary
-              yield concat;
+      if (event === undefined) {
+        continue;
+      }
+      if (isWebSocketCloseEvent(event)) {
+        await this.close(event.code === 1005 ? 1000 : event.code, event.reason);
+        yield event;
+        return;
+      }
+      if (isWebSocketPingEvent(event)) {
+        await this.enqueue({
+          opcode: OpCode.Pong,
+          // Masking is done in place.
+          payload: event[1].slice(),
+          isLastFrame: true,
+          mask: this.mask,
+        });
+      }
+      yield event;
+    }
+  }
+
+  /** Returns the event of a frame, or `undefined` for the frames of an
+   * incomplete message. Throws `WebSocketError` if the frame violates the
+   * protocol. */
+  private receiveFrame(frame: WebSocketFrame): WebSocketEvent | undefined {
+    // Only the first frame of a message may be compressed.
+    if (
+      frame.rsv1 &&
+      (!this.deflate ||
+        (frame.opcode !== OpCode.TextFrame &&
+          frame.opcode !== OpCode.BinaryFrame))
+    ) {
+      throw new WebSocketError("unexpected compressed frame");
+    }
+    switch (frame.opcode) {
+      case OpCode.TextFrame:
+      case OpCode.BinaryFrame:
+      case OpCode.Continue: {
+        if (frame.opcode === OpCode.Continue && this.frames.length === 0) {
+          throw new WebSocketError("unexpected continuation frame");
+        }
+        if (frame.opcode !== OpCode.Continue && this.frames.length > 0) {
+          throw new WebSocketError("expected continuation frame");
+        }
+        this.payloadsLength += frame.payload.length;
+        if (this.payloadsLength > this.maxMessageSize) {
+          throw new WebSocketError("message too large", 1009);
+        }
+        this.frames.push(frame);
+        if (!frame.isLastFrame) {
+          return undefined;
+        }
+        const [first] = this.frames;
+        let concat = new Uint8Array(this.payloadsLength);
+        let offs = 0;
+        for (const frame of this.frames) {
+          concat.set(frame.payload, offs);
+          offs += frame.payload.length;
+        }
+        this.frames = [];
+        this.payloadsLength = 0;
+        if (first.rsv1) {
+          try {
+            concat = this.deflate!.decompress(concat, this.maxMessageSize);
+          } catch (err) {
+            if (err instanceof RangeError) {
+              throw new WebSocketError("message too large", 1009);
             }
-            frames = [];
-            payloadsLength = 0;
+            throw new WebSocketError("invalid compressed data", 1007);
           }
-          break;
-        case OpCode.Close: {
-          // [0x12, 0x34] -> 0x1234
-          const code = (frame.payload[0] << 8) | frame.payload[1];
-          const reason = decoder.decode(
-            frame.payload.subarray(2, frame.payload.length),
-          );
-          await this.close(code, reason);
-          yield { code, reason };
-          return;
         }
-        case OpCode.Ping:
-          await this.enqueue({
-            opcode: OpCode.Pong,
-            payload: frame.payload,
-            isLastFrame: true,
-          });
-          yield ["ping", frame.payload] as WebSocketPingEvent;
-          break;
-        case OpCode.Pong:
-          yield ["pong", frame.payload] as WebSocketPongEvent;
-          break;
-        default:
+        return first.opcode === OpCode.TextFrame ? decodeText(concat) : concat;
+      }
+      case OpCode.Close: {
+        if (frame.payload.length === 0) {
+          return { code: 1005, reason: "" };
+        }
+        if (frame.payload.length === 1) {
+          throw new WebSocketError("invalid close frame");
+        }
+        // [0x12, 0x34] -> 0x1234
+        const code = (frame.payload[0] << 8) | frame.payload[1];
+        if (!isValidCloseCode(code)) {
+          throw new WebSocketError(`invalid close code: ${code}`);
+        }
+        return { code, reason: decodeText(frame.payload.subarray(2)) };
       }
+      case OpCode.Ping:
+        return ["ping", frame.payload] as WebSocketPingEvent;
+      case OpCode.Pong:
+        return ["pong", frame.payload] as WebSocketPongEvent;
+      default:
+        return undefined;
     }
   }
 
@@ -313,12 +694,17 @@ class WebSocketImpl implements WebSocket {
     const opcode = typeof data === "string"
       ? OpCode.TextFrame
       : OpCode.BinaryFrame;
-    const payload = typeof data === "string"
+    let payload = typeof data === "string"
       ? new TextEncoder().encode(data)
       : data;
+    const rsv1 = !!this.deflate && payload.byteLength >= this.deflate.threshold;
+    if (rsv1) {
+      payload = this.deflate!.compress(payload);
+    }
     const isLastFrame = true;
     const frame = {
       isLastFrame,
+      rsv1,
       opcode,
       payload,
       mask: this.mask,
@@ -330,6 +716,9 @@ class WebSocketImpl implements WebSocket {
     const payload = typeof data === "string"
       ? new TextEncoder().encode(data)
       : data;
+    if (payload.byteLength > 125) {
+      throw new RangeError("ws: ping payload is longer than 125 bytes");
+    }
     const frame = {
       isLastFrame: true,
       opcode: OpCode.Ping,
@@ -345,11 +734,14 @@ class WebSocketImpl implements WebSocket {
   }
 
   async close(code = 1000, reason?: string) {
+    const reasonBytes = new TextEncoder().encode(reason);
+    if (reasonBytes.byteLength > 123) {
+      throw new RangeError("ws: close reason is longer than 123 bytes");
+    }
     try {
       const header = [code >>> 8, code & 0x00ff];
       let payload: Uint8Array;
       if (reason) {
-        const reasonBytes = new TextEncoder().encode(reason);
         payload = new Uint8Array(2 + reasonBytes.byteLength);
         payload.set(header);
         payload.set(reasonBytes, 2);
@@ -416,16 +808,81 @@ export function createSecAccept(nonce: string): string {
   return btoa(String.fromCharCode(...bytes));
 }
 
-/** Upgrade inputted TCP connection into WebSocket connection. */
+/** Parse the value of a `Sec-WebSocket-Protocol` header. */
+function parseProtocols(value: string | null): string[] {
+  if (value === null) return [];
+  return value.split(",").map((p) => p.trim()).filter((p) => p !== "");
+}
+
+export interface AcceptWebSocketOptions extends WebSocketLimits {
+  /** The subprotocols supported by the server, in order of preference, or a
+   * function selecting one of the subprotocols offered by the client. If no
+   * subprotocol is selected, the response has no `Sec-WebSocket-Protocol`
+   * header. */
+  protocols?: string[] | ((offered: string[]) => string | undefined);
+  /** Accept the permessage-deflate extension if the client offers it. The
+   * options are the parameters required by the server in addition to those
+   * requested by the client. */
+  perMessageDeflate?: boolean | PerMessageDeflateOptions;
+}
+
+/** Select the subprotocol of the response to a handshake. */
+function selectProtocol(
+  offered: string[],
+  protocols: AcceptWebSocketOptions["protocols"],
+): string {
+  if (typeof protocols === "function") {
+    const selected = protocols(offered);
+    if (selected !== undefined && !offered.includes(selected)) {
+      throw new Error(`ws: protocol "${selected}" was not offered`);
+    }
+    return selected ?? "";
+  }
+  return protocols?.find((p) => offered.includes(p)) ?? "";
+}
+
+/** Upgrade inputted TCP connection into WebSocket connection.
+ *
+ *     const ws = await acceptWebSocket({
+ *       conn: req.conn,
+ *       bufReader: req.r,
+ *       bufWriter: req.w,
+ *       headers: req.headers,
+ *     }, { protocols: ["chat.v2", "chat.v1"] });
+ *     console.log(ws.protocol);
+ */
 export async function acceptWebSocket(req: {
   conn: Deno.Conn;
   bufWriter: BufWriter;
   bufReader: BufReader;
   headers: Headers;
-}): Promise<WebSocket> {
+}, options: AcceptWebSocketOptions = {}): Promise<WebSocket> {
   const { conn, headers, bufReader, bufWriter } = req;
   if (acceptable(req)) {
-    const sock = new WebSocketImpl({ conn, bufReader, bufWriter });
+    const protocol = selectProtocol(
+      parseProtocols(headers.get("sec-websocket-protocol")),
+      options.protocols,
+    );
+    const deflateOptions = options.perMessageDeflate === true
+      ? {}
+      : options.perMessageDeflate || undefined;
+    const deflateParams = deflateOptions &&
+      acceptDeflateOffer(
+        headers.get("sec-websocket-extensions"),
+        deflateOptions,
+      );
+    const extensions = deflateParams ? formatDeflateParams(deflateParams) : "";
+    const sock = new WebSocketImpl({
+      conn,
+      bufReader,
+      bufWriter,
+      protocol,
+      extensions,
+      deflate: deflateParams &&
+        new PerMessageDeflate(deflateParams, false, deflateOptions!.threshold),
+      maxFrameSize: options.maxFrameSize,
+      maxMessageSize: options.maxMessageSize,
+    });
     const secKey = headers.get("sec-websocket-key");
     if (typeof secKey !== "string") {
       throw new Error("sec-websocket-key is not provided");
@@ -436,9 +893,11 @@ export async function acceptWebSocket(req: {
       Connection: "Upgrade",
       "Sec-WebSocket-Accept": secAccept,
     });
-    const secProtocol = headers.get("sec-websocket-protocol");
-    if (typeof secProtocol === "string") {
-      newHeaders.set("Sec-WebSocket-Protocol", secProtocol);
+    if (protocol !== "") {
+      newHeaders.set("Sec-WebSocket-Protocol", protocol);
+    }
+    if (extensions !== "") {
+      newHeaders.set("Sec-WebSocket-Extensions", extensions);
     }
     const secVersion = headers.get("sec-websocket-version");
     if (typeof secVersion === "string") {
@@ -465,12 +924,19 @@ export function createSecKey(): string {
   return btoa(key);
 }
 
+/** Create mask from the client to the server with random 32bit number. */
+export function createMask(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(4));
+}
+
+/** Send the opening handshake of a client and read the response of the
+ * server. Returns the headers of the response. */
 export async function handshake(
   url: URL,
   headers: Headers,
   bufReader: BufReader,
   bufWriter: BufWriter,
-) {
+): Promise<Headers> {
   const { hostname, pathname, search } = url;
   const key = createSecKey();
 
@@ -523,13 +989,296 @@ export async function handshake(
         `expected=${expectedSecAccept}, actual=${secAccept}`,
     );
   }
+  return responseHeaders;
 }
 
-export function createWebSocket(params: {
-  conn: Deno.Conn;
-  bufWriter?: BufWriter;
-  bufReader?: BufReader;
-  mask?: Uint8Array;
-}): WebSocket {
-  return new WebSocketImpl(params);
+/** Create a WebSocket over a connection whose handshake is complete. The
+ * socket is a client if `mask` is given. `extensions` is the
+ * `Sec-WebSocket-Extensions` header of the response to the handshake, which
+ * enables permessage-deflate if it lists it. */
+export function createWebSocket(
+  params: {
+    conn: Deno.Conn;
+    bufWriter?: BufWriter;
+    bufReader?: BufReader;
+    mask?: Uint8Array;
+    protocol?: string;
+    extensions?: string;
+  } & WebSocketLimits,
+): WebSocket {
+  const [deflate] = parseExtensions(params.extensions ?? null);
+  const deflateParams = deflate?.name === "permessage-deflate"
+    ? parseDeflateParams(deflate.params)
+    : undefined;
+  return new WebSocketImpl({
+    ...params,
+    deflate: deflateParams &&
+      new PerMessageDeflate(deflateParams, params.mask !== undefined),
+  });
+}
+
+export interface ConnectWebSocketOptions extends WebSocketLimits {
+  /** The subprotocols offered to the server, in order of preference. */
+  protocols?: string[];
+  /** Additional headers of the handshake request. */
+  headers?: HeadersInit;
+  /** Options of the TLS connection of `wss:` and `https:` URLs. */
+  tls?: Omit<Deno.ConnectTlsOptions, "hostname" | "port">;
+  /** Offer the permessage-deflate extension, with the given parameters. */
+  perMessageDeflate?: boolean | PerMessageDeflateOptions;
+}
+
+/**
+ * Connect to a WebSocket server.
+ *
+ *     const ws = await connectWebSocket("wss://example.com/chat", {
+ *       protocols: ["chat.v2", "chat.v1"],
+ *     });
+ *     await ws.send("hello");
+ *     for await (const event of ws) {
+ *       console.log(event);
+ *     }
+ *
+ * @throws `Error` if the server rejects the handshake or selects a
+ * subprotocol which was not offered.
+ */
+export async function connectWebSocket(
+  url: string | URL,
+  options: ConnectWebSocketOptions = {},
+): Promise<WebSocket> {
+  const endpoint = new URL(String(url));
+  const { hostname } = endpoint;
+  let conn: Deno.Conn;
+  if (endpoint.protocol === "ws:" || endpoint.protocol === "http:") {
+    const port = parseInt(endpoint.port || "80");
+    conn = await Deno.connect({ hostname, port });
+  } else if (endpoint.protocol === "wss:" || endpoint.protocol === "https:") {
+    const port = parseInt(endpoint.port || "443");
+    conn = await Deno.connectTls({ ...options.tls, hostname, port });
+  } else {
+    throw new Error("ws: unsupported protocol: " + endpoint.protocol);
+  }
+  const headers = new Headers(options.headers);
+  if (!headers.has("host")) {
+    headers.set("host", endpoint.host);
+  }
+  const protocols = options.protocols ?? [];
+  if (protocols.length > 0) {
+    headers.set("sec-websocket-protocol", protocols.join(", "));
+  }
+  const deflateOptions = options.perMessageDeflate === true
+    ? {}
+    : options.perMessageDeflate || undefined;
+  const deflateOffer = deflateOptions && createDeflateOffer(deflateOptions);
+  if (deflateOffer) {
+    headers.set("sec-websocket-extensions", formatDeflateParams(deflateOffer));
+  }
+  const bufReader = new BufReader(conn);
+  const bufWriter = new BufWriter(conn);
+  let protocol: string;
+  let extensions: string;
+  let deflateParams: DeflateParams | undefined;
+  try {
+    const responseHeaders = await handshake(
+      endpoint,
+      headers,
+      bufReader,
+      bufWriter,
+    );
+    protocol = responseHeaders.get("sec-websocket-protocol") ?? "";
+    if (protocol !== "" && !protocols.includes(protocol)) {
+      throw new Error(`ws: server selected unexpected protocol: ${protocol}`);
+    }
+    extensions = responseHeaders.get("sec-websocket-extensions") ?? "";
+    deflateParams = checkDeflateResponse(extensions, deflateOffer);
+  } catch (err) {
+    conn.close();
+    throw err;
+  }
+  return new WebSocketImpl({
+    conn,
+    bufReader,
+    bufWriter,
+    mask: createMask(),
+    protocol,
+    extensions,
+    deflate: deflateParams &&
+      new PerMessageDeflate(deflateParams, true, deflateOptions!.threshold),
+    maxFrameSize: options.maxFrameSize,
+    maxMessageSize: options.maxMessageSize,
+  });
+}
+
+export interface ReconnectingWebSocketOptions extends ConnectWebSocketOptions {
+  /** Milliseconds before the first attempt to reconnect, doubled after each
+   * failed attempt. Defaults to `1000`. */
+  minDelay?: number;
+  /** Maximum number of milliseconds between two attempts. Defaults to
+   * `30000`. */
+  maxDelay?: number;
+  /** Number of consecutive failed attempts after which the socket gives up.
+   * Defaults to `Infinity`. */
+  maxRetries?: number;
+  /** Maximum number of messages buffered while disconnected. Defaults to
+   * `1000`. */
+  bufferSize?: number;
+}
+
+/**
+ * A client WebSocket which reconnects, with exponential backoff, when the
+ * connection is lost. Messages sent while disconnected are buffered and sent
+ * once connected again.
+ *
+ *     const ws = new ReconnectingWebSocket("wss://example.com/feed");
+ *     ws.send("subscribe");
+ *     for await (const event of ws) {
+ *       console.log(event);
+ *     }
+ *
+ * Connecting and reconnecting happen while the socket is iterated. Events of
+ * successive connections, including close events sent by the server, are
+ * yielded in order. The iteration ends when `close()` is called, or throws the
+ * last error once `maxRetries` attempts failed in a row.
+ */
+export class ReconnectingWebSocket implements AsyncIterable<WebSocketEvent> {
+  readonly url: string;
+  #options: ReconnectingWebSocketOptions;
+  #socket?: WebSocket;
+  #buffer: Array<{ data: WebSocketMessage; d: Deferred<void> }> = [];
+  #closed = false;
+  #wakeUp?: Deferred<void>;
+
+  constructor(url: string | URL, options: ReconnectingWebSocketOptions = {}) {
+    this.url = String(url);
+    this.#options = options;
+  }
+
+  /** The current connection, if connected. */
+  get socket(): WebSocket | undefined {
+    return this.#socket;
+  }
+
+  get isClosed(): boolean {
+    return this.#closed;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<WebSocketEvent> {
+    const {
+      minDelay = 1000,
+      maxDelay = 30000,
+      maxRetries = Infinity,
+    } = this.#options;
+    let attempt = 0;
+    let lastError: unknown;
+    while (!this.#closed) {
+      if (attempt > 0) {
+        if (attempt > maxRetries) {
+          this.#close();
+          if (lastError !== undefined) throw lastError;
+          return;
+        }
+        await this.#sleep(Math.min(maxDelay, minDelay * 2 ** (attempt - 1)));
+        if (this.#closed) return;
+      }
+      let socket: WebSocket;
+      try {
+        socket = await connectWebSocket(this.url, this.#options);
+      } catch (err) {
+        lastError = err;
+        attempt++;
+        continue;
+      }
+      if (this.#closed) {
+        socket.closeForce();
+        return;
+      }
+      lastError = undefined;
+      // A lost connection is retried after `minDelay`.
+      attempt = 1;
+      if (await this.#flush(socket)) {
+        this.#socket = socket;
+      }
+      try {
+        yield* socket;
+      } finally {
+        this.#socket = undefined;
+        socket.closeForce();
+      }
+    }
+  }
+
+  /** Send a message, or buffer it until connected. The promise resolves once
+   * the message is written to a connection. It rejects with
+   * `Deno.errors.ConnectionReset` if the socket is closed, and with an `Error`
+   * if the buffer is full.
+   */
+  send(data: WebSocketMessage): Promise<void> {
+    const socket = this.#socket;
+    if (!this.#closed && socket && !socket.isClosed) {
+      return socket.send(data).catch(() => this.#enqueue(data));
+    }
+    return this.#enqueue(data);
+  }
+
+  /** Close the current connection, if any, and stop reconnecting. Buffered
+   * messages are discarded. */
+  async close(code = 1000, reason?: string): Promise<void> {
+    const socket = this.#socket;
+    this.#close();
+    if (socket && !socket.isClosed) {
+      await (reason === undefined
+        ? socket.close(code)
+        : socket.close(code, reason));
+    }
+  }
+
+  #close(): void {
+    this.#closed = true;
+    this.#wakeUp?.resolve();
+    const rest = this.#buffer;
+    this.#buffer = [];
+    rest.forEach((e) =>
+      e.d.reject(
+        new Deno.errors.ConnectionReset("Socket has already been closed"),
+      )
+    );
+  }
+
+  #enqueue(data: WebSocketMessage): Promise<void> {
+    if (this.#closed) {
+      return Promise.reject(
+        new Deno.errors.ConnectionReset("Socket has already been closed"),
+      );
+    }
+    if (this.#buffer.length >= (this.#options.bufferSize ?? 1000)) {
+      return Promise.reject(new Error("ws: message buffer is full"));
+    }
+    const d = deferred<void>();
+    this.#buffer.push({ data, d });
+    return d;
+  }
+
+  /** Send the buffered messages, including those buffered meanwhile. Returns
+   * `false` if the connection failed. */
+  async #flush(socket: WebSocket): Promise<boolean> {
+    while (this.#buffer.length > 0) {
+      const [entry] = this.#buffer;
+      try {
+        await socket.send(entry.data);
+      } catch {
+        return false;
+      }
+      this.#buffer.shift();
+      entry.d.resolve();
+    }
+    return true;
+  }
+
+  async #sleep(ms: number): Promise<void> {
+    this.#wakeUp = deferred();
+    const timer = setTimeout(() => this.#wakeUp?.resolve(), ms);
+    await this.#wakeUp;
+    clearTimeout(timer);
+    this.#wakeUp = undefined;
+  }
 }
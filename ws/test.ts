@@ -3,6 +3,7 @@ import { BufReader, BufWriter } from "../io/bufio.ts";
 import {
   assert,
   assertEquals,
+  assertThrows,
   assertThrowsAsync,
   fail,
 } from "../testing/asserts.ts";
@@ -11,13 +12,19 @@ import * as bytes from "../bytes/mod.ts";
 import {
   acceptable,
   acceptWebSocket,
+  AcceptWebSocketOptions,
+  connectWebSocket,
   createSecAccept,
   createSecKey,
   createWebSocket,
   handshake,
   OpCode,
   readFrame,
+  ReconnectingWebSocket,
   unmask,
+  WebSocketError,
+  WebSocketEvent,
+  WebSocketLimits,
   writeFrame,
 } from "./mod.ts";
 import { delay } from "../async/delay.ts";
@@ -471,7 +478,7 @@ Deno.test("[ws] WebSocket protocol", async () => {
 
   const ws = new WebSocket("ws://localhost:5839", ["foo", "bar"]);
   ws.onopen = () => {
-    assertEquals(ws.protocol, "foo, bar");
+    assertEquals(ws.protocol, "bar");
     ws.close();
   };
   ws.onerror = () => fail();
@@ -483,15 +490,443 @@ Deno.test("[ws] WebSocket protocol", async () => {
   const x = await server[Symbol.asyncIterator]().next();
   if (!x.done) {
     const { conn, r: bufReader, w: bufWriter, headers } = x.value;
-    await acceptWebSocket({
+    const sock = await acceptWebSocket({
       conn,
       bufReader,
       bufWriter,
       headers,
-    });
+    }, { protocols: ["baz", "bar"] });
+    assertEquals(sock.protocol, "bar");
+    // Answer the close frame of the client.
+    for await (const _ of sock);
 
     await promise;
   } else {
     fail();
   }
 });
+
+/** Serve WebSocket connections on port 5840, echoing text messages prefixed
+ * with the subprotocol. The message "restart" closes the connection. */
+function echoServer(
+  options: AcceptWebSocketOptions = {},
+): { close(): Promise<void> } {
+  const server = serve({ hostname: "127.0.0.1", port: 5840 });
+  const handlers: Promise<unknown>[] = [];
+  // The loop never ends: acceptWebSocket() does not respond to requests.
+  (async () => {
+    for await (const req of server) {
+      const { conn, r: bufReader, w: bufWriter, headers } = req;
+      handlers.push(
+        acceptWebSocket({ conn, bufReader, bufWriter, headers }, options)
+          .then(async (sock) => {
+            for await (const event of sock) {
+              if (event === "restart") {
+                await sock.close(1012, "restart");
+              } else if (typeof event === "string") {
+                await sock.send(`${sock.protocol}:${event}`);
+              }
+            }
+          }, () => req.respond({ status: 400 })),
+      );
+    }
+  })();
+  return {
+    async close() {
+      await Promise.all(handlers);
+      server.close();
+    },
+  };
+}
+
+Deno.test("[ws] connectWebSocket negotiates a subprotocol", async () => {
+  const server = echoServer({ protocols: ["chat.v2", "chat.v1"] });
+  try {
+    const ws = await connectWebSocket("ws://127.0.0.1:5840/", {
+      protocols: ["chat.v1", "chat.v2"],
+      headers: { "x-custom": "1" },
+    });
+    assertEquals(ws.protocol, "chat.v2");
+    await ws.send("hello");
+    await ws.send("restart");
+    const events = [];
+    for await (const event of ws) {
+      events.push(event);
+    }
+    assertEquals(events, ["chat.v2:hello", { code: 1012, reason: "restart" }]);
+
+    const plain = await connectWebSocket("ws://127.0.0.1:5840/", {
+      protocols: ["other"],
+      perMessageDeflate: true,
+    });
+    assertEquals(plain.protocol, "");
+    assertEquals(plain.extensions, "");
+    await plain.send("restart");
+    for await (const _ of plain);
+  } finally {
+    await server.close();
+  }
+  await assertThrowsAsync(
+    () => connectWebSocket("ftp://127.0.0.1:5840/"),
+    Error,
+    "ws: unsupported protocol: ftp:",
+  );
+});
+
+Deno.test("[ws] acceptWebSocket rejects protocols which were not offered", async () => {
+  const server = echoServer({ protocols: () => "evil" });
+  try {
+    await assertThrowsAsync(
+      () => connectWebSocket("ws://127.0.0.1:5840/", { protocols: ["good"] }),
+      Error,
+      "ws: server didn't accept handshake",
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("[ws] ReconnectingWebSocket reconnects and buffers messages", async () => {
+  const ws = new ReconnectingWebSocket("ws://127.0.0.1:5840/", {
+    minDelay: 10,
+    maxRetries: 20,
+  });
+  // Sent once connected.
+  const sent = ws.send("first");
+  const server = echoServer();
+  const events = [];
+  const sockets = new Set();
+  try {
+    for await (const event of ws) {
+      sockets.add(ws.socket);
+      events.push(event);
+      if (events.length === 5) {
+        await ws.close();
+      } else if (event === ":first") {
+        await ws.send("restart");
+      } else if (typeof event === "object" && "code" in event) {
+        // Buffered until the next connection.
+        ws.send("second");
+      } else if (event === ":second") {
+        ws.send("third");
+        await ws.send("restart");
+      }
+    }
+  } finally {
+    await server.close();
+  }
+  await sent;
+  assertEquals(events, [
+    ":first",
+    { code: 1012, reason: "restart" },
+    ":second",
+    ":third",
+    { code: 1012, reason: "restart" },
+  ]);
+  assertEquals(sockets.size, 2);
+  assert(ws.isClosed);
+  await assertThrowsAsync(() => ws.send("late"), Deno.errors.ConnectionReset);
+});
+
+Deno.test("[ws] ReconnectingWebSocket gives up after maxRetries", async () => {
+  const ws = new ReconnectingWebSocket("ws://127.0.0.1:5840/", {
+    minDelay: 1,
+    maxRetries: 2,
+  });
+  const sent = ws.send("lost").catch((e) => e);
+  await assertThrowsAsync(async () => {
+    for await (const _ of ws) {
+      fail();
+    }
+  }, Deno.errors.ConnectionRefused);
+  assert(ws.isClosed);
+  assert((await sent) instanceof Deno.errors.ConnectionReset);
+});
+
+Deno.test("[ws] readFrame rejects RSV2 and RSV3", async () => {
+  for (const first of [0xa1, 0x91]) {
+    const buf = new Buffer(new Uint8Array([first, 0x00]));
+    await assertThrowsAsync(
+      () => readFrame(new BufReader(buf)),
+      Error,
+      "invalid signature",
+    );
+  }
+});
+
+Deno.test("[ws] permessage-deflate compresses large messages", async () => {
+  const buf = new Buffer();
+  const extensions = "permessage-deflate; client_no_context_takeover";
+  const client = createWebSocket({
+    conn: dummyConn(buf, buf),
+    mask: new Uint8Array([1, 2, 3, 4]),
+    extensions,
+  });
+  assertEquals(client.extensions, extensions);
+  const message = "hello ".repeat(1000);
+  await client.send("small");
+  await client.send(message);
+  await client.send(message);
+  const data = buf.bytes();
+
+  const r = new BufReader(new Buffer(data));
+  const small = await readFrame(r);
+  assertEquals(small.rsv1, false);
+  const large = await readFrame(r);
+  assertEquals(large.rsv1, true);
+  assert(large.payload.byteLength < 100);
+  // Without context takeover, messages are compressed independently.
+  assertEquals((await readFrame(r)).payload, large.payload);
+
+  const server = createWebSocket({
+    conn: dummyConn(new Buffer(data), new Buffer()),
+    extensions,
+  });
+  const events = [];
+  for await (const event of server) {
+    events.push(event);
+  }
+  assertEquals(events, ["small", message, message]);
+});
+
+Deno.test("[ws] compressed frames are refused unless negotiated", async () => {
+  const buf = new Buffer();
+  const client = createWebSocket({
+    conn: dummyConn(buf, buf),
+    mask: new Uint8Array([1, 2, 3, 4]),
+    extensions: "permessage-deflate",
+  });
+  await client.send("x".repeat(2000));
+  const server = createWebSocket({
+    conn: dummyConn(buf, new Buffer()),
+  });
+  for await (const _ of server) {
+    fail();
+  }
+  assert(server.isClosed);
+});
+
+Deno.test("[ws] connectWebSocket negotiates permessage-deflate", async () => {
+  const server = echoServer({
+    perMessageDeflate: { serverMaxWindowBits: 10, threshold: 0 },
+  });
+  try {
+    const ws = await connectWebSocket("ws://127.0.0.1:5840/", {
+      perMessageDeflate: {
+        clientMaxWindowBits: 9,
+        serverNoContextTakeover: true,
+      },
+    });
+    assertEquals(
+      ws.extensions,
+      "permessage-deflate; server_no_context_takeover; server_max_window_bits=10",
+    );
+    const message = JSON.stringify(
+      Array.from({ length: 500 }, (_, id) => ({ id, name: `item${id}` })),
+    );
+    await ws.send(message);
+    await ws.send("hi");
+    await ws.send("restart");
+    const events = [];
+    for await (const event of ws) {
+      events.push(event);
+    }
+    assertEquals(events, [
+      `:${message}`,
+      ":hi",
+      { code: 1012, reason: "restart" },
+    ]);
+
+    const plain = await connectWebSocket("ws://127.0.0.1:5840/");
+    assertEquals(plain.extensions, "");
+    await plain.send("restart");
+    for await (const _ of plain);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("[ws] connectWebSocket rejects invalid extension responses", async () => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 5841 });
+  const responses = [
+    "permessage-deflate; client_max_window_bits",
+    "permessage-deflate; server_max_window_bits=12",
+    "permessage-deflate; foo",
+    "x-webkit-deflate-frame",
+  ];
+  const serving = (async () => {
+    for (const extensions of responses) {
+      const conn = await listener.accept();
+      const tpReader = new TextProtoReader(new BufReader(conn));
+      await tpReader.readLine();
+      const headers = await tpReader.readMIMEHeader();
+      assert(headers);
+      const accept = createSecAccept(headers.get("sec-websocket-key")!);
+      await conn.write(
+        new TextEncoder().encode(
+          "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\nConnection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${accept}\r\n` +
+            `Sec-WebSocket-Extensions: ${extensions}\r\n\r\n`,
+        ),
+      );
+      conn.close();
+    }
+  })();
+  try {
+    for (const extensions of responses.slice(0, 3)) {
+      await assertThrowsAsync(
+        () =>
+          connectWebSocket("ws://127.0.0.1:5841/", {
+            perMessageDeflate: { serverMaxWindowBits: 10 },
+          }),
+        Error,
+        `ws: invalid permessage-deflate response: ${extensions}`,
+      );
+    }
+    await assertThrowsAsync(
+      () => connectWebSocket("ws://127.0.0.1:5841/"),
+      Error,
+      "ws: server selected unexpected extensions: x-webkit-deflate-frame",
+    );
+  } finally {
+    await serving;
+    listener.close();
+  }
+});
+
+function rawFrame(first: number, payload: string | number[] = []): Uint8Array {
+  const data = typeof payload === "string"
+    ? new TextEncoder().encode(payload)
+    : payload;
+  assert(data.length < 126);
+  return new Uint8Array([first, data.length, ...data]);
+}
+
+/** Feed data to a server socket. Returns the events of the socket and the
+ * status code of the close frame it sent, if any. */
+async function receive(
+  data: Uint8Array,
+  limits: WebSocketLimits = {},
+): Promise<{ events: WebSocketEvent[]; code?: number }> {
+  const out = new Buffer();
+  const sock = createWebSocket({
+    conn: dummyConn(new Buffer(data), out),
+    extensions: "permessage-deflate",
+    ...limits,
+  });
+  const events = [];
+  for await (const event of sock) {
+    events.push(event);
+  }
+  assert(sock.isClosed);
+  const r = new BufReader(out);
+  while (out.length > 0 || r.buffered() > 0) {
+    const frame = await readFrame(r);
+    if (frame.opcode === OpCode.Close) {
+      return { events, code: (frame.payload[0] << 8) | frame.payload[1] };
+    }
+  }
+  return { events };
+}
+
+Deno.test("[ws] readFrame rejects invalid frames", async () => {
+  const cases: Array<[Uint8Array, string, number]> = [
+    [rawFrame(0x83), "invalid opcode: 3", 1002],
+    [rawFrame(0x09), "fragmented control frame", 1002],
+    [new Uint8Array([0x89, 126, 0, 126]), "control frame too large", 1002],
+    [new Uint8Array([0x82, 127, 0xff, 0, 0, 0, 0, 0, 0, 0]), "length", 1002],
+    [new Uint8Array([0x82, 127, 0x7f, 0, 0, 0, 0, 0, 0, 0]), "too large", 1009],
+    [new Uint8Array([0x82, 126, 0x03, 0xe8]), "frame too large", 1009],
+  ];
+  for (const [data, message, code] of cases) {
+    const err = await assertThrowsAsync(
+      () => readFrame(new BufReader(new Buffer(data)), 999),
+      WebSocketError,
+      message,
+    );
+    assertEquals((err as WebSocketError).code, code);
+  }
+});
+
+Deno.test("[ws] WebSocket fails the connection on protocol errors", async () => {
+  const cases: Array<[Uint8Array[], number]> = [
+    [[rawFrame(0x81, [0xc3, 0x28])], 1007],
+    [[rawFrame(0x01, [0xce]), rawFrame(0x80, [0xba, 0xe1, 0xbd])], 1007],
+    [[rawFrame(0x80, "a")], 1002],
+    [[rawFrame(0x01, "a"), rawFrame(0x81, "b")], 1002],
+    [[rawFrame(0x88, [0x03])], 1002],
+    [[rawFrame(0x88, [0x03, 0xe7])], 1002],
+    [[rawFrame(0x88, [0x03, 0xed])], 1002],
+    [[rawFrame(0x88, [0x07, 0xd0])], 1002],
+    [[rawFrame(0x88, [0x03, 0xe8, 0xff])], 1007],
+    [[rawFrame(0xc9, "ping")], 1002],
+  ];
+  for (const [frames, code] of cases) {
+    const result = await receive(bytes.concat(...frames));
+    assertEquals(result, { events: [], code });
+  }
+});
+
+Deno.test("[ws] WebSocket receives fragmented messages and close frames", async () => {
+  const data = bytes.concat(
+    rawFrame(0x01, [0xc3]),
+    rawFrame(0x89, "ping"),
+    rawFrame(0x80, [0xa9]),
+    rawFrame(0x88, [0x0b, 0xb8, 0x62, 0x79, 0x65]),
+  );
+  assertEquals(await receive(data), {
+    events: [
+      ["ping", new TextEncoder().encode("ping")],
+      "é",
+      { code: 3000, reason: "bye" },
+    ],
+    code: 3000,
+  });
+  assertEquals(await receive(rawFrame(0x88)), {
+    events: [{ code: 1005, reason: "" }],
+    code: 1000,
+  });
+});
+
+Deno.test("[ws] WebSocket enforces maxFrameSize and maxMessageSize", async () => {
+  const fragments = bytes.concat(
+    rawFrame(0x02, [1, 2, 3]),
+    rawFrame(0x80, [4, 5, 6]),
+  );
+  assertEquals(
+    (await receive(fragments, { maxMessageSize: 6 })).events,
+    [new Uint8Array([1, 2, 3, 4, 5, 6])],
+  );
+  assertEquals(await receive(fragments, { maxMessageSize: 5 }), {
+    events: [],
+    code: 1009,
+  });
+  assertEquals(await receive(fragments, { maxFrameSize: 2 }), {
+    events: [],
+    code: 1009,
+  });
+
+  // The limit applies to decompressed messages.
+  const buf = new Buffer();
+  const client = createWebSocket({
+    conn: dummyConn(buf, buf),
+    mask: new Uint8Array([1, 2, 3, 4]),
+    extensions: "permessage-deflate",
+  });
+  await client.send(new Uint8Array(10000));
+  assert(buf.length < 1000);
+  assertEquals(await receive(buf.bytes(), { maxMessageSize: 1000 }), {
+    events: [],
+    code: 1009,
+  });
+});
+
+Deno.test("[ws] control frames sent are limited to 125 bytes", async () => {
+  const sock = createWebSocket({ conn: dummyConn(new Buffer(), new Buffer()) });
+  assertThrows(() => sock.ping("x".repeat(126)), RangeError);
+  await assertThrowsAsync(() => sock.close(1000, "x".repeat(124)), RangeError);
+  assert(!sock.isClosed);
+  await sock.ping("x".repeat(125));
+  await sock.close(1000, "x".repeat(123));
+});
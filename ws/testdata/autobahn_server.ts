@@ -0,0 +1,29 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// An echo server for the fuzzingclient of the Autobahn test suite:
+//
+//   deno run --allow-net ws/testdata/autobahn_server.ts
+//   docker run -it --rm --network host \
+//     -v "${PWD}/ws/testdata:/config" -v "${PWD}/reports:/reports" \
+//     crossbario/autobahn-testsuite \
+//     wstest -m fuzzingclient -s /config/fuzzingclient.json
+import { serve } from "../../http/server.ts";
+import { acceptWebSocket, WebSocket } from "../mod.ts";
+
+async function echo(sock: WebSocket): Promise<void> {
+  for await (const event of sock) {
+    if (typeof event === "string" || event instanceof Uint8Array) {
+      await sock.send(event).catch(() => {});
+    }
+  }
+}
+
+const port = Deno.args[0] || "9001";
+console.log(`autobahn echo server is running on :${port}`);
+for await (const req of serve(`:${port}`)) {
+  const { conn, r: bufReader, w: bufWriter, headers } = req;
+  acceptWebSocket({ conn, bufReader, bufWriter, headers }, {
+    perMessageDeflate: true,
+  })
+    .then(echo)
+    .catch(() => req.respond({ status: 400 }).catch(() => {}));
+}